@@ -1,11 +1,27 @@
-const CACHE_NAME = 'pakrail-cache-v1';
-const PRECACHE_URLS = ['/', '/index.html', '/favicon.svg'];
+// Built assets, listed by the precache-manifest plugin in vite.config.ts. The
+// file is missing in development, where the service worker is not registered.
+try {
+  importScripts('/precache-manifest.js');
+} catch {
+  self.__PRECACHE_MANIFEST = { version: 'dev', urls: [] };
+}
+
+const { version, urls: PRECACHE_ASSETS } = self.__PRECACHE_MANIFEST;
+const PRECACHE_NAME = `pakrail-precache-${version}`;
+const API_CACHE_NAME = 'pakrail-api-v1';
+const RUNTIME_CACHE_NAME = 'pakrail-runtime-v1';
+const CURRENT_CACHES = [PRECACHE_NAME, API_CACHE_NAME, RUNTIME_CACHE_NAME];
+
+const APP_SHELL = ['/', '/index.html', '/favicon.svg', '/favicon.png', '/logo.png'];
+
+// Static API resources the app can run on without a live connection
+const OFFLINE_API_PATH = /^\/api\/(trains|stations|train-stations)$/;
 
 self.addEventListener('install', (event) => {
   event.waitUntil(
     caches
-      .open(CACHE_NAME)
-      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .open(PRECACHE_NAME)
+      .then((cache) => cache.addAll([...APP_SHELL, ...PRECACHE_ASSETS]))
       .then(() => self.skipWaiting())
   );
 });
@@ -17,7 +33,7 @@ self.addEventListener('activate', (event) => {
       .then((cacheNames) =>
         Promise.all(
           cacheNames
-            .filter((cacheName) => cacheName !== CACHE_NAME)
+            .filter((cacheName) => !CURRENT_CACHES.includes(cacheName))
             .map((cacheName) => caches.delete(cacheName))
         )
       )
@@ -25,6 +41,70 @@ self.addEventListener('activate', (event) => {
   );
 });
 
+const putInCache = (cacheName, request, response) => {
+  if (!response || response.status !== 200 || response.type === 'opaque') return;
+  const responseClone = response.clone();
+  caches.open(cacheName).then((cache) => cache.put(request, responseClone));
+};
+
+// Always asks the network (so dataset revalidation sees new timetables) and
+// answers from the last good response when there is no signal, or when the
+// network is too slow to wait for on a patchy connection
+const API_NETWORK_TIMEOUT_MS = 6000;
+
+// Marks responses answered from the cache, so a revalidation does not take
+// them for the server confirming the dataset (read in datasetSync.ts)
+const SERVED_FROM_HEADER = 'X-Served-From';
+
+const markFromCache = (cachedResponse) => {
+  const headers = new Headers(cachedResponse.headers);
+  headers.set(SERVED_FROM_HEADER, 'cache');
+  return new Response(cachedResponse.body, {
+    status: cachedResponse.status,
+    statusText: cachedResponse.statusText,
+    headers,
+  });
+};
+
+const networkFirst = (request, cacheName) =>
+  new Promise((resolve, reject) => {
+    let settled = false;
+    const settle = (callback, value) => {
+      if (settled) return;
+      settled = true;
+      callback(value);
+    };
+    const answerFromCache = () =>
+      caches.match(request, { cacheName }).then((cachedResponse) => {
+        if (cachedResponse) settle(resolve, markFromCache(cachedResponse));
+        return cachedResponse;
+      });
+
+    const timer = setTimeout(answerFromCache, API_NETWORK_TIMEOUT_MS);
+    fetch(request)
+      .then((response) => {
+        clearTimeout(timer);
+        putInCache(cacheName, request, response);
+        settle(resolve, response);
+      })
+      .catch((error) => {
+        clearTimeout(timer);
+        answerFromCache().then((cachedResponse) => {
+          if (!cachedResponse) settle(reject, error);
+        });
+      });
+  });
+
+const cacheFirst = (request, cacheName) =>
+  caches.match(request).then(
+    (cachedResponse) =>
+      cachedResponse ||
+      fetch(request).then((response) => {
+        putInCache(cacheName, request, response);
+        return response;
+      })
+  );
+
 self.addEventListener('fetch', (event) => {
   const { request } = event;
 
@@ -32,36 +112,56 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  const url = new URL(request.url);
+
+  if (OFFLINE_API_PATH.test(url.pathname)) {
+    event.respondWith(networkFirst(request, API_CACHE_NAME));
+    return;
+  }
+
   if (request.mode === 'navigate') {
-    event.respondWith(
-      fetch(request)
-        .then((response) => {
-          const responseClone = response.clone();
-          caches.open(CACHE_NAME).then((cache) => cache.put(request, responseClone));
-          return response;
-        })
-        .catch(() => caches.match('/index.html'))
-    );
+    event.respondWith(fetch(request).catch(() => caches.match('/index.html')));
     return;
   }
 
-  event.respondWith(
-    caches.match(request).then((cachedResponse) => {
-      if (cachedResponse) {
-        return cachedResponse;
-      }
+  // Other revalidating requests go to the network and HTTP cache
+  if (request.cache === 'no-cache') {
+    return;
+  }
+
+  event.respondWith(cacheFirst(request, RUNTIME_CACHE_NAME));
+});
 
-      return fetch(request)
-        .then((networkResponse) => {
-          if (!networkResponse || networkResponse.status !== 200 || networkResponse.type === 'opaque') {
-            return networkResponse;
-          }
-
-          const responseClone = networkResponse.clone();
-          caches.open(CACHE_NAME).then((cache) => cache.put(request, responseClone));
-          return networkResponse;
-        })
-        .catch(() => cachedResponse);
+// Tells the loading screen whether the app can start without a network
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'GET_CACHE_STATUS') return;
+  const [port] = event.ports;
+  event.waitUntil(
+    caches
+      .open(API_CACHE_NAME)
+      .then((cache) => cache.keys())
+      .then((requests) => {
+        const hasCachedData = requests.some((cached) => new URL(cached.url).pathname === '/api/trains');
+        port?.postMessage({ hasCachedData });
+      })
+  );
+});
+
+// Focus (or open) the app on the train a watch notification is about
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const targetUrl = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clientList) => {
+      const client = clientList.find((windowClient) => windowClient.url.startsWith(self.location.origin));
+      if (client) {
+        return client
+          .focus()
+          .then((focused) => focused.navigate(targetUrl))
+          .catch(() => self.clients.openWindow(targetUrl));
+      }
+      return self.clients.openWindow(targetUrl);
     })
   );
 });
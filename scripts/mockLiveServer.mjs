@@ -0,0 +1,263 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import http from 'node:http';
+import path from 'node:path';
+import process from 'node:process';
+
+// Replays a capture from captureSocket.mjs to local clients over socket.io
+// (engine.io v3 on a plain WebSocket), a JSON WebSocket and server-sent events.
+//
+//   node scripts/mockLiveServer.mjs [capture.json] [--speed 10] [--port 4000] [--no-loop]
+
+const root = process.cwd();
+const capturesDir = path.join(root, 'datapoints', 'captures');
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const PING_INTERVAL_MS = 25000;
+const PING_TIMEOUT_MS = 60000;
+
+const readOption = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? fallback : process.argv[index + 1];
+};
+
+const speed = Number(readOption('speed', 1));
+const port = Number(readOption('port', 4000));
+const loop = !process.argv.includes('--no-loop');
+const captureArg = process.argv
+  .slice(2)
+  .find((arg, index, args) => !arg.startsWith('--') && !['--speed', '--port'].includes(args[index - 1]));
+
+if (!Number.isFinite(speed) || speed <= 0) {
+  console.error('--speed must be a positive number');
+  process.exit(1);
+}
+
+function findLatestCapture(dir) {
+  const files = fs.existsSync(dir) ? fs.readdirSync(dir).filter((name) => name.endsWith('.json')) : [];
+  if (files.length === 0) {
+    return null;
+  }
+  const sorted = files
+    .map((name) => ({ name, time: fs.statSync(path.join(dir, name)).mtimeMs }))
+    .sort((a, b) => b.time - a.time);
+  return path.join(dir, sorted[0].name);
+}
+
+const capturePath = captureArg ? path.resolve(captureArg) : findLatestCapture(capturesDir);
+
+if (!capturePath || !fs.existsSync(capturePath)) {
+  console.error('No capture file found. Record one with scripts/captureSocket.mjs first.');
+  process.exit(1);
+}
+
+const captureText = fs.readFileSync(capturePath, 'utf8');
+const capture = JSON.parse(captureText);
+const timeline = (capture.events ?? [])
+  .map((entry) => ({ ...entry, at: Date.parse(entry.receivedAt) }))
+  .filter((entry) => Number.isFinite(entry.at))
+  .sort((a, b) => a.at - b.at);
+
+if (timeline.length === 0) {
+  console.error(`[mock] ${capturePath} has no events to replay`);
+  process.exit(1);
+}
+
+// --- Clients ---------------------------------------------------------------
+
+const clients = new Set();
+// Last full snapshot, sent to late joiners so they do not start empty
+let lastSnapshot = null;
+
+const broadcast = (event, payload) => {
+  if (event === 'all-newtrains') {
+    lastSnapshot = { event, payload };
+  }
+  clients.forEach((client) => client.send(event, payload));
+};
+
+const encodeFrame = (text, opcode = 0x1) => {
+  const body = Buffer.from(text);
+  let header;
+  if (body.length < 126) {
+    header = Buffer.from([0x80 | opcode, body.length]);
+  } else if (body.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(body.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(body.length), 2);
+  }
+  return Buffer.concat([header, body]);
+};
+
+// Splits buffered client frames (always masked) into { opcode, text } messages
+const decodeFrames = (buffer) => {
+  const messages = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (buffer.length < cursor + 4 + length) break;
+    const mask = buffer.subarray(cursor, cursor + 4);
+    const body = Buffer.from(buffer.subarray(cursor + 4, cursor + 4 + length));
+    for (let i = 0; i < body.length; i += 1) {
+      body[i] ^= mask[i % 4];
+    }
+    messages.push({ opcode, text: body.toString('utf8') });
+    offset = cursor + 4 + length;
+  }
+  return { messages, rest: buffer.subarray(offset) };
+};
+
+const acceptWebSocket = (req, socket, protocol) => {
+  const accept = crypto.createHash('sha1').update(req.headers['sec-websocket-key'] + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const client = {
+    protocol,
+    send: (event, payload) => {
+      const text = protocol === 'socket.io' ? `42${JSON.stringify([event, payload])}` : JSON.stringify({ event, payload });
+      socket.write(encodeFrame(text));
+    },
+    close: () => socket.end()
+  };
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    const { messages, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    messages.forEach(({ opcode, text }) => {
+      if (opcode === 0x8) {
+        socket.end(encodeFrame('', 0x8));
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(text, 0xa));
+      } else if (protocol === 'socket.io' && text === '2') {
+        // engine.io ping -> pong
+        socket.write(encodeFrame('3'));
+      }
+    });
+  });
+  socket.on('close', () => clients.delete(client));
+  socket.on('error', () => clients.delete(client));
+
+  if (protocol === 'socket.io') {
+    const handshake = { sid: crypto.randomUUID(), upgrades: [], pingInterval: PING_INTERVAL_MS, pingTimeout: PING_TIMEOUT_MS };
+    socket.write(encodeFrame(`0${JSON.stringify(handshake)}`));
+    socket.write(encodeFrame('40'));
+  }
+
+  clients.add(client);
+  if (lastSnapshot) client.send(lastSnapshot.event, lastSnapshot.payload);
+  console.log(`[mock] ${protocol} client connected (${clients.size} total)`);
+};
+
+const acceptEventStream = (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*'
+  });
+  res.write(': connected\n\n');
+
+  const client = {
+    protocol: 'sse',
+    send: (event, payload) => res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`),
+    close: () => res.end()
+  };
+  req.on('close', () => clients.delete(client));
+
+  clients.add(client);
+  if (lastSnapshot) client.send(lastSnapshot.event, lastSnapshot.payload);
+  console.log(`[mock] sse client connected (${clients.size} total)`);
+};
+
+// --- Server ----------------------------------------------------------------
+
+const server = http.createServer((req, res) => {
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+  if (pathname === '/events') {
+    acceptEventStream(req, res);
+    return;
+  }
+  if (pathname === '/capture.json') {
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+    res.end(captureText);
+    return;
+  }
+  res.writeHead(404, { 'Access-Control-Allow-Origin': '*' });
+  res.end();
+});
+
+server.on('upgrade', (req, socket) => {
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+  if (pathname.startsWith('/socket.io')) {
+    acceptWebSocket(req, socket, 'socket.io');
+  } else if (pathname === '/ws') {
+    acceptWebSocket(req, socket, 'websocket');
+  } else {
+    socket.destroy();
+  }
+});
+
+// --- Replay ----------------------------------------------------------------
+
+let timers = [];
+
+const play = (round) => {
+  const first = timeline[0].at;
+  const last = timeline[timeline.length - 1].at;
+  console.log(`[mock] replaying ${timeline.length} events over ${((last - first) / speed / 1000).toFixed(1)}s (round ${round})`);
+
+  timers = timeline.map((entry) => setTimeout(() => broadcast(entry.event, entry.payload), (entry.at - first) / speed));
+  timers.push(
+    setTimeout(() => {
+      if (loop) {
+        play(round + 1);
+      } else {
+        console.log('[mock] replay finished');
+        shutdown();
+      }
+    }, (last - first) / speed + 1000)
+  );
+};
+
+const shutdown = () => {
+  timers.forEach(clearTimeout);
+  clients.forEach((client) => client.close());
+  server.close();
+};
+
+server.listen(port, () => {
+  console.log(`[mock] ${path.relative(root, capturePath)} at ${speed}x${loop ? ', looping' : ''}`);
+  console.log(`[mock] socket.io  http://localhost:${port}`);
+  console.log(`[mock] websocket  ws://localhost:${port}/ws`);
+  console.log(`[mock] sse        http://localhost:${port}/events`);
+  console.log(`[mock] replay     http://localhost:${port}/capture.json`);
+  play(1);
+});
+
+process.on('SIGINT', () => {
+  console.log('[mock] stopping');
+  shutdown();
+  process.exit(0);
+});
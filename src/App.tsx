@@ -1,33 +1,59 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 
 import { Header } from "@/components/Header";
 import { FiltersBar } from "@/components/FiltersBar";
 import { TrainList } from "@/components/TrainList";
 import { TrainDetails } from "@/components/TrainDetails";
 import { MapView } from "@/components/MapView";
+import { NetworkMap } from "@/components/NetworkMap";
 import { StationUpdates } from "@/components/StationUpdates";
 import { StationSchedule } from "@/components/StationSchedule";
+import { DiagnosticsPanel } from "@/components/DiagnosticsPanel";
+import { OfflineMapsPanel } from "@/components/OfflineMapsPanel";
+import { StoragePanel } from "@/components/StoragePanel";
+import { JourneyPlanner } from "@/components/JourneyPlanner";
+import { UnresolvedDeltasPanel } from "@/components/UnresolvedDeltasPanel";
 import {
   useDashboardData,
   useLiveSocket,
   useDatasetBootstrap,
   useStationLookup,
   useRelatedTrains,
+  useWatchlistBootstrap,
+  useFavouritesBootstrap,
+  useTrainMappingsBootstrap,
 } from "@/hooks/useTrainData";
-import type { ConnectionStatus } from "@/types";
+import { useJourneyReplay } from "@/hooks/useJourneyReplay";
+import { useAppRoute } from "@/hooks/useAppRoute";
+import { useOfflineStatus } from "@/hooks/useOfflineStatus";
+import type { ConnectionStatus, TrainFilters } from "@/types";
 import { Analytics } from "@vercel/analytics/react";
 import { getTrainUniqueKey } from "@/lib/train";
+import { buildSearchPath } from "@/lib/routes";
+import type { AppTab } from "@/lib/routes";
 
 const App = () => {
   useDatasetBootstrap();
   useLiveSocket();
-  const [activeTab, setActiveTab] = useState<
-    "search" | "details" | "stationUpdates" | "stationSchedule"
-  >("search");
+  useWatchlistBootstrap();
+  useFavouritesBootstrap();
+  useTrainMappingsBootstrap();
+  const {
+    route,
+    goToSearch,
+    goToNetwork,
+    goToDiagnostics,
+    goToSettings,
+    goToPlan,
+    goToTrain,
+    goToStation,
+  } = useAppRoute();
+  const activeTab = route.tab;
   const [showRelatedTrains, setShowRelatedTrains] = useState(true);
 
   const {
     allTrains,
+    trainIndex,
     trains,
     filters,
     setFilters,
@@ -38,10 +64,19 @@ const App = () => {
     connectionStatus,
     lastSocketEvent,
     lastError,
+    liveRole,
     unresolvedCount,
+    isDatasetHydrated,
+    datasetSync,
+    refreshDataset,
   } = useDashboardData();
   const stationLookup = useStationLookup();
+  const offlineStatus = useOfflineStatus(connectionStatus, lastSocketEvent, allTrains);
   const relatedTrains = useRelatedTrains(selectedTrain);
+  const replay = useJourneyReplay(selectedTrain);
+  // While replaying, the map and details show the recorded frame instead of the live position
+  const displayedTrain = replay.replayedTrain ?? selectedTrain;
+  const referenceTime = replay.isActive ? replay.cursor : undefined;
 
   const statusLabel: Record<ConnectionStatus, string> = {
     connected: "Connected",
@@ -51,16 +86,82 @@ const App = () => {
     error: "Error",
   };
 
-  const handleTrainSelect = (trainId: string) => {
-    selectTrain(trainId);
-    setActiveTab("details");
+  // Stable so memoised train rows and markers skip re-rendering
+  const handleTrainSelect = useCallback(
+    (trainId: string) => {
+      selectTrain(trainId);
+      goToTrain(trainId);
+    },
+    [selectTrain, goToTrain]
+  );
+
+  const handleRunSelect = (trainId: string, runId: string) => {
+    selectTrainRun(trainId, runId);
+    goToTrain(trainId, runId, { replace: true });
+  };
+
+  const handleFiltersChange = (partial: Partial<TrainFilters>) => {
+    setFilters(partial);
+    goToSearch({ ...filters, ...partial }, { replace: true });
   };
 
+  const handleTabChange = (tab: AppTab) => {
+    if (tab === "search") {
+      goToSearch(filters);
+    } else if (tab === "network") {
+      goToNetwork();
+    } else if (tab === "diagnostics") {
+      goToDiagnostics();
+    } else if (tab === "settings") {
+      goToSettings();
+    } else if (tab === "plan") {
+      goToPlan();
+    } else if (tab === "details") {
+      if (selectedTrain) goToTrain(getTrainUniqueKey(selectedTrain));
+    } else {
+      goToStation(tab === "stationUpdates" ? "updates" : "schedule", route.stationId);
+    }
+  };
+
+  // Unknown paths (including "/") land on the search view
+  useEffect(() => {
+    if (!route.isKnown) goToSearch(filters, { replace: true });
+  }, [route.isKnown, goToSearch, filters]);
+
+  // Restore the filters encoded in /search?q=&live=1&dir=up
   useEffect(() => {
-    if (!selectedTrain && activeTab === "details") {
-      setActiveTab("search");
+    if (route.filters && buildSearchPath(route.filters) !== buildSearchPath(filters)) {
+      setFilters(route.filters);
     }
-  }, [activeTab, selectedTrain]);
+  }, [route.filters, filters, setFilters]);
+
+  // Restore the train selected by /train/:trainId/:date
+  useEffect(() => {
+    if (route.trainKey) selectTrain(route.trainKey);
+  }, [route.trainKey, selectTrain]);
+
+  // Links to a date that is no longer in the dataset fall back to another date of the same train.
+  // Only the index is read, so live patches do not run this again
+  useEffect(() => {
+    if (!route.trainKey || !isDatasetHydrated) return;
+    if (trainIndex.positionByKey.has(route.trainKey)) return;
+    const trainId = Number(route.trainKey.split("-")[0]);
+    const [fallbackKey] = trainIndex.keysById.get(trainId) ?? [];
+    if (fallbackKey) {
+      goToTrain(fallbackKey, undefined, { replace: true });
+    } else {
+      goToSearch(filters, { replace: true });
+    }
+  }, [route.trainKey, isDatasetHydrated, trainIndex, goToTrain, goToSearch, filters]);
+
+  // Restore the live run pinned with ?run= once it has been seen on the socket
+  useEffect(() => {
+    if (!route.trainKey || !route.runId || !selectedTrain) return;
+    if (getTrainUniqueKey(selectedTrain) !== route.trainKey) return;
+    if (selectedTrain.selectedRunId === route.runId) return;
+    if (!selectedTrain.liveRuns?.some((run) => run.id === route.runId)) return;
+    selectTrainRun(route.trainKey, route.runId);
+  }, [route.trainKey, route.runId, selectedTrain, selectTrainRun]);
 
   return (
     // <div className="flex min-h-screen flex-col bg-[color:var(--paper)]">
@@ -71,8 +172,11 @@ const App = () => {
         connectionStatus={connectionStatus}
         lastSocketEvent={lastSocketEvent}
         lastError={lastError}
+        datasetSync={datasetSync}
+        onRefreshDataset={refreshDataset}
+        offlineStatus={offlineStatus}
         activeTab={activeTab}
-        onTabChange={setActiveTab}
+        onTabChange={handleTabChange}
         hasSelectedTrain={!!selectedTrain}
       />
       <main className="mx-auto flex w-full max-w-[1440px] flex-1 flex-col gap-6 px-3 py-6 pb-36 sm:px-6 lg:px-8">
@@ -80,7 +184,7 @@ const App = () => {
           <section className="flex flex-1 flex-col gap-6">
             <div className="flex flex-col gap-6 lg:grid lg:grid-cols-[minmax(0,320px),1fr] lg:items-start">
               <div className="flex flex-col gap-4 lg:sticky lg:top-4 lg:self-start">
-                <FiltersBar filters={filters} onChange={setFilters} />
+                <FiltersBar filters={filters} onChange={handleFiltersChange} />
 
                 <aside className="hidden rounded-3xl border border-[color:var(--stroke)] bg-[#fff5e6]/80 p-6 shadow-[0_24px_45px_-35px_rgba(95,75,60,0.55)] backdrop-blur sm:block">
                   <p className="text-xs font-semibold uppercase tracking-[0.22em] text-[color:var(--ink-muted)]">
@@ -165,7 +269,14 @@ const App = () => {
                         <span>Needs attention</span>
                       </dt>
                       <dd className="text-base font-semibold text-[#b15b62]">
-                        {unresolvedCount}
+                        <button
+                          type="button"
+                          onClick={() => goToDiagnostics()}
+                          title="Review unmatched live feeds"
+                          className="hover:underline"
+                        >
+                          {unresolvedCount}
+                        </button>
                       </dd>
                     </div>
                     <div className="flex items-center justify-between gap-3">
@@ -196,6 +307,20 @@ const App = () => {
                       </dd>
                     </div>
                   </dl>
+                  <button
+                    type="button"
+                    onClick={() => goToDiagnostics()}
+                    className="mt-5 text-xs font-semibold text-[#2c7f68] hover:underline"
+                  >
+                    Feed diagnostics →
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => goToSettings()}
+                    className="mt-2 block text-xs font-semibold text-[#2c7f68] hover:underline"
+                  >
+                    Offline maps & storage →
+                  </button>
                 </aside>
               </div>
 
@@ -206,26 +331,74 @@ const App = () => {
               />
             </div>
           </section>
+        ) : activeTab === "network" ? (
+          <NetworkMap
+            trains={allTrains}
+            stationLookup={stationLookup}
+            selectedTrainId={selectedTrain ? getTrainUniqueKey(selectedTrain) : undefined}
+            onSelectTrain={selectTrain}
+            onOpenTrain={handleTrainSelect}
+            onOpenStationBoard={(stationId) => goToStation("updates", stationId)}
+          />
         ) : activeTab === "details" ? (
           <section className="flex flex-1 flex-col gap-6 lg:grid lg:grid-cols-[minmax(480px,1.2fr),minmax(360px,1fr)]">
             <MapView
-              trains={trains}
-              selectedTrain={selectedTrain}
+              trains={allTrains}
+              selectedTrain={displayedTrain}
               stationLookup={stationLookup}
               relatedTrains={showRelatedTrains ? relatedTrains : []}
+              replay={replay}
+              referenceTime={referenceTime}
+              onOpenStationBoard={(stationId) => goToStation("updates", stationId)}
             />
             <TrainDetails
-              train={selectedTrain}
+              train={displayedTrain}
               stationLookup={stationLookup}
-              onSelectRun={selectTrainRun}
+              onSelectRun={handleRunSelect}
               showRelatedTrains={showRelatedTrains}
               onToggleRelatedTrains={() => setShowRelatedTrains(!showRelatedTrains)}
+              referenceTime={referenceTime}
             />
           </section>
         ) : activeTab === "stationUpdates" ? (
-          <StationUpdates trains={allTrains} stationLookup={stationLookup} />
+          <StationUpdates
+            trains={allTrains}
+            stationLookup={stationLookup}
+            selectedStationId={route.stationId ?? null}
+            onSelectStation={(stationId) => goToStation("updates", stationId)}
+          />
         ) : activeTab === "stationSchedule" ? (
-          <StationSchedule trains={allTrains} stationLookup={stationLookup} />
+          <StationSchedule
+            trains={allTrains}
+            stationLookup={stationLookup}
+            selectedStationId={route.stationId ?? null}
+            onSelectStation={(stationId) => goToStation("schedule", stationId)}
+          />
+        ) : activeTab === "diagnostics" ? (
+          <div className="flex flex-col gap-6">
+            <DiagnosticsPanel
+              connectionStatus={connectionStatus}
+              lastSocketEvent={lastSocketEvent}
+              lastError={lastError}
+              liveRole={liveRole}
+              liveCount={liveCount}
+              unresolvedCount={unresolvedCount}
+            />
+            <UnresolvedDeltasPanel trains={allTrains} stationLookup={stationLookup} />
+          </div>
+        ) : activeTab === "settings" ? (
+          <div className="flex flex-col gap-6">
+            <OfflineMapsPanel trains={allTrains} />
+            <StoragePanel onDatasetCleared={refreshDataset} />
+          </div>
+        ) : activeTab === "plan" ? (
+          <JourneyPlanner
+            trains={allTrains}
+            stationLookup={stationLookup}
+            query={route.plan ?? {}}
+            onQueryChange={(query) => goToPlan(query, { replace: true })}
+            onOpenTrain={handleTrainSelect}
+          />
         ) : null}
       </main>
       <Analytics />
@@ -0,0 +1,100 @@
+// AnimatedMarker.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { Marker } from "react-leaflet";
+import type { DivIcon, Marker as LeafletMarker } from "leaflet";
+import {
+  getMotionPosition,
+  isMotionSettled,
+  startMotion,
+  type MotionPoint,
+} from "@/lib/map/motion";
+import type { TrackProfile } from "@/lib/map/track";
+
+export interface AnimatedMarkerProps {
+  position: [number, number];
+  /** Distance of `position` along `profile`, to animate along the track */
+  alongKm?: number;
+  profile?: TrackProfile | null;
+  speed: number | null;
+  /** Time the position was reported */
+  lastUpdated: number;
+  /** Keep moving at the reported speed until the next update arrives */
+  deadReckoning?: boolean;
+  icon: DivIcon;
+  zIndexOffset?: number;
+  children?: React.ReactNode;
+}
+
+const prefersReducedMotion = () =>
+  typeof window !== "undefined" &&
+  typeof window.matchMedia === "function" &&
+  window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+
+/**
+ * Train marker that glides between live updates instead of jumping, moving
+ * the Leaflet layer directly so React only renders when a new fix arrives.
+ */
+export const AnimatedMarker: React.FC<AnimatedMarkerProps> = ({
+  position,
+  alongKm,
+  profile,
+  speed,
+  lastUpdated,
+  deadReckoning = true,
+  icon,
+  zIndexOffset,
+  children,
+}) => {
+  const markerRef = useRef<LeafletMarker | null>(null);
+  const drawnRef = useRef<MotionPoint | null>(null);
+  const profileRef = useRef(profile);
+  // Leaflet only moves the marker when this prop changes, so it stays fixed after mount
+  const [initialPosition] = useState(position);
+
+  const [lat, lon] = position;
+
+  useEffect(() => {
+    const marker = markerRef.current;
+    if (!marker) return;
+
+    const fix = { point: [lat, lon] as [number, number], alongKm, speedKmh: speed, fixedAt: lastUpdated };
+    const drawn = drawnRef.current;
+    // Along-track distances from another profile do not compare
+    const current =
+      drawn && (profileRef.current === profile ? drawn : { point: drawn.point });
+    profileRef.current = profile;
+
+    if (prefersReducedMotion()) {
+      drawnRef.current = fix;
+      marker.setLatLng(fix.point);
+      return;
+    }
+
+    const motion = startMotion(current, fix, Date.now());
+
+    let frame = 0;
+    const step = () => {
+      const now = Date.now();
+      const next = getMotionPosition(motion, profile, now, { deadReckoning });
+      drawnRef.current = next;
+      marker.setLatLng(next.point);
+      if (!isMotionSettled(motion, now, { deadReckoning })) {
+        frame = window.requestAnimationFrame(step);
+      }
+    };
+    step();
+
+    return () => window.cancelAnimationFrame(frame);
+  }, [lat, lon, alongKm, speed, lastUpdated, profile, deadReckoning]);
+
+  return (
+    <Marker
+      ref={markerRef}
+      position={initialPosition}
+      icon={icon}
+      zIndexOffset={zIndexOffset}
+    >
+      {children}
+    </Marker>
+  );
+};
@@ -0,0 +1,157 @@
+import { useMemo } from "react";
+import type { ConnectionStatus } from "@/types";
+import { useValidationReport } from "@/hooks/useDiagnostics";
+import {
+  API_REJECT_REASONS,
+  FATAL_REJECT_REASONS,
+  REJECT_REASON_LABELS,
+  resetValidationReport,
+} from "@/services/validation";
+import type { RejectReason } from "@/services/validation";
+import type { TabRole } from "@/services/tabCoordinator";
+import { formatRelativeTime } from "@/utils/time";
+
+interface DiagnosticsPanelProps {
+  connectionStatus: ConnectionStatus;
+  lastSocketEvent?: number;
+  lastError?: string;
+  liveRole: TabRole;
+  liveCount: number;
+  unresolvedCount: number;
+}
+
+const REASONS = Object.keys(REJECT_REASON_LABELS) as RejectReason[];
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+// Data quality of the live feed and REST responses since the page loaded
+export const DiagnosticsPanel = ({
+  connectionStatus,
+  lastSocketEvent,
+  lastError,
+  liveRole,
+  liveCount,
+  unresolvedCount,
+}: DiagnosticsPanelProps) => {
+  const report = useValidationReport();
+
+  const totalRejected = useMemo(
+    () => REASONS.reduce((sum, reason) => sum + (report.counts[reason] ?? 0), 0),
+    [report.counts]
+  );
+  // Socket records only; REST records have their own count
+  const droppedRecords = useMemo(
+    () =>
+      REASONS.filter((reason) => FATAL_REJECT_REASONS.has(reason) && !API_REJECT_REASONS.has(reason)).reduce(
+        (sum, reason) => sum + (report.counts[reason] ?? 0),
+        0
+      ),
+    [report.counts]
+  );
+  const dropRate =
+    report.accepted + droppedRecords > 0
+      ? (droppedRecords / (report.accepted + droppedRecords)) * 100
+      : 0;
+
+  const summary = [
+    { label: "Connection", value: connectionStatus },
+    { label: "This tab", value: liveRole === "leader" ? "Holds the feed" : "Mirrors another tab" },
+    { label: "Last update", value: formatRelativeTime(lastSocketEvent) },
+    { label: "Live trains", value: String(liveCount) },
+    { label: "Unmatched feeds", value: String(unresolvedCount) },
+    { label: "Accepted socket records", value: report.accepted.toLocaleString() },
+    { label: "Dropped socket records", value: `${droppedRecords.toLocaleString()} (${dropRate.toFixed(1)}%)` },
+    { label: "Accepted API records", value: report.apiAccepted.toLocaleString() },
+  ];
+
+  return (
+    <section className="flex flex-col gap-6">
+      <div className="rounded-3xl border border-[color:var(--stroke)] bg-gradient-to-br from-[#fff9f1] via-[#fff4e4] to-[#fffdf8] p-5 shadow-[0_24px_45px_-36px_rgba(95,75,60,0.5)] lg:p-6">
+        <div className="mb-4 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-[color:var(--ink-strong)] lg:text-xl">
+              Diagnostics
+            </h2>
+            <p className="mt-1 text-xs text-[color:var(--ink-muted)]">
+              Counting since {formatClock(report.since)}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={resetValidationReport}
+            className="rounded-full border border-[color:var(--stroke)] bg-white px-3 py-1.5 text-xs font-semibold text-[color:var(--ink-muted)] hover:bg-[#ffeeda]"
+          >
+            Reset counters
+          </button>
+        </div>
+        <dl className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {summary.map(({ label, value }) => (
+            <div key={label} className="rounded-2xl bg-white/80 px-4 py-3 shadow-sm">
+              <dt className="text-[10px] font-semibold uppercase tracking-[0.18em] text-[color:var(--ink-muted)]">
+                {label}
+              </dt>
+              <dd className="mt-1 text-base font-semibold capitalize text-[color:var(--ink-strong)]">
+                {value}
+              </dd>
+            </div>
+          ))}
+        </dl>
+        {lastError && (
+          <p className="mt-4 rounded-2xl bg-[#f8e6ea] px-4 py-2 text-xs text-[#b04d5f]">
+            Last error: {lastError}
+          </p>
+        )}
+      </div>
+
+      <div className="rounded-3xl border border-[color:var(--stroke)] bg-white/80 p-5 shadow-[0_24px_45px_-36px_rgba(95,75,60,0.5)] lg:p-6">
+        <h3 className="mb-3 text-sm font-bold uppercase tracking-[0.18em] text-[color:var(--ink-muted)]">
+          Rejects by reason ({totalRejected.toLocaleString()})
+        </h3>
+        <table className="w-full text-left text-sm">
+          <thead className="text-[10px] uppercase tracking-wide text-[color:var(--ink-muted)]">
+            <tr>
+              <th className="py-1 font-semibold">Reason</th>
+              <th className="py-1 font-semibold">Effect</th>
+              <th className="py-1 text-right font-semibold">Count</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[#f2e7d8]">
+            {REASONS.map((reason) => {
+              const count = report.counts[reason] ?? 0;
+              return (
+                <tr key={reason} className={count > 0 ? "text-[color:var(--ink-strong)]" : "text-neutral-400"}>
+                  <td className="py-1.5">{REJECT_REASON_LABELS[reason]}</td>
+                  <td className="py-1.5 text-xs">
+                    {FATAL_REJECT_REASONS.has(reason) ? "Record dropped" : "Field ignored"}
+                  </td>
+                  <td className="py-1.5 text-right font-semibold">{count.toLocaleString()}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="rounded-3xl border border-[color:var(--stroke)] bg-white/80 p-5 shadow-[0_24px_45px_-36px_rgba(95,75,60,0.5)] lg:p-6">
+        <h3 className="mb-3 text-sm font-bold uppercase tracking-[0.18em] text-[color:var(--ink-muted)]">
+          Recent rejects
+        </h3>
+        {report.recent.length > 0 ? (
+          <ul className="space-y-1.5 font-mono text-xs text-neutral-700">
+            {report.recent.map((entry, index) => (
+              <li key={`${entry.at}-${index}`} className="flex flex-wrap gap-x-3">
+                <span className="text-neutral-500">{formatClock(entry.at)}</span>
+                <span className="font-semibold">{entry.source}</span>
+                <span>{REJECT_REASON_LABELS[entry.reason]}</span>
+                {entry.detail && <span className="text-neutral-500">{entry.detail}</span>}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-[color:var(--ink-muted)]">No rejected records.</p>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,45 @@
+interface FavouriteButtonProps {
+  isFavourite: boolean;
+  onToggle: () => void;
+  name: string;
+  className?: string;
+}
+
+/**
+ * Star toggle that pins a train or station to the user's favourites.
+ */
+export const FavouriteButton = ({
+  isFavourite,
+  onToggle,
+  name,
+  className = "",
+}: FavouriteButtonProps) => (
+  <button
+    type="button"
+    onClick={(event) => {
+      event.stopPropagation();
+      onToggle();
+    }}
+    aria-pressed={isFavourite}
+    title={isFavourite ? `Remove ${name} from favourites` : `Add ${name} to favourites`}
+    className={`inline-flex h-7 w-7 shrink-0 items-center justify-center rounded-full border transition-colors ${
+      isFavourite
+        ? "border-amber-400 bg-amber-100 text-amber-600"
+        : "border-[#e4d7c5] bg-white/70 text-[color:var(--ink-muted)] hover:border-amber-300 hover:text-amber-600"
+    } ${className}`}
+  >
+    <svg
+      className="h-4 w-4"
+      fill={isFavourite ? "currentColor" : "none"}
+      viewBox="0 0 24 24"
+      stroke="currentColor"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M11.48 3.5a.56.56 0 011.04 0l2.13 5.11a.56.56 0 00.47.35l5.52.44c.5.04.7.66.32.99l-4.2 3.6a.56.56 0 00-.18.56l1.28 5.38a.56.56 0 01-.84.61l-4.72-2.88a.56.56 0 00-.59 0l-4.72 2.88a.56.56 0 01-.84-.61l1.28-5.38a.56.56 0 00-.18-.56l-4.2-3.6a.56.56 0 01.32-.99l5.52-.44a.56.56 0 00.47-.35L11.48 3.5z"
+      />
+    </svg>
+  </button>
+);
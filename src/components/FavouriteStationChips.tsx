@@ -0,0 +1,51 @@
+import type { StationDetails } from "@/types";
+import { useFavourites } from "@/hooks/useTrainData";
+import { getFavouriteId } from "@/services/favourites";
+
+interface FavouriteStationChipsProps {
+  stationLookup: Map<number, StationDetails>;
+  selectedStationId: number | null;
+  onSelectStation: (stationId: number | null) => void;
+  className?: string;
+}
+
+/**
+ * Quick access to the user's favourite stations; renders nothing until one is pinned.
+ */
+export const FavouriteStationChips = ({
+  stationLookup,
+  selectedStationId,
+  onSelectStation,
+  className = "",
+}: FavouriteStationChipsProps) => {
+  const { favourites, favouriteStationIds } = useFavourites();
+  if (favouriteStationIds.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 text-xs ${className}`} aria-label="Favourite stations">
+      <span className="font-semibold uppercase tracking-[0.18em] text-amber-700">My stations</span>
+      {favouriteStationIds.map((stationId) => {
+        const name =
+          stationLookup.get(stationId)?.StationName ??
+          favourites.get(getFavouriteId("station", stationId))?.name ??
+          `Station ${stationId}`;
+        const isActive = stationId === selectedStationId;
+        return (
+          <button
+            key={stationId}
+            type="button"
+            onClick={() => onSelectStation(stationId)}
+            aria-current={isActive || undefined}
+            className={`rounded-full border px-3 py-1 font-semibold transition-colors ${
+              isActive
+                ? "border-amber-400 bg-amber-100 text-amber-700"
+                : "border-[#e4d7c5] bg-white/80 text-[color:var(--ink-strong)] hover:border-amber-300 hover:bg-amber-50"
+            }`}
+          >
+            {name}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
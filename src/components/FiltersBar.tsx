@@ -19,6 +19,10 @@ export const FiltersBar = ({ filters, onChange }: FiltersBarProps) => {
     onChange({ onlyPassenger: event.target.checked });
   };
 
+  const handleOnlyFavourites = (event: ChangeEvent<HTMLInputElement>) => {
+    onChange({ onlyFavourites: event.target.checked });
+  };
+
   const handleDirection = (value: TrainFilters['direction']) => {
     onChange({ direction: value });
   };
@@ -54,6 +58,11 @@ export const FiltersBar = ({ filters, onChange }: FiltersBarProps) => {
                 checked: filters.onlyPassenger,
                 onChange: handleOnlyPassenger,
               },
+              {
+                label: 'Favourites',
+                checked: filters.onlyFavourites,
+                onChange: handleOnlyFavourites,
+              },
             ] as const
           ).map(({ label, checked, onChange }) => (
             <label
@@ -1,8 +1,10 @@
 import { formatRelativeTime } from '@/utils/time';
+import type { AppTab } from '@/lib/routes';
+import type { DatasetSyncStatus } from '@/types';
+import type { OfflineStatus } from '@/hooks/useOfflineStatus';
 
 type ConnectionStatus = "connected" | "connecting" | "reconnecting" | "disconnected" | "error";
 
-type AppTab = "search" | "details" | "stationUpdates" | "stationSchedule";
 
 interface HeaderProps {
   liveCount: number;
@@ -10,6 +12,9 @@ interface HeaderProps {
   connectionStatus: ConnectionStatus;
   lastSocketEvent?: number;
   lastError?: string;
+  datasetSync: DatasetSyncStatus;
+  onRefreshDataset: () => void;
+  offlineStatus: OfflineStatus;
   activeTab: AppTab;
   onTabChange: (tab: AppTab) => void;
   hasSelectedTrain: boolean;
@@ -38,12 +43,57 @@ const statusMeta: Record<ConnectionStatus, { label: string; dot: string }> = {
   },
 };
 
+// Age of the stored timetables, with a button to check for new ones
+const DatasetAge = ({
+  datasetSync,
+  onRefreshDataset,
+  compact = false,
+}: {
+  datasetSync: DatasetSyncStatus;
+  onRefreshDataset: () => void;
+  compact?: boolean;
+}) => {
+  const isSyncing = datasetSync.state === "syncing";
+  const label = isSyncing ? "Checking…" : formatRelativeTime(datasetSync.syncedAt);
+  return (
+    <span
+      className="flex items-center gap-1.5"
+      title={datasetSync.state === "error" ? `Refresh failed: ${datasetSync.lastError}` : undefined}
+    >
+      <span>Schedules</span>
+      <span
+        className={`font-semibold ${
+          datasetSync.state === "error" ? "text-[#b15b62]" : "text-[color:var(--ink-strong)]"
+        }`}
+      >
+        {label}
+      </span>
+      <button
+        type="button"
+        onClick={onRefreshDataset}
+        disabled={isSyncing}
+        aria-label="Refresh schedules"
+        className={`rounded-full border border-[#e5dccd] bg-white font-semibold text-[#2c7f68] transition-colors hover:bg-[#eef7f2] disabled:cursor-wait disabled:opacity-60 ${
+          compact ? "px-1.5 py-0.5 text-[10px]" : "px-2 py-0.5 text-xs"
+        }`}
+      >
+        <span className={isSyncing ? "inline-block animate-spin" : undefined} aria-hidden="true">
+          ↻
+        </span>
+      </button>
+    </span>
+  );
+};
+
 export const Header = ({
   liveCount,
   totalCount,
   connectionStatus,
   lastSocketEvent,
   lastError,
+  datasetSync,
+  onRefreshDataset,
+  offlineStatus,
   activeTab,
   onTabChange,
   hasSelectedTrain,
@@ -57,6 +107,8 @@ export const Header = ({
     disabled?: boolean;
   }> = [
     { key: "search", label: "Search" },
+    { key: "network", label: "Network" },
+    { key: "plan", label: "Plan" },
     { key: "details", label: "Details", disabled: !hasSelectedTrain },
     { key: "stationUpdates", label: "Station Updates" },
     { key: "stationSchedule", label: "Station Schedule" },
@@ -64,7 +116,28 @@ export const Header = ({
 
   return (
     <div className="fixed inset-x-2 bottom-2 z-30 sm:inset-x-8 sm:bottom-6 lg:inset-x-32 lg:bottom-8">
-      <header className="mx-auto w-full max-w-[1440px] rounded-[20px] sm:rounded-[28px] border border-[color:var(--stroke)] bg-[#fff7ed]/90 backdrop-blur-xl shadow-[0_28px_60px_-36px_rgba(94,74,56,0.6)] transition-all">
+      <header className="mx-auto w-full max-w-[1440px] overflow-hidden rounded-[20px] sm:rounded-[28px] border border-[color:var(--stroke)] bg-[#fff7ed]/90 backdrop-blur-xl shadow-[0_28px_60px_-36px_rgba(94,74,56,0.6)] transition-all">
+        {offlineStatus.isOffline && (
+          <div
+            role="status"
+            className="flex flex-wrap items-center justify-between gap-x-3 gap-y-0.5 border-b border-[#f0d9b5] bg-[#fdf0dc] px-3 py-1.5 text-[11px] font-medium text-[#8a5a1f] sm:px-6 sm:text-xs lg:px-8"
+          >
+            <span className="flex items-center gap-1.5">
+              <span className="h-1.5 w-1.5 rounded-full bg-[#c27a2f]" aria-hidden="true" />
+              {offlineStatus.isNetworkDown ? "You're offline" : "Live feed unreachable"} — showing timetables only
+            </span>
+            <span>
+              {offlineStatus.lastLiveDataAt ? (
+                <>
+                  Last live data{" "}
+                  <span className="font-semibold">{formatRelativeTime(offlineStatus.lastLiveDataAt)}</span>
+                </>
+              ) : (
+                "No live data yet"
+              )}
+            </span>
+          </div>
+        )}
         <div className="flex w-full flex-col gap-2 px-2.5 py-2 sm:flex-row sm:items-center sm:justify-between sm:gap-4 sm:px-6 sm:py-4 lg:px-8">
           <div className="flex flex-col gap-1.5 sm:flex-row sm:items-center sm:gap-4">
             <div className="flex items-center justify-between gap-2 sm:justify-start">
@@ -97,6 +170,8 @@ export const Header = ({
             <div className="flex items-center gap-1 text-[10px] text-[color:var(--ink-muted)] sm:hidden">
               <span>Updated</span>
               <span className="font-semibold text-[color:var(--ink-strong)]">{lastUpdateLabel}</span>
+              <span aria-hidden="true">·</span>
+              <DatasetAge datasetSync={datasetSync} onRefreshDataset={onRefreshDataset} compact />
               {lastError && (
                 <span className="flex items-center gap-0.5 text-[#b15b62]" title={lastError}>
                   <span className="emoji-badge w-5 h-5 text-xs" data-tone="rose" aria-hidden="true">
@@ -114,6 +189,10 @@ export const Header = ({
                 <span>Last update</span>
                 <span className="font-semibold text-[color:var(--ink-strong)]">{lastUpdateLabel}</span>
               </span>
+              <span className="flex items-center gap-2">
+                <span className="inline-block h-1.5 w-1.5 rounded-full bg-[#bfa687]" aria-hidden="true" />
+                <DatasetAge datasetSync={datasetSync} onRefreshDataset={onRefreshDataset} />
+              </span>
               {lastError && (
                 <span className="flex items-center gap-2 text-[#b15b62]">
                   <span className="emoji-badge w-7 h-7 text-sm" data-tone="rose" aria-hidden="true">
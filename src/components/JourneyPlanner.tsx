@@ -0,0 +1,275 @@
+import { useMemo } from "react";
+import type { StationDetails, TrainWithRoute } from "@/types";
+import type { JourneyQuery } from "@/lib/routes";
+import {
+  MIN_TRANSFER_MINUTES,
+  getLocalMidnight,
+  getTrainUniqueKey,
+  isPassengerTrain,
+  parseLocalDateKey,
+  planJourneys,
+  toLocalDateKey,
+} from "@/lib/train";
+import type { Journey, JourneyLeg } from "@/lib/train";
+import { formatClockTime, formatDuration, formatLateBy } from "@/utils/time";
+import { StatusChip } from "./StatusChip";
+
+interface JourneyPlannerProps {
+  trains: TrainWithRoute[];
+  stationLookup: Map<number, StationDetails>;
+  query: JourneyQuery;
+  onQueryChange: (query: JourneyQuery) => void;
+  onOpenTrain: (trainKey: string) => void;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const selectClassName =
+  "w-full rounded-2xl border border-[color:var(--stroke)] bg-[#fffaf3] px-4 py-3 text-sm text-[color:var(--ink-strong)] shadow-[inset_0_1px_0_rgba(255,255,255,0.8)] transition-all focus:border-[#2c7f68] focus:outline-none focus:ring-4 focus:ring-[#cde5db]";
+
+// Clock time with a "+1" when it falls on a later day than the planned date
+const ClockTime = ({ timestamp, dayStart }: { timestamp: number; dayStart: number }) => {
+  const days = Math.round((getLocalMidnight(timestamp) - dayStart) / MS_PER_DAY);
+  return (
+    <span className="font-semibold text-[color:var(--ink-strong)]">
+      {formatClockTime(timestamp)}
+      {days > 0 && <sup className="ml-0.5 text-[10px] text-[#b26b1f]">+{days}</sup>}
+    </span>
+  );
+};
+
+const LegRow = ({
+  leg,
+  dayStart,
+  onOpenTrain,
+}: {
+  leg: JourneyLeg;
+  dayStart: number;
+  onOpenTrain: (trainKey: string) => void;
+}) => (
+  <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+    <div className="min-w-0">
+      <button
+        type="button"
+        onClick={() => onOpenTrain(getTrainUniqueKey(leg.train))}
+        className="text-left text-sm font-bold text-[color:var(--ink-strong)] hover:text-[#2c7f68] hover:underline"
+      >
+        {leg.train.TrainName} <span className="font-medium text-[color:var(--ink-muted)]">#{leg.train.TrainNumber}</span>
+      </button>
+      <p className="mt-1 text-xs text-[color:var(--ink-muted)]">
+        <ClockTime timestamp={leg.departure} dayStart={dayStart} /> {leg.from.StationName} →{" "}
+        <ClockTime timestamp={leg.arrival} dayStart={dayStart} /> {leg.to.StationName}
+      </p>
+    </div>
+    {leg.live && (
+      <div className="flex shrink-0 flex-wrap items-center gap-2 text-xs">
+        <StatusChip
+          variant={leg.live.hasDeparted ? "offline" : "live"}
+          label={leg.live.hasDeparted ? "Departed" : formatLateBy(leg.live.delayMinutes)}
+        />
+        <span className="text-[color:var(--ink-muted)]">
+          {leg.live.predictedDeparture !== null && <>leaves ~{formatClockTime(leg.live.predictedDeparture)} · </>}
+          arrives ~{formatClockTime(leg.live.predictedArrival)}
+        </span>
+      </div>
+    )}
+  </div>
+);
+
+const JourneyCard = ({
+  journey,
+  dayStart,
+  onOpenTrain,
+}: {
+  journey: Journey;
+  dayStart: number;
+  onOpenTrain: (trainKey: string) => void;
+}) => {
+  const [first, second] = journey.legs;
+  return (
+    <li className="rounded-2xl border border-[color:var(--stroke)] bg-white/80 p-4 shadow-sm">
+      <div className="mb-3 flex flex-wrap items-baseline justify-between gap-2">
+        <p className="text-base">
+          <ClockTime timestamp={journey.departure} dayStart={dayStart} />
+          <span className="mx-2 text-[color:var(--ink-muted)]">→</span>
+          <ClockTime timestamp={journey.arrival} dayStart={dayStart} />
+        </p>
+        <span className="text-xs font-semibold text-[color:var(--ink-muted)]">
+          {formatDuration(journey.durationMinutes)}
+          {journey.transfer ? " · 1 change" : " · direct"}
+        </span>
+      </div>
+      <LegRow leg={first} dayStart={dayStart} onOpenTrain={onOpenTrain} />
+      {journey.transfer && second && (
+        <>
+          <p
+            className={`my-3 rounded-xl px-3 py-2 text-xs ${
+              journey.transfer.isAtRisk ? "bg-[#f8e6ea] text-[#b04d5f]" : "bg-[#fff2df] text-[color:var(--ink-muted)]"
+            }`}
+          >
+            Change at <span className="font-semibold">{journey.transfer.stationName}</span> ·{" "}
+            {formatDuration(journey.transfer.minutes)} to change
+            {journey.transfer.isAtRisk && " · the first train is running too late to make this connection"}
+          </p>
+          <LegRow leg={second} dayStart={dayStart} onOpenTrain={onOpenTrain} />
+        </>
+      )}
+    </li>
+  );
+};
+
+// Direct trains and one-change connections between two stations on a date
+export const JourneyPlanner = ({
+  trains,
+  stationLookup,
+  query,
+  onQueryChange,
+  onOpenTrain,
+}: JourneyPlannerProps) => {
+  const passengerTrains = useMemo(() => trains.filter((train) => isPassengerTrain(train)), [trains]);
+
+  // Only stations some passenger train calls at
+  const stations = useMemo(() => {
+    const names = new Map<number, string>();
+    passengerTrains.forEach((train) =>
+      train.route.forEach((stop) => {
+        if (!names.has(stop.StationId)) {
+          names.set(stop.StationId, stationLookup.get(stop.StationId)?.StationName ?? stop.StationName);
+        }
+      })
+    );
+    return Array.from(names, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [passengerTrains, stationLookup]);
+
+  const date = query.date ?? toLocalDateKey(Date.now());
+  const dayStart = parseLocalDateKey(date) ?? getLocalMidnight(Date.now());
+  const { from, to } = query;
+
+  const plan = useMemo(
+    () => (from != null && to != null ? planJourneys(passengerTrains, from, to, { date }) : null),
+    [passengerTrains, from, to, date]
+  );
+
+  const update = (patch: JourneyQuery) => onQueryChange({ from, to, date: query.date, ...patch });
+  const parseOption = (value: string) => (value ? Number(value) : undefined);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <section className="rounded-3xl border border-[color:var(--stroke)] bg-gradient-to-br from-[#fff9f1] via-[#fff4e4] to-[#fffdf8] p-5 shadow-[0_24px_45px_-36px_rgba(95,75,60,0.5)] lg:p-6">
+        <h2 className="text-lg font-bold text-[color:var(--ink-strong)] lg:text-xl">Plan a journey</h2>
+        <p className="mt-1 text-xs text-[color:var(--ink-muted)]">
+          Trains between two stations from the timetable, including connections with one change of at least{" "}
+          {MIN_TRANSFER_MINUTES} min. Live delays are shown for trains already running.
+        </p>
+
+        <div className="mt-4 grid gap-3 md:grid-cols-[1fr,auto,1fr,auto] md:items-end">
+          <label className="flex flex-col gap-1 text-xs font-semibold text-[color:var(--ink-muted)]">
+            From
+            <select
+              value={from ?? ""}
+              onChange={(event) => update({ from: parseOption(event.target.value) })}
+              className={selectClassName}
+            >
+              <option value="">Choose a station</option>
+              {stations.map(({ id, name }) => (
+                <option key={id} value={id}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={() => update({ from: to, to: from })}
+            disabled={from == null && to == null}
+            title="Swap stations"
+            aria-label="Swap stations"
+            className="justify-self-center rounded-full border border-[color:var(--stroke)] bg-white p-2.5 text-[#2c7f68] hover:bg-[#eef7f2] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
+            </svg>
+          </button>
+          <label className="flex flex-col gap-1 text-xs font-semibold text-[color:var(--ink-muted)]">
+            To
+            <select
+              value={to ?? ""}
+              onChange={(event) => update({ to: parseOption(event.target.value) })}
+              className={selectClassName}
+            >
+              <option value="">Choose a station</option>
+              {stations.map(({ id, name }) => (
+                <option key={id} value={id}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-semibold text-[color:var(--ink-muted)]">
+            Date
+            <input
+              type="date"
+              value={date}
+              onChange={(event) => update({ date: event.target.value || undefined })}
+              className={selectClassName}
+            />
+          </label>
+        </div>
+      </section>
+
+      {plan === null ? (
+        <p className="rounded-2xl bg-[#fff2df] p-6 text-center text-sm text-[color:var(--ink-muted)] shadow-inner">
+          Choose where you are travelling from and to.
+        </p>
+      ) : from === to ? (
+        <p className="rounded-2xl bg-[#fff2df] p-6 text-center text-sm text-[color:var(--ink-muted)] shadow-inner">
+          Choose two different stations.
+        </p>
+      ) : (
+        <>
+          <section>
+            <h3 className="mb-3 text-sm font-bold uppercase tracking-[0.18em] text-[color:var(--ink-muted)]">
+              Direct trains ({plan.direct.length})
+            </h3>
+            {plan.direct.length > 0 ? (
+              <ul className="grid gap-3">
+                {plan.direct.map((journey) => (
+                  <JourneyCard
+                    key={getTrainUniqueKey(journey.legs[0].train)}
+                    journey={journey}
+                    dayStart={dayStart}
+                    onOpenTrain={onOpenTrain}
+                  />
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-[color:var(--ink-muted)]">No train runs directly between these stations on this date.</p>
+            )}
+          </section>
+
+          {(plan.connections.length > 0 || plan.direct.length === 0) && (
+            <section>
+              <h3 className="mb-3 text-sm font-bold uppercase tracking-[0.18em] text-[color:var(--ink-muted)]">
+                With one change ({plan.connections.length})
+              </h3>
+              {plan.connections.length > 0 ? (
+                <ul className="grid gap-3">
+                  {plan.connections.map((journey) => (
+                    <JourneyCard
+                      key={journey.legs.map((leg) => getTrainUniqueKey(leg.train)).join("+")}
+                      journey={journey}
+                      dayStart={dayStart}
+                      onOpenTrain={onOpenTrain}
+                    />
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-[color:var(--ink-muted)]">No connection with one change was found either.</p>
+              )}
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
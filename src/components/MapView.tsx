@@ -14,28 +14,38 @@ import type {
   Map as LeafletMap,
 } from "leaflet";
 import L from "leaflet";
-import type { TrainWithRoute } from "@/types";
-import { getTrainUniqueKey } from "@/lib/train";
+import type { StationDetails, TrainWithRoute } from "@/types";
+import { buildRouteProfile } from "@/lib/map/track";
+import {
+  describeStopPrediction,
+  getTrainUniqueKey,
+  predictTrainStops,
+} from "@/lib/train";
 import { TrackPolyline } from "./TrackPolyline";
-import { getCachedTrack, setCachedTrack } from "@/services/trackCache";
-import { fetchTrackData } from "@/services/trackApi";
+import { AnimatedMarker } from "./AnimatedMarker";
+import { StationLayer } from "./StationLayer";
+import { ReplayControls } from "./ReplayControls";
+import type { JourneyReplay } from "@/hooks/useJourneyReplay";
+import { useTrainPrediction } from "@/hooks/useTrainPrediction";
+import { useTrackProfile, useTrackProgress } from "@/hooks/useTrackProfile";
 import {
   formatLateBy,
   formatRelativeTime,
   formatSpeed,
   formatDistance,
   calculateDistance,
-  calculateExpectedArrival,
 } from "@/utils/time";
 
 interface MapViewProps {
+  /** Trains listed in the station layer popups */
   trains: TrainWithRoute[];
   selectedTrain?: TrainWithRoute;
-  stationLookup: Map<
-    number,
-    { StationName: string; Latitude: number; Longitude: number }
-  >;
+  stationLookup: Map<number, StationDetails>;
   relatedTrains?: TrainWithRoute[];
+  replay?: JourneyReplay;
+  /** Timestamp used instead of the wall clock (e.g. the replay cursor) */
+  referenceTime?: number;
+  onOpenStationBoard?: (stationId: number) => void;
 }
 
 const DEFAULT_CENTER: LatLngExpression = [30.3753, 69.3451];
@@ -81,10 +91,48 @@ export const MapView = ({
   selectedTrain,
   stationLookup,
   relatedTrains = [],
+  replay,
+  referenceTime,
+  onOpenStationBoard,
 }: MapViewProps) => {
+  const [showReplayPanel, setShowReplayPanel] = useState(false);
+  const [showStations, setShowStations] = useState(false);
+  const isReplaying = Boolean(replay?.isActive);
   const selectedLiveTrain = selectedTrain?.livePosition
     ? selectedTrain
     : undefined;
+  // --- Track Data ---
+  const { profile: trackProfile } = useTrackProfile(selectedTrain?.TrainId);
+  // Fall back to straight lines between stations when there is no track data
+  const routeProfile = useMemo(
+    () =>
+      trackProfile ??
+      (selectedTrain ? buildRouteProfile(selectedTrain.route) : null),
+    [trackProfile, selectedTrain?.route]
+  );
+  const matchedProgress = useTrackProgress(selectedTrain, routeProfile);
+  // Distances are only meaningful along the real track
+  const trackProgress = trackProfile ? matchedProgress : null;
+  const selectedPrediction = useTrainPrediction(
+    selectedTrain,
+    referenceTime,
+    trackProgress
+  );
+  const routePoints = useMemo(() => routeProfile?.points ?? [], [routeProfile]);
+
+  // The selected train is drawn on the rails rather than at the raw GPS fix
+  const selectedPosition = useMemo(
+    () =>
+      selectedLiveTrain
+        ? matchedProgress?.position.point ??
+          ([
+            selectedLiveTrain.livePosition!.lat,
+            selectedLiveTrain.livePosition!.lon,
+          ] as [number, number])
+        : undefined,
+    [selectedLiveTrain, matchedProgress]
+  );
+
   const relatedTrainsWithPosition = useMemo(
     () => relatedTrains.map((train) => {
       const position = train.livePosition
@@ -99,123 +147,13 @@ export const MapView = ({
     [relatedTrains]
   );
   const displayedItems = useMemo(
-    () => (selectedLiveTrain ? [{ train: selectedLiveTrain, position: [selectedLiveTrain.livePosition!.lat, selectedLiveTrain.livePosition!.lon] as [number, number], isLive: true }, ...relatedTrainsWithPosition] : relatedTrainsWithPosition),
-    [selectedLiveTrain, relatedTrainsWithPosition]
+    () => (selectedLiveTrain && selectedPosition ? [{ train: selectedLiveTrain, position: selectedPosition, isLive: true }, ...relatedTrainsWithPosition] : relatedTrainsWithPosition),
+    [selectedLiveTrain, selectedPosition, relatedTrainsWithPosition]
   );
   const displayedPoints = useMemo(
     () => displayedItems.map(({ position }) => position) as [number, number][],
     [displayedItems]
   );
-  const selectedPosition = selectedLiveTrain
-    ? ([
-        selectedLiveTrain.livePosition!.lat,
-        selectedLiveTrain.livePosition!.lon,
-      ] as LatLngExpression)
-    : undefined;
-
-  // --- Real Track Data State ---
-  const [trackPoints, setTrackPoints] = useState<[number, number][]>([]);
-  const [trackLoading, setTrackLoading] = useState(false);
-
-  useEffect(() => {
-    let cancelled = false;
-    if (!selectedTrain?.TrainId) {
-      setTrackPoints([]);
-      return;
-    }
-    setTrackLoading(true);
-
-    // Try IndexedDB first using utility
-    getCachedTrack(selectedTrain.TrainId)
-      .then((cached) => {
-        if (cancelled) return;
-        if (cached && Array.isArray(cached.stations)) {
-          const points: [number, number][] = [];
-          cached.stations.forEach((station: any) => {
-            if (Array.isArray(station.trackGeometryToNext)) {
-              station.trackGeometryToNext.forEach((pt: any) => {
-                if (
-                  Array.isArray(pt) &&
-                  pt.length === 2 &&
-                  typeof pt[0] === "number" &&
-                  typeof pt[1] === "number"
-                ) {
-                  points.push([pt[0], pt[1]]);
-                }
-              });
-            }
-          });
-          setTrackPoints(points);
-          setTrackLoading(false);
-          return;
-        }
-        // Not cached, fetch from API
-        fetchTrackData(selectedTrain.TrainId)
-          .then((data) => {
-            if (cancelled) return;
-            setCachedTrack(selectedTrain.TrainId, data);
-            const points: [number, number][] = [];
-            if (Array.isArray(data.stations)) {
-              data.stations.forEach((station: any) => {
-                if (Array.isArray(station.trackGeometryToNext)) {
-                  station.trackGeometryToNext.forEach((pt: any) => {
-                    if (
-                      Array.isArray(pt) &&
-                      pt.length === 2 &&
-                      typeof pt[0] === "number" &&
-                      typeof pt[1] === "number"
-                    ) {
-                      points.push([pt[0], pt[1]]);
-                    }
-                  });
-                }
-              });
-            }
-            setTrackPoints(points);
-          })
-          .catch(() => setTrackPoints([]))
-          .finally(() => setTrackLoading(false));
-      });
-    return () => { cancelled = true; };
-  }, [selectedTrain?.TrainId]);
-
-  // Fallback to old route if no track data
-  const routePoints = useMemo(
-    () =>
-      trackPoints.length > 1
-        ? trackPoints
-        : selectedTrain?.route.map(
-            (stop) => [stop.Latitude, stop.Longitude] as [number, number]
-          ) ?? [],
-    [trackPoints, selectedTrain]
-  );
-
-  // Split track into passed and remaining segments
-  const [passedTrackPoints, remainingTrackPoints] = useMemo(() => {
-    if (
-      !selectedTrain?.livePosition ||
-      !routePoints.length
-    ) {
-      return [[], []];
-    }
-    // Find closest point on track to live position
-    const { lat, lon } = selectedTrain.livePosition;
-    let minIdx = 0;
-    let minDist = Number.POSITIVE_INFINITY;
-    routePoints.forEach(([ptLat, ptLon], idx) => {
-      const d = Math.hypot(ptLat - lat, ptLon - lon);
-      if (d < minDist) {
-        minDist = d;
-        minIdx = idx;
-      }
-    });
-    // Passed: up to and including closest point
-    // Remaining: from closest point to end
-    return [
-      routePoints.slice(0, minIdx + 1),
-      routePoints.slice(minIdx)
-    ];
-  }, [selectedTrain?.livePosition, routePoints]);
 
   const routeStations = useMemo(() => {
     if (!selectedTrain?.route) return [];
@@ -233,32 +171,6 @@ export const MapView = ({
       .filter((s): s is NonNullable<typeof s> => s !== null);
   }, [selectedTrain, stationLookup]);
 
-  const { completedRoute, remainingRoute } = useMemo(() => {
-    if (!selectedTrain || !routePoints.length) {
-      return { completedRoute: [], remainingRoute: routePoints };
-    }
-
-    const upcomingStopIndex = selectedTrain.route.findIndex(
-      (stop) => stop.StationId === selectedTrain.upcomingStop?.StationId
-    );
-
-    if (selectedLiveTrain?.livePosition && upcomingStopIndex > 0) {
-      const liveLatLng: LatLngExpression = [
-        selectedLiveTrain.livePosition.lat,
-        selectedLiveTrain.livePosition.lon,
-      ];
-      const pastPoints = routePoints.slice(0, upcomingStopIndex);
-      const futurePoints = routePoints.slice(upcomingStopIndex);
-
-      return {
-        completedRoute: [...pastPoints, liveLatLng],
-        remainingRoute: [liveLatLng, ...futurePoints],
-      };
-    }
-
-    return { completedRoute: [], remainingRoute: routePoints };
-  }, [selectedTrain, routePoints, selectedLiveTrain]);
-
   const mapCenter =
     selectedPosition ?? displayedPoints[0] ?? routePoints[0] ?? DEFAULT_CENTER;
   const [mapInstance, setMapInstance] = useState<LeafletMap | null>(null);
@@ -351,6 +263,7 @@ export const MapView = ({
   useEffect(() => {
     clearOverrideTimer();
     setUserOverrideActive(false);
+    setShowReplayPanel(false);
   }, [selectedTrain?.TrainId, clearOverrideTimer]);
 
   useEffect(() => {
@@ -360,12 +273,14 @@ export const MapView = ({
       return;
     }
 
-    if (selectedLiveTrain?.livePosition) {
+    if (selectedPosition) {
+      // Replay frames arrive several times a second; a short pan keeps up with them
+      if (isReplaying) {
+        mapInstance.panTo(selectedPosition, { animate: true, duration: 0.2 });
+        return;
+      }
       mapInstance.flyTo(
-        [
-          selectedLiveTrain.livePosition.lat,
-          selectedLiveTrain.livePosition.lon,
-        ],
+        selectedPosition,
         8.5, // Increased zoom for closer view when following train
         { animate: true, duration: 0.8 }
       );
@@ -394,22 +309,23 @@ export const MapView = ({
     }
   }, [
     mapInstance,
-    selectedLiveTrain,
+    selectedPosition,
     displayedPoints,
     routePoints,
     userOverrideActive,
+    isReplaying,
   ]);
 
   const handleCenterSelected = useCallback(() => {
-    if (!mapInstance || !selectedLiveTrain?.livePosition) return;
+    if (!mapInstance || !selectedPosition) return;
     clearOverrideTimer();
     setUserOverrideActive(false);
     mapInstance.flyTo(
-      [selectedLiveTrain.livePosition.lat, selectedLiveTrain.livePosition.lon],
+      selectedPosition,
       8.5, // Increased zoom for closer view when manually centering
       { animate: true, duration: 0.8 }
     );
-  }, [mapInstance, selectedLiveTrain, clearOverrideTimer]);
+  }, [mapInstance, selectedPosition, clearOverrideTimer]);
 
   const handleFitRoute = useCallback(() => {
     if (!mapInstance || routePoints.length === 0) return;
@@ -462,10 +378,18 @@ export const MapView = ({
         />
 
         <TrackPolyline
-          routePoints={routePoints}
-          livePosition={selectedTrain?.livePosition ?? null}
+          profile={routeProfile}
+          position={matchedProgress?.position}
         />
 
+        {showStations && onOpenStationBoard && (
+          <StationLayer
+            trains={trains}
+            stationLookup={stationLookup}
+            onOpenBoard={onOpenStationBoard}
+          />
+        )}
+
         {routeStations.map((station, idx) => {
           // Determine if this station is passed
           let isPassed = false;
@@ -482,7 +406,7 @@ export const MapView = ({
               if (stop && stop.DepartureTime) {
                 // Estimate "minutes ago" using DepartureTime and current time
                 // DepartureTime is in "HH:MM", so parse and compare to now
-                const now = new Date();
+                const now = new Date(referenceTime ?? Date.now());
                 const [h, m] = stop.DepartureTime.split(":").map(Number);
                 const passedDate = new Date(now);
                 passedDate.setHours(h, m, 0, 0);
@@ -530,19 +454,30 @@ export const MapView = ({
                         <div className="text-[10px] font-semibold text-neutral-600 uppercase tracking-wide">
                           From Current Position
                         </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-neutral-500">Distance:</span>
-                          <span className="font-semibold text-emerald-700">
-                            {formatDistance(
-                              calculateDistance(
-                                selectedLiveTrain.livePosition.lat,
-                                selectedLiveTrain.livePosition.lon,
-                                station.lat,
-                                station.lon
-                              )
-                            )}
-                          </span>
-                        </div>
+                        {(() => {
+                          const alongTrackKm =
+                            trackProgress?.toStationKm.get(station.id);
+                          return (
+                            <div className="flex justify-between items-center">
+                              <span className="text-neutral-500">
+                                {alongTrackKm !== undefined
+                                  ? "By Track:"
+                                  : "Distance:"}
+                              </span>
+                              <span className="font-semibold text-emerald-700">
+                                {formatDistance(
+                                  alongTrackKm ??
+                                    calculateDistance(
+                                      selectedLiveTrain.livePosition.lat,
+                                      selectedLiveTrain.livePosition.lon,
+                                      station.lat,
+                                      station.lon
+                                    )
+                                )}
+                              </span>
+                            </div>
+                          );
+                        })()}
                         <div className="flex justify-between items-center">
                           <span className="text-neutral-500">Current Speed:</span>
                           <span className="font-semibold">
@@ -550,16 +485,11 @@ export const MapView = ({
                           </span>
                         </div>
                         {(() => {
-                          const distanceKm = calculateDistance(
-                            selectedLiveTrain.livePosition.lat,
-                            selectedLiveTrain.livePosition.lon,
-                            station.lat,
-                            station.lon
-                          );
-                          const expectedArrival = calculateExpectedArrival(
-                            distanceKm,
-                            selectedLiveTrain.livePosition.speed
-                          );
+                          const stopPrediction =
+                            selectedPrediction?.byStationId.get(station.id);
+                          const expectedArrival = stopPrediction
+                            ? describeStopPrediction(stopPrediction, referenceTime)
+                            : null;
                           if (expectedArrival) {
                             return (
                               <>
@@ -577,19 +507,13 @@ export const MapView = ({
                                     {expectedArrival.durationLabel}
                                   </span>
                                 </div>
+                                <div className="text-[10px] text-neutral-500">
+                                  Likely {expectedArrival.rangeLabel} (
+                                  {expectedArrival.confidence} confidence)
+                                </div>
                               </>
                             );
                           }
-                          if (
-                            selectedLiveTrain.livePosition.speed &&
-                            selectedLiveTrain.livePosition.speed < 5
-                          ) {
-                            return (
-                              <div className="text-[10px] text-amber-600 italic">
-                                Train moving too slow for estimate
-                              </div>
-                            );
-                          }
                           return null;
                         })()}
                       </div>
@@ -618,9 +542,14 @@ export const MapView = ({
            );
 
            return (
-             <Marker
+             <AnimatedMarker
                key={getTrainUniqueKey(train)}
-               position={position as LatLngExpression}
+               position={position as [number, number]}
+               alongKm={isSelected ? matchedProgress?.position.alongKm : undefined}
+               profile={isSelected ? routeProfile : null}
+               speed={train.livePosition?.speed ?? null}
+               lastUpdated={train.livePosition?.lastUpdated ?? 0}
+               deadReckoning={isLive && !isReplaying}
                icon={icon}
                zIndexOffset={isSelected ? 1000 : 0}
              >
@@ -660,6 +589,21 @@ export const MapView = ({
                      </div>
                      {isLive && (
                        <>
+                         {(() => {
+                           const prediction = isSelected
+                             ? selectedPrediction
+                             : predictTrainStops(train, { now: referenceTime });
+                           const nextStop = prediction?.stops[0];
+                           if (!nextStop) return null;
+                           return (
+                             <div className="flex justify-between gap-2">
+                               <span className="text-neutral-500">ETA:</span>
+                               <span className="font-medium">
+                                 {describeStopPrediction(nextStop, referenceTime).timeString}
+                               </span>
+                             </div>
+                           );
+                         })()}
                          <div className="flex justify-between gap-2">
                            <span className="text-neutral-500">Speed:</span>
                            <span className="font-medium">
@@ -673,7 +617,7 @@ export const MapView = ({
                            </span>
                          </div>
                          <div className="text-[10px] text-neutral-400 pt-1 border-t border-neutral-200">
-                           Updated {formatRelativeTime(train.livePosition!.lastUpdated)}
+                           Updated {formatRelativeTime(train.livePosition!.lastUpdated, referenceTime)}
                          </div>
                        </>
                      )}
@@ -685,7 +629,7 @@ export const MapView = ({
                    </div>
                  </div>
                </Popup>
-             </Marker>
+             </AnimatedMarker>
            );
          })}
       </MapContainer>
@@ -733,6 +677,35 @@ export const MapView = ({
                 </span>
               </button>
             )}
+            {onOpenStationBoard && (
+              <button
+                type="button"
+                onClick={() => setShowStations((shown) => !shown)}
+                aria-pressed={showStations}
+                className={`border px-2.5 sm:px-4 py-1.5 sm:py-2 text-[10px] sm:text-xs font-bold shadow-lg transition-all duration-200 hover:shadow-xl hover:-translate-y-0.5 active:scale-95 ${
+                  showStations
+                    ? "border-blue-400 bg-blue-600 text-white hover:bg-blue-700"
+                    : "border-neutral-300 bg-white/98 text-neutral-700 hover:bg-neutral-50"
+                }`}
+              >
+                <span className="hidden sm:inline">◉ Stations</span>
+                <span className="sm:hidden">◉</span>
+              </button>
+            )}
+            {replay && selectedTrain && (
+              <button
+                type="button"
+                onClick={() => setShowReplayPanel((open) => !open)}
+                className={`border px-2.5 sm:px-4 py-1.5 sm:py-2 text-[10px] sm:text-xs font-bold shadow-lg transition-all duration-200 hover:shadow-xl hover:-translate-y-0.5 active:scale-95 ${
+                  isReplaying || showReplayPanel
+                    ? "border-amber-400 bg-amber-500 text-white hover:bg-amber-600"
+                    : "border-neutral-300 bg-white/98 text-neutral-700 hover:bg-neutral-50"
+                }`}
+              >
+                <span className="hidden sm:inline">⏵ Replay</span>
+                <span className="sm:hidden">⏵</span>
+              </button>
+            )}
             <button
               type="button"
               onClick={handleReset}
@@ -742,6 +715,15 @@ export const MapView = ({
               <span className="sm:hidden">↺</span>
             </button>
           </div>
+          {replay && selectedTrain && (showReplayPanel || isReplaying) && (
+            <div className="flex justify-center">
+              <ReplayControls
+                train={selectedTrain}
+                replay={replay}
+                onClose={() => setShowReplayPanel(false)}
+              />
+            </div>
+          )}
         </div>
       )}
     </div>
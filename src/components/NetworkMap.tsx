@@ -0,0 +1,260 @@
+import { memo, useMemo, useState } from "react";
+import {
+  MapContainer,
+  Marker,
+  Popup,
+  TileLayer,
+  useMap,
+  useMapEvents,
+} from "react-leaflet";
+import L from "leaflet";
+import type { StationDetails, TrainWithRoute } from "@/types";
+import { getTrainUniqueKey } from "@/lib/train";
+import {
+  DEFAULT_MAP_CENTER,
+  NETWORK_OVERVIEW_ZOOM,
+  clusterPoints,
+  getClusterIcon,
+  getTrainIcon,
+  getTrainIconConfig,
+  type ViewportBounds,
+} from "@/lib/map";
+import { formatLateBy, formatSpeed } from "@/utils/time";
+import { StationLayer } from "./StationLayer";
+
+interface NetworkMapProps {
+  trains: TrainWithRoute[];
+  stationLookup: Map<number, StationDetails>;
+  selectedTrainId?: string;
+  onSelectTrain: (trainId: string) => void;
+  onOpenTrain: (trainId: string) => void;
+  onOpenStationBoard: (stationId: number) => void;
+}
+
+interface NetworkPoint {
+  key: string;
+  lat: number;
+  lon: number;
+  train: TrainWithRoute;
+}
+
+interface Viewport {
+  zoom: number;
+  bounds: ViewportBounds | null;
+}
+
+const toViewport = (map: L.Map): Viewport => {
+  const bounds = map.getBounds();
+  return {
+    zoom: map.getZoom(),
+    bounds: {
+      south: bounds.getSouth(),
+      west: bounds.getWest(),
+      north: bounds.getNorth(),
+      east: bounds.getEast(),
+    },
+  };
+};
+
+interface TrainMarkerProps
+  extends Pick<NetworkMapProps, "onSelectTrain" | "onOpenTrain"> {
+  trainKey: string;
+  train: TrainWithRoute;
+  lat: number;
+  lon: number;
+  isSelected: boolean;
+}
+
+// Memoised so a live update re-renders only the markers of trains it replaced
+const TrainMarker = memo(
+  ({
+    trainKey,
+    train,
+    lat,
+    lon,
+    isSelected,
+    onSelectTrain,
+    onOpenTrain,
+  }: TrainMarkerProps) => {
+    const eventHandlers = useMemo(
+      () => ({ click: () => onSelectTrain(trainKey) }),
+      [onSelectTrain, trainKey]
+    );
+    const live = train.livePosition!;
+
+    return (
+      <Marker
+        position={[lat, lon]}
+        icon={getTrainIcon(
+          `network-${isSelected ? "selected" : train.IsUp ? "up" : "down"}`,
+          getTrainIconConfig(isSelected, train.IsUp)
+        )}
+        zIndexOffset={isSelected ? 1000 : 0}
+        eventHandlers={eventHandlers}
+      >
+        <Popup closeButton={false} className="train-popup" maxWidth={220}>
+          <div className="space-y-1.5 p-1 text-xs text-neutral-700">
+            <div className="font-semibold text-neutral-900 text-sm leading-tight">
+              {train.TrainName}
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-neutral-500">Next stop:</span>
+              <span className="font-medium text-right">
+                {train.upcomingStop?.StationName ?? live.nextStopName ?? "—"}
+              </span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-neutral-500">Speed:</span>
+              <span className="font-medium">{formatSpeed(live.speed)}</span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-neutral-500">Delay:</span>
+              <span className="font-medium">{formatLateBy(live.lateBy)}</span>
+            </div>
+            <button
+              type="button"
+              onClick={() => onOpenTrain(trainKey)}
+              className="mt-1 w-full rounded-lg bg-[#2c7f68] px-2 py-1 text-xs font-semibold text-white hover:bg-[#24695a]"
+            >
+              View details
+            </button>
+          </div>
+        </Popup>
+      </Marker>
+    );
+  }
+);
+TrainMarker.displayName = "TrainMarker";
+
+// Renders the clustered, viewport-culled train markers; re-clusters on pan and zoom
+const NetworkLayer = ({
+  points,
+  selectedTrainId,
+  onSelectTrain,
+  onOpenTrain,
+}: Pick<NetworkMapProps, "selectedTrainId" | "onSelectTrain" | "onOpenTrain"> & {
+  points: NetworkPoint[];
+}) => {
+  const map = useMap();
+  const [viewport, setViewport] = useState<Viewport>(() => toViewport(map));
+
+  // Leaflet fires moveend after zooming too
+  useMapEvents({ moveend: () => setViewport(toViewport(map)) });
+
+  const clusters = useMemo(
+    () => clusterPoints(points, viewport.zoom, viewport.bounds),
+    [points, viewport]
+  );
+
+  return (
+    <>
+      {clusters.map((cluster) => {
+        if (cluster.items.length > 1) {
+          return (
+            <Marker
+              key={cluster.id}
+              position={[cluster.lat, cluster.lon]}
+              icon={getClusterIcon(cluster.items.length)}
+              eventHandlers={{
+                click: () =>
+                  map.flyToBounds(
+                    [
+                      [cluster.bounds.south, cluster.bounds.west],
+                      [cluster.bounds.north, cluster.bounds.east],
+                    ],
+                    { padding: [48, 48], maxZoom: 11 }
+                  ),
+              }}
+            />
+          );
+        }
+
+        const { key, train, lat, lon } = cluster.items[0];
+        return (
+          <TrainMarker
+            key={key}
+            trainKey={key}
+            train={train}
+            lat={lat}
+            lon={lon}
+            isSelected={key === selectedTrainId}
+            onSelectTrain={onSelectTrain}
+            onOpenTrain={onOpenTrain}
+          />
+        );
+      })}
+    </>
+  );
+};
+
+export const NetworkMap = ({
+  trains,
+  stationLookup,
+  selectedTrainId,
+  onSelectTrain,
+  onOpenTrain,
+  onOpenStationBoard,
+}: NetworkMapProps) => {
+  const [showStations, setShowStations] = useState(false);
+  const points = useMemo(
+    () =>
+      trains
+        .filter((train) => train.livePosition)
+        .map((train) => ({
+          key: getTrainUniqueKey(train),
+          lat: train.livePosition!.lat,
+          lon: train.livePosition!.lon,
+          train,
+        })),
+    [trains]
+  );
+
+  return (
+    <div className="relative h-[70vh] min-h-[420px] w-full overflow-hidden rounded-2xl border border-neutral-200 bg-white shadow-xl">
+      <MapContainer
+        center={DEFAULT_MAP_CENTER}
+        zoom={NETWORK_OVERVIEW_ZOOM}
+        className="h-full w-full z-0"
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        />
+        <TileLayer
+          url="https://{s}.tiles.openrailwaymap.org/standard/{z}/{x}/{y}.png"
+          attribution='&copy; <a href="https://www.openrailwaymap.org/">OpenRailwayMap</a>'
+          maxZoom={19}
+          opacity={0.65}
+        />
+        {showStations && (
+          <StationLayer
+            trains={trains}
+            stationLookup={stationLookup}
+            onOpenBoard={onOpenStationBoard}
+          />
+        )}
+        <NetworkLayer
+          points={points}
+          selectedTrainId={selectedTrainId}
+          onSelectTrain={onSelectTrain}
+          onOpenTrain={onOpenTrain}
+        />
+      </MapContainer>
+      <div className="pointer-events-none absolute left-3 top-3 z-[400] rounded-full bg-white/90 px-3 py-1 text-xs font-semibold text-[color:var(--ink-strong)] shadow">
+        {points.length} live trains
+      </div>
+      <button
+        type="button"
+        onClick={() => setShowStations((shown) => !shown)}
+        aria-pressed={showStations}
+        className={`absolute right-3 top-3 z-[400] border px-3 py-1.5 text-xs font-bold shadow-lg transition-colors ${
+          showStations
+            ? "border-blue-400 bg-blue-600 text-white hover:bg-blue-700"
+            : "border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-50"
+        }`}
+      >
+        ◉ Stations
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import { useMemo } from "react";
+import type { TrainWithRoute } from "@/types";
+import { useFavourites, useWatchlist } from "@/hooks/useTrainData";
+import { useStorageSummary } from "@/hooks/useStorageSummary";
+import { useTrackPrefetchJob } from "@/hooks/useTrackPrefetch";
+import { cancelTrackPrefetch, startTrackPrefetch } from "@/services/trackPrefetch";
+import { formatBytes, formatRelativeTime } from "@/utils/time";
+
+interface OfflineMapsPanelProps {
+  trains: TrainWithRoute[];
+}
+
+const JOB_LABELS = {
+  idle: null,
+  running: "Downloading…",
+  done: "Download finished",
+  cancelled: "Download cancelled",
+  error: "Download failed",
+} as const;
+
+// Downloads track geometry ahead of time so train maps work without a connection
+export const OfflineMapsPanel = ({ trains }: OfflineMapsPanelProps) => {
+  const job = useTrackPrefetchJob();
+  const { watches } = useWatchlist();
+  const { favouriteTrainIds } = useFavourites();
+  // Measured by the storage panel next to this one
+  const { summary: storage } = useStorageSummary();
+  const stats = storage?.tracks;
+
+  const allTrainIds = useMemo(
+    () => Array.from(new Set(trains.map((train) => train.TrainId))),
+    [trains]
+  );
+  // Favourite and watched trains
+  const myTrainIds = useMemo(
+    () => Array.from(new Set([...favouriteTrainIds, ...Array.from(watches.values(), (watch) => watch.trainId)])),
+    [favouriteTrainIds, watches]
+  );
+
+  const isRunning = job.state === "running";
+  const progress = job.progress;
+  const processed = progress ? progress.fetched + progress.skipped + progress.failed : 0;
+  const percent = progress && progress.total > 0 ? Math.round((processed / progress.total) * 100) : 0;
+  const jobLabel = JOB_LABELS[job.state];
+
+  const summary = [
+    {
+      label: "Trains with maps",
+      value: stats ? `${stats.tracks.toLocaleString()} of ${allTrainIds.length.toLocaleString()}` : "—",
+    },
+    { label: "Shared segments", value: stats ? stats.segments.toLocaleString() : "—" },
+    {
+      label: "Approximate size",
+      value: storage ? `${formatBytes(storage.tracks.bytes)} of ${formatBytes(storage.trackBudget)}` : "—",
+    },
+  ];
+
+  return (
+    <div className="rounded-3xl border border-[color:var(--stroke)] bg-gradient-to-br from-[#fff9f1] via-[#fff4e4] to-[#fffdf8] p-5 shadow-[0_24px_45px_-36px_rgba(95,75,60,0.5)] lg:p-6">
+      <div className="mb-4">
+        <h2 className="text-lg font-bold text-[color:var(--ink-strong)] lg:text-xl">Offline maps</h2>
+        <p className="mt-1 text-xs text-[color:var(--ink-muted)]">
+          Download track geometry now so train maps still draw without a connection. Corridors shared by
+          several trains are stored once and maps older than a month are refreshed when next opened.
+          Downloaded maps are kept even beyond the budget; other maps are removed, least recently used
+          first, once it is reached.
+        </p>
+      </div>
+
+      <dl className="grid gap-3 sm:grid-cols-3">
+        {summary.map(({ label, value }) => (
+          <div key={label} className="rounded-2xl bg-white/80 px-4 py-3 shadow-sm">
+            <dt className="text-[10px] font-semibold uppercase tracking-[0.18em] text-[color:var(--ink-muted)]">
+              {label}
+            </dt>
+            <dd className="mt-1 text-base font-semibold text-[color:var(--ink-strong)]">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {jobLabel && progress && (
+        <div className="mt-4 rounded-2xl bg-white/80 px-4 py-3 text-xs text-[color:var(--ink-muted)] shadow-sm" role="status">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="font-semibold text-[color:var(--ink-strong)]">
+              {jobLabel}
+              {!isRunning && job.finishedAt && ` ${formatRelativeTime(job.finishedAt)}`}
+            </span>
+            <span>
+              {processed.toLocaleString()} / {progress.total.toLocaleString()} trains · {progress.fetched} downloaded ·{" "}
+              {progress.skipped} already saved
+              {progress.failed > 0 && <span className="text-[#b15b62]"> · {progress.failed} failed</span>}
+            </span>
+          </div>
+          <div
+            className="mt-2 h-1.5 overflow-hidden rounded-full bg-[#f2e7d8]"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+          >
+            <div className="h-full rounded-full bg-[#2c7f68] transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+      {job.state === "error" && job.lastError && (
+        <p className="mt-4 rounded-2xl bg-[#f8e6ea] px-4 py-2 text-xs text-[#b04d5f]">
+          Download failed: {job.lastError}
+        </p>
+      )}
+
+      <div className="mt-5 flex flex-wrap gap-2 text-xs">
+        {isRunning ? (
+          <button
+            type="button"
+            onClick={cancelTrackPrefetch}
+            className="rounded-full border border-[#b15b62] px-3 py-1.5 font-semibold text-[#b15b62] hover:bg-[#f8e6ea]"
+          >
+            Cancel download
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={() => void startTrackPrefetch(allTrainIds)}
+              disabled={allTrainIds.length === 0}
+              className="rounded-full bg-[#2c7f68] px-3 py-1.5 font-semibold text-white hover:bg-[#24695a] disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Download all trains ({allTrainIds.length.toLocaleString()})
+            </button>
+            <button
+              type="button"
+              onClick={() => void startTrackPrefetch(myTrainIds)}
+              disabled={myTrainIds.length === 0}
+              title={myTrainIds.length === 0 ? "Favourite or watch a train to download just its map" : undefined}
+              className="rounded-full border border-[#2c7f68] px-3 py-1.5 font-semibold text-[#2c7f68] hover:bg-[#eef7f2] disabled:cursor-not-allowed disabled:border-neutral-300 disabled:text-neutral-400"
+            >
+              Download my trains ({myTrainIds.length})
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import type { TrainWithRoute } from "@/types";
+import { listRecordedRuns } from "@/services/runHistory";
+import type { RecordedRunSummary } from "@/services/runHistory";
+import { REPLAY_SPEEDS } from "@/hooks/useJourneyReplay";
+import type { JourneyReplay } from "@/hooks/useJourneyReplay";
+import { formatLateBy } from "@/utils/time";
+
+interface ReplayControlsProps {
+  train: TrainWithRoute;
+  replay: JourneyReplay;
+  onClose: () => void;
+}
+
+const DEFAULT_WINDOW_MS = 6 * 60 * 60 * 1000;
+
+// Formats a timestamp for a datetime-local input (local time, minute precision)
+const toInputValue = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const fromInputValue = (value: string): number | null => {
+  const timestamp = new Date(value).getTime();
+  return Number.isNaN(timestamp) ? null : timestamp;
+};
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+export const ReplayControls = ({
+  train,
+  replay,
+  onClose,
+}: ReplayControlsProps) => {
+  const [from, setFrom] = useState(() => Date.now() - DEFAULT_WINDOW_MS);
+  const [to, setTo] = useState(() => Date.now());
+  const [runs, setRuns] = useState<RecordedRunSummary[]>([]);
+  const [runId, setRunId] = useState<string>("");
+  const [isLoadingRuns, setIsLoadingRuns] = useState(false);
+
+  // Look up the runs recorded for this train inside the chosen window
+  useEffect(() => {
+    if (replay.isActive) return;
+    let cancelled = false;
+    setIsLoadingRuns(true);
+    listRecordedRuns(train.TrainId, from, to)
+      .then((result) => {
+        if (cancelled) return;
+        setRuns(result);
+        setRunId((current) =>
+          result.some((run) => run.runId === current)
+            ? current
+            : result[0]?.runId ?? ""
+        );
+      })
+      .catch((err) => {
+        console.error("Failed to list recorded runs", err);
+        if (!cancelled) setRuns([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingRuns(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [train.TrainId, from, to, replay.isActive]);
+
+  const handleExit = () => {
+    replay.stop();
+    onClose();
+  };
+
+  if (!replay.isActive || !replay.window) {
+    return (
+      <div className="pointer-events-auto w-full max-w-md space-y-3 border border-neutral-300 bg-white/95 p-3 text-xs text-neutral-700 shadow-xl backdrop-blur-md">
+        <div className="flex items-center justify-between">
+          <span className="font-bold uppercase tracking-wide text-neutral-900">
+            Journey replay
+          </span>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-neutral-500 hover:text-neutral-900"
+          >
+            ✕
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] font-semibold uppercase text-neutral-500">
+              From
+            </span>
+            <input
+              type="datetime-local"
+              value={toInputValue(from)}
+              max={toInputValue(to)}
+              onChange={(event) => {
+                const value = fromInputValue(event.target.value);
+                if (value != null) setFrom(value);
+              }}
+              className="border border-neutral-300 px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] font-semibold uppercase text-neutral-500">
+              To
+            </span>
+            <input
+              type="datetime-local"
+              value={toInputValue(to)}
+              min={toInputValue(from)}
+              onChange={(event) => {
+                const value = fromInputValue(event.target.value);
+                if (value != null) setTo(value);
+              }}
+              className="border border-neutral-300 px-2 py-1"
+            />
+          </label>
+        </div>
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] font-semibold uppercase text-neutral-500">
+            Run
+          </span>
+          <select
+            value={runId}
+            onChange={(event) => setRunId(event.target.value)}
+            disabled={runs.length === 0}
+            className="border border-neutral-300 px-2 py-1"
+          >
+            {runs.length === 0 && (
+              <option value="">
+                {isLoadingRuns ? "Loading runs…" : "No recorded runs in this window"}
+              </option>
+            )}
+            {runs.map((run) => (
+              <option key={run.runId} value={run.runId}>
+                {run.trainKey} · {formatClock(run.firstSeen)} →{" "}
+                {formatClock(run.lastSeen)} ({run.pointCount} points)
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          disabled={!runId}
+          onClick={() => replay.start(runId, { from, to })}
+          className={`w-full border px-3 py-2 font-bold ${
+            runId
+              ? "border-emerald-400 bg-emerald-600 text-white hover:bg-emerald-700"
+              : "cursor-not-allowed border-neutral-300 bg-neutral-100 text-neutral-400"
+          }`}
+        >
+          Start replay
+        </button>
+      </div>
+    );
+  }
+
+  const { window, cursor, frame } = replay;
+
+  return (
+    <div className="pointer-events-auto w-full max-w-md space-y-2 border border-emerald-300 bg-white/95 p-3 text-xs text-neutral-700 shadow-xl backdrop-blur-md">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-bold uppercase tracking-wide text-emerald-700">
+          Replaying · {formatClock(cursor)}
+        </span>
+        <button
+          type="button"
+          onClick={handleExit}
+          className="border border-neutral-300 px-2 py-0.5 font-semibold hover:bg-neutral-50"
+        >
+          Exit replay
+        </button>
+      </div>
+      <input
+        type="range"
+        min={window.from}
+        max={window.to}
+        step={1000}
+        value={cursor}
+        onChange={(event) => replay.seek(Number(event.target.value))}
+        className="w-full accent-emerald-600"
+        aria-label="Replay position"
+      />
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={replay.isPlaying ? replay.pause : replay.play}
+          disabled={replay.history.length === 0}
+          className="border border-emerald-400 bg-emerald-600 px-3 py-1 font-bold text-white hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {replay.isPlaying ? "Pause" : "Play"}
+        </button>
+        <div className="flex gap-1">
+          {REPLAY_SPEEDS.map((speed) => (
+            <button
+              key={speed}
+              type="button"
+              onClick={() => replay.setSpeed(speed)}
+              className={`border px-2 py-1 font-semibold ${
+                replay.speed === speed
+                  ? "border-emerald-500 bg-emerald-50 text-emerald-700"
+                  : "border-neutral-300 bg-white hover:bg-neutral-50"
+              }`}
+            >
+              {speed}x
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="text-[10px] text-neutral-500">
+        {replay.isLoading
+          ? "Loading breadcrumbs…"
+          : replay.history.length === 0
+          ? "No breadcrumbs recorded for this run in the chosen window."
+          : frame
+          ? `Point from ${formatClock(frame.lastUpdated)} · ${formatLateBy(
+              frame.lateBy
+            )} · ${replay.history.length} points`
+          : null}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import { useMemo, useState } from "react";
+import { Marker, Popup, useMap, useMapEvents } from "react-leaflet";
+import type { Map as LeafletMap } from "leaflet";
+import type { StationDetails, TrainWithRoute } from "@/types";
+import {
+  buildStationBoard,
+  describeStopPrediction,
+  getStationTrainCounts,
+  getTrainUniqueKey,
+  isPassengerTrain,
+} from "@/lib/train";
+import type { StationBoardTrain } from "@/lib/train";
+import { clusterPoints, getNetworkStationIcon } from "@/lib/map";
+import type { ViewportBounds } from "@/lib/map";
+import { formatLateBy, formatTime } from "@/utils/time";
+
+interface StationLayerProps {
+  trains: TrainWithRoute[];
+  stationLookup: Map<number, StationDetails>;
+  onOpenBoard: (stationId: number) => void;
+}
+
+interface StationPoint {
+  id: number;
+  lat: number;
+  lon: number;
+  station: StationDetails;
+  trainCount: number;
+}
+
+/** One station is drawn per cell of this size (px) below the clustering zoom */
+const STATION_CELL_PX = 40;
+/** Stations served by at least this many trains are drawn larger */
+const MAJOR_STATION_TRAIN_COUNT = 20;
+/** Trains listed in a station popup */
+const POPUP_TRAIN_LIMIT = 4;
+
+const readViewport = (map: LeafletMap) => {
+  const bounds = map.getBounds();
+  return {
+    zoom: map.getZoom(),
+    bounds: {
+      south: bounds.getSouth(),
+      west: bounds.getWest(),
+      north: bounds.getNorth(),
+      east: bounds.getEast(),
+    } as ViewportBounds,
+  };
+};
+
+const BoardRow = ({ entry }: { entry: StationBoardTrain }) => {
+  const summary = entry.prediction ? describeStopPrediction(entry.prediction) : null;
+  return (
+    <li className="flex items-start justify-between gap-2">
+      <span className="min-w-0">
+        <span className="block truncate font-medium text-neutral-900">
+          {entry.TrainName}
+        </span>
+        <span className="text-[10px] text-neutral-500">
+          Arr {formatTime(entry.stop.ArrivalTime)} · Dep {formatTime(entry.stop.DepartureTime)}
+        </span>
+      </span>
+      <span className="shrink-0 text-right">
+        <span className="block font-semibold text-emerald-700">
+          {summary ? summary.timeString : formatTime(entry.stop.ArrivalTime ?? entry.stop.DepartureTime)}
+        </span>
+        <span className="text-[10px] text-neutral-500">
+          {summary ? summary.delayLabel : entry.livePosition ? formatLateBy(entry.livePosition.lateBy) : "Scheduled"}
+        </span>
+      </span>
+    </li>
+  );
+};
+
+// Live board summary, only computed while the popup is open
+const StationPopupBoard = ({
+  station,
+  stationId,
+  trains,
+  onOpenBoard,
+}: {
+  station: StationDetails;
+  stationId: number;
+  trains: TrainWithRoute[];
+  onOpenBoard: (stationId: number) => void;
+}) => {
+  const board = useMemo(() => buildStationBoard(trains, stationId), [trains, stationId]);
+  const next = [...board.arrivingNow, ...board.upcoming].slice(0, POPUP_TRAIN_LIMIT);
+  const lastDeparted = board.passed[0];
+
+  return (
+    <div className="w-56 space-y-2 p-1 text-xs text-neutral-700">
+      <div>
+        <div className="font-semibold text-neutral-900">{station.StationName}</div>
+        {station.City && (
+          <div className="text-[10px] uppercase tracking-wide text-neutral-500">
+            {station.City}
+          </div>
+        )}
+      </div>
+      <div className="border-t border-neutral-200 pt-2">
+        <div className="mb-1 text-[10px] font-semibold uppercase tracking-wide text-neutral-600">
+          Next trains
+        </div>
+        {next.length > 0 ? (
+          <ul className="space-y-1.5">
+            {next.map((entry) => (
+              <BoardRow key={getTrainUniqueKey(entry)} entry={entry} />
+            ))}
+          </ul>
+        ) : (
+          <div className="text-neutral-500">No upcoming trains.</div>
+        )}
+      </div>
+      {lastDeparted && (
+        <div className="text-[10px] text-neutral-500">
+          Last departed: {lastDeparted.TrainName} ({formatTime(lastDeparted.stop.DepartureTime)})
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={() => onOpenBoard(stationId)}
+        className="w-full rounded-lg bg-[#2c7f68] px-2 py-1 text-xs font-semibold text-white hover:bg-[#24695a]"
+      >
+        Open station board
+      </button>
+    </div>
+  );
+};
+
+// Draws every station from the lookup, thinned out by zoom and culled to the viewport
+export const StationLayer = ({ trains, stationLookup, onOpenBoard }: StationLayerProps) => {
+  const map = useMap();
+  const [viewport, setViewport] = useState(() => readViewport(map));
+  const [openStationId, setOpenStationId] = useState<number | null>(null);
+
+  useMapEvents({ moveend: () => setViewport(readViewport(map)) });
+
+  // The station board only lists passenger services
+  const passengerTrains = useMemo(() => trains.filter(isPassengerTrain), [trains]);
+  const trainCounts = useMemo(() => getStationTrainCounts(passengerTrains), [passengerTrains]);
+
+  const points = useMemo(() => {
+    const result: StationPoint[] = [];
+    stationLookup.forEach((station, id) => {
+      if (!station.Latitude || !station.Longitude) return;
+      result.push({
+        id,
+        lat: station.Latitude,
+        lon: station.Longitude,
+        station,
+        trainCount: trainCounts.get(id) ?? 0,
+      });
+    });
+    return result;
+  }, [stationLookup, trainCounts]);
+
+  // Keep the busiest station of each cell
+  const visibleStations = useMemo(
+    () =>
+      clusterPoints(points, viewport.zoom, viewport.bounds, STATION_CELL_PX).map((cell) =>
+        cell.items.reduce((best, point) => (point.trainCount > best.trainCount ? point : best))
+      ),
+    [points, viewport]
+  );
+
+  return (
+    <>
+      {visibleStations.map(({ id, lat, lon, station, trainCount }) => (
+        <Marker
+          key={`network-station-${id}`}
+          position={[lat, lon]}
+          icon={getNetworkStationIcon(trainCount >= MAJOR_STATION_TRAIN_COUNT)}
+          eventHandlers={{
+            popupopen: () => setOpenStationId(id),
+            popupclose: () => setOpenStationId((current) => (current === id ? null : current)),
+          }}
+        >
+          <Popup closeButton={false} className="station-popup" maxWidth={260}>
+            {openStationId === id && (
+              <StationPopupBoard
+                station={station}
+                stationId={id}
+                trains={passengerTrains}
+                onOpenBoard={onOpenBoard}
+              />
+            )}
+          </Popup>
+        </Marker>
+      ))}
+    </>
+  );
+};
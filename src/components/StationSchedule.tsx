@@ -1,6 +1,10 @@
 import { useState, useMemo } from 'react';
 import { StationDetails, TrainWithRoute } from '@/types';
 import { isPassengerTrain } from '@/lib/train';
+import { useFavourites } from '@/hooks/useTrainData';
+import { getFavouriteId } from '@/services/favourites';
+import { FavouriteButton } from './FavouriteButton';
+import { FavouriteStationChips } from './FavouriteStationChips';
 
 // Helper function to format time strings
 const formatTime = (timeString: string | null): string => {
@@ -19,6 +23,8 @@ const formatTime = (timeString: string | null): string => {
 interface StationScheduleProps {
   trains: TrainWithRoute[];
   stationLookup: Map<number, StationDetails>;
+  selectedStationId: number | null;
+  onSelectStation: (stationId: number | null) => void;
 }
 
 interface TrainScheduleEntry {
@@ -29,14 +35,19 @@ interface TrainScheduleEntry {
   isLive: boolean;
 }
 
-export const StationSchedule = ({ trains, stationLookup }: StationScheduleProps) => {
+export const StationSchedule = ({
+  trains,
+  stationLookup,
+  selectedStationId,
+  onSelectStation,
+}: StationScheduleProps) => {
   const passengerTrains = useMemo(
     () => trains.filter((train) => isPassengerTrain(train)),
     [trains]
   );
-  const [selectedStationId, setSelectedStationId] = useState<number | null>(null);
   const [sortBy, setSortBy] = useState<'arrival' | 'departure'>('arrival');
   const [searchQuery, setSearchQuery] = useState('');
+  const { favourites, toggleFavourite } = useFavourites();
 
   const filteredTrains = useMemo(() => {
     const query = searchQuery.trim().toLowerCase();
@@ -158,7 +169,7 @@ export const StationSchedule = ({ trains, stationLookup }: StationScheduleProps)
   }, [stationSchedule, sortBy]);
 
   const handleClearSelection = () => {
-    setSelectedStationId(null);
+    onSelectStation(null);
   };
 
   return (
@@ -173,6 +184,13 @@ export const StationSchedule = ({ trains, stationLookup }: StationScheduleProps)
             </span>
           </div>
 
+          <FavouriteStationChips
+            stationLookup={stationLookup}
+            selectedStationId={selectedStationId}
+            onSelectStation={onSelectStation}
+            className="mb-4"
+          />
+
           {/* Search Bar */}
           <div className="mb-4">
             <div className="relative">
@@ -215,7 +233,7 @@ export const StationSchedule = ({ trains, stationLookup }: StationScheduleProps)
               {filteredStations.map(({ station, trainCount }) => (
                 <button
                   key={station.StationDetailsId}
-                  onClick={() => setSelectedStationId(station.StationDetailsId)}
+                  onClick={() => onSelectStation(station.StationDetailsId)}
                   className={`group rounded-2xl border-2 p-4 text-left transition-all duration-200 ${
                     selectedStationId === station.StationDetailsId
                       ? 'border-[#2c7f68] bg-gradient-to-br from-[#e7f6ef] to-white ring-2 ring-[#b9e0d0] shadow-[0_20px_36px_-24px_rgba(44,127,104,0.35)] scale-[1.02]'
@@ -271,12 +289,27 @@ export const StationSchedule = ({ trains, stationLookup }: StationScheduleProps)
         <section className="rounded-3xl border border-[color:var(--stroke)] bg-gradient-to-br from-[#fff9f1] via-[#fff4e4] to-[#fffdf8] p-5 shadow-[0_26px_48px_-36px_rgba(95,75,60,0.5)] lg:p-6">
           <div className="mb-5 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
             <div>
-              <h2 className="text-lg font-bold text-[color:var(--ink-strong)] lg:text-xl">
-                {selectedStation.StationName} Schedule
-              </h2>
+              <div className="flex items-center gap-2">
+                <h2 className="text-lg font-bold text-[color:var(--ink-strong)] lg:text-xl">
+                  {selectedStation.StationName} Schedule
+                </h2>
+                <FavouriteButton
+                  isFavourite={favourites.has(getFavouriteId('station', selectedStation.StationDetailsId))}
+                  onToggle={() =>
+                    toggleFavourite('station', selectedStation.StationDetailsId, selectedStation.StationName)
+                  }
+                  name={selectedStation.StationName}
+                />
+              </div>
               {selectedStation.City && (
                 <p className="mt-1 text-sm text-[color:var(--ink-muted)]/80">{selectedStation.City}</p>
               )}
+              <FavouriteStationChips
+                stationLookup={stationLookup}
+                selectedStationId={selectedStationId}
+                onSelectStation={onSelectStation}
+                className="mt-3"
+              />
             </div>
             
             {/* Arrival/Departure Toggle */}
@@ -1,68 +1,59 @@
 import { useState, useMemo } from "react";
-import { StationDetails, TrainWithRoute, TrainStop } from "@/types";
+import { StationDetails, TrainWithRoute } from "@/types";
 import {
   formatTime,
   formatRelativeTime,
   formatSpeed,
   formatLateBy,
 } from "@/utils/time";
-import { isPassengerTrain } from "@/lib/train";
+import {
+  buildStationBoard,
+  describeStopPrediction,
+  getTrainUniqueKey,
+  isPassengerTrain,
+} from "@/lib/train";
+import type { StopPrediction } from "@/lib/train";
+import { useFavourites, useWatchlist } from "@/hooks/useTrainData";
+import { getWatchId } from "@/services/watchlist";
+import { getFavouriteId } from "@/services/favourites";
 import { StatusChip } from "./StatusChip";
+import { WatchButton } from "./WatchButton";
+import { FavouriteButton } from "./FavouriteButton";
+import { FavouriteStationChips } from "./FavouriteStationChips";
 
 interface StationUpdatesProps {
   trains: TrainWithRoute[];
   stationLookup: Map<number, StationDetails>;
+  selectedStationId: number | null;
+  onSelectStation: (stationId: number | null) => void;
 }
 
-const MINUTES_PER_DAY = 24 * 60;
-
+// Expected arrival labels: the shared prediction when the train is live, the timetable otherwise
 const getExpectedArrivalDetails = (
   scheduledTime: string | null | undefined,
-  lateByMinutes: number | null | undefined
+  prediction?: StopPrediction
 ) => {
-  if (!scheduledTime) {
+  if (!scheduledTime && !prediction) {
     return null;
   }
 
-  const [hourPart, minutePart = "0"] = scheduledTime.split(":");
-  const hours = Number.parseInt(hourPart, 10);
-  const minutes = Number.parseInt(minutePart.slice(0, 2), 10);
-
-  if (Number.isNaN(hours) || Number.isNaN(minutes)) {
+  if (!prediction) {
     return {
       display: formatTime(scheduledTime),
       scheduledLabel: formatTime(scheduledTime),
-      disruptionLabel: formatLateBy(lateByMinutes),
+      disruptionLabel: formatLateBy(null),
+      rangeLabel: null,
       hasLiveAdjustment: false,
     } as const;
   }
 
-  const baseMinutes = hours * 60 + minutes;
-  const offset =
-    lateByMinutes != null && !Number.isNaN(lateByMinutes)
-      ? Math.round(lateByMinutes)
-      : 0;
-
-  let adjustedMinutes = baseMinutes + offset;
-  adjustedMinutes =
-    ((adjustedMinutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
-
-  const adjustedHours = Math.floor(adjustedMinutes / 60);
-  const adjustedMinute = adjustedMinutes % 60;
-
-  const adjustedTime = `${adjustedHours
-    .toString()
-    .padStart(2, "0")}:${adjustedMinute.toString().padStart(2, "0")}`;
-
-  const baseTime = `${hours.toString().padStart(2, "0")}:${minutes
-    .toString()
-    .padStart(2, "0")}`;
-
+  const summary = describeStopPrediction(prediction);
   return {
-    display: formatTime(adjustedTime),
-    scheduledLabel: formatTime(baseTime),
-    disruptionLabel: formatLateBy(lateByMinutes),
-    hasLiveAdjustment: offset !== 0,
+    display: summary.timeString,
+    scheduledLabel: formatTime(scheduledTime),
+    disruptionLabel: summary.delayLabel,
+    rangeLabel: summary.rangeLabel,
+    hasLiveAdjustment: prediction.delayMinutes !== 0,
   } as const;
 };
 
@@ -70,18 +61,6 @@ export const __stationUpdatesInternals = {
   getExpectedArrivalDetails,
 };
 
-// Helper function to parse time string to minutes
-const parseTimeToMinutes = (
-  timeStr: string | null | undefined
-): number | null => {
-  if (!timeStr) return null;
-  const [hourPart, minutePart = "0"] = timeStr.split(":");
-  const hours = Number.parseInt(hourPart, 10);
-  const minutes = Number.parseInt(minutePart.slice(0, 2), 10);
-  if (Number.isNaN(hours) || Number.isNaN(minutes)) return null;
-  return hours * 60 + minutes;
-};
-
 // Helper function to get route description (origin -> destination)
 const getRouteDescription = (route: TrainWithRoute["route"]): string => {
   if (route.length === 0) return "Unknown route";
@@ -90,36 +69,6 @@ const getRouteDescription = (route: TrainWithRoute["route"]): string => {
   return `${origin} → ${destination}`;
 };
 
-// Helper function to calculate time until arrival in minutes
-const getMinutesUntilArrival = (
-  arrivalTime: string | null | undefined,
-  lateBy: number | null | undefined
-): number | null => {
-  if (!arrivalTime) return null;
-
-  const arrivalMinutes = parseTimeToMinutes(arrivalTime);
-  if (arrivalMinutes === null) return null;
-
-  const now = new Date();
-  const currentMinutes = now.getHours() * 60 + now.getMinutes();
-  const delay =
-    lateBy != null && !Number.isNaN(lateBy) ? Math.round(lateBy) : 0;
-
-  let adjustedArrival = arrivalMinutes + delay;
-  let minutesUntil = adjustedArrival - currentMinutes;
-
-  // Handle day wrapping
-  if (minutesUntil < -720) {
-    // If more than 12 hours in the past, assume it's tomorrow
-    minutesUntil += MINUTES_PER_DAY;
-  } else if (minutesUntil > 720) {
-    // If more than 12 hours in the future, assume it was yesterday
-    minutesUntil -= MINUTES_PER_DAY;
-  }
-
-  return minutesUntil;
-};
-
 // Format minutes until arrival as readable text
 const formatTimeUntil = (minutes: number | null): string => {
   if (minutes === null) return "";
@@ -134,16 +83,17 @@ const formatTimeUntil = (minutes: number | null): string => {
 export const StationUpdates = ({
   trains,
   stationLookup,
+  selectedStationId,
+  onSelectStation,
 }: StationUpdatesProps) => {
   const passengerTrains = useMemo(
     () => trains.filter((train) => isPassengerTrain(train)),
     [trains]
   );
-  const [selectedStationId, setSelectedStationId] = useState<number | null>(
-    null
-  );
   const [searchQuery, setSearchQuery] = useState("");
   const [showOnlyLive, setShowOnlyLive] = useState(false);
+  const { watches, toggleWatch } = useWatchlist();
+  const { favourites, toggleFavourite } = useFavourites();
 
   // Get all stations that have trains passing through them
   const stationsWithTrains = useMemo(() => {
@@ -197,90 +147,10 @@ export const StationUpdates = ({
     if (!selectedStationId)
       return { passed: [], upcoming: [], arrivingNow: [] };
 
-    const passed: Array<TrainWithRoute & { stop: TrainStop }> = [];
-    const upcoming: Array<
-      TrainWithRoute & { stop: TrainStop; minutesUntil: number | null }
-    > = [];
-    const arrivingNow: Array<
-      TrainWithRoute & { stop: TrainStop; minutesUntil: number | null }
-    > = [];
-
     const trainsToShow = showOnlyLive
       ? passengerTrains.filter((t) => t.livePosition)
       : passengerTrains;
-
-    trainsToShow.forEach((train) => {
-      // Find the stop at the selected station
-      const stopIndex = train.route.findIndex(
-        (stop) => stop.StationId === selectedStationId
-      );
-      if (stopIndex === -1) return; // Train doesn't stop at this station
-
-      const stop = train.route[stopIndex];
-      const minutesUntil = getMinutesUntilArrival(
-        stop.ArrivalTime,
-        train.livePosition?.lateBy
-      );
-
-      // Determine if train has passed this station
-      let hasPassed = false;
-
-      if (train.livePosition) {
-        // Check if this station was the previous stop
-        if (train.livePosition.prevStationId === selectedStationId) {
-          hasPassed = true;
-        }
-        // Check based on route position if we have live position data
-        else {
-          const currentStopIndex = train.route.findIndex(
-            (s) => s.StationId === train.livePosition?.nextStationId
-          );
-          if (currentStopIndex !== -1 && stopIndex < currentStopIndex) {
-            hasPassed = true;
-          }
-        }
-      } else {
-        // For trains without live position, check if arrival time has passed
-        if (minutesUntil !== null && minutesUntil < -30) {
-          // Consider passed if more than 30 minutes past scheduled arrival
-          hasPassed = true;
-        }
-      }
-
-      // Categorize the train
-      if (hasPassed) {
-        passed.push({ ...train, stop });
-      } else if (minutesUntil !== null && minutesUntil <= 60) {
-        // Arriving within 1 hour - add to "Arriving Now"
-        arrivingNow.push({ ...train, stop, minutesUntil });
-      } else {
-        // More than 1 hour away - add to "Upcoming Arrivals"
-        upcoming.push({ ...train, stop, minutesUntil });
-      }
-    });
-
-    // Sort arriving now by soonest first
-    arrivingNow.sort((a, b) => {
-      const timeA = a.minutesUntil ?? Number.MAX_SAFE_INTEGER;
-      const timeB = b.minutesUntil ?? Number.MAX_SAFE_INTEGER;
-      return timeA - timeB;
-    });
-
-    // Sort upcoming by arrival time (soonest first)
-    upcoming.sort((a, b) => {
-      const timeA = a.minutesUntil ?? Number.MAX_SAFE_INTEGER;
-      const timeB = b.minutesUntil ?? Number.MAX_SAFE_INTEGER;
-      return timeA - timeB;
-    });
-
-    // Sort passed by most recent first (latest departure time)
-    passed.sort((a, b) => {
-      const timeA = parseTimeToMinutes(a.stop.DepartureTime) ?? 0;
-      const timeB = parseTimeToMinutes(b.stop.DepartureTime) ?? 0;
-      return timeB - timeA;
-    });
-
-    return { passed, upcoming, arrivingNow };
+    return buildStationBoard(trainsToShow, selectedStationId);
   }, [selectedStationId, passengerTrains, showOnlyLive]);
 
   const selectedStation = selectedStationId
@@ -288,7 +158,7 @@ export const StationUpdates = ({
     : null;
 
   const handleClearSelection = () => {
-    setSelectedStationId(null);
+    onSelectStation(null);
   };
 
   return (
@@ -306,6 +176,13 @@ export const StationUpdates = ({
             </span>
           </div>
 
+          <FavouriteStationChips
+            stationLookup={stationLookup}
+            selectedStationId={selectedStationId}
+            onSelectStation={onSelectStation}
+            className="mb-4"
+          />
+
           {/* Search Bar */}
           <div className="mb-4">
             <div className="relative">
@@ -358,7 +235,7 @@ export const StationUpdates = ({
               {filteredStations.map(({ station, trainCount, liveCount }) => (
                 <button
                   key={station.StationDetailsId}
-                  onClick={() => setSelectedStationId(station.StationDetailsId)}
+                  onClick={() => onSelectStation(station.StationDetailsId)}
                   className={`group rounded-2xl border-2 p-4 text-left transition-all duration-200 ${
                     selectedStationId === station.StationDetailsId
                       ? "border-[#2c7f68] bg-gradient-to-br from-[#e7f6ef] to-white ring-2 ring-[#b9e0d0] shadow-[0_20px_36px_-24px_rgba(44,127,104,0.35)] scale-[1.02]"
@@ -435,14 +312,35 @@ export const StationUpdates = ({
           <div className="mb-6 flex flex-col flex-wrap items-start justify-between gap-4 md:flex-row">
             {/* Station Name and City */}
             <div>
-              <h2 className="text-xl font-bold text-[color:var(--ink-strong)] lg:text-2xl">
-                {selectedStation.StationName}
-              </h2>
+              <div className="flex items-center gap-2">
+                <h2 className="text-xl font-bold text-[color:var(--ink-strong)] lg:text-2xl">
+                  {selectedStation.StationName}
+                </h2>
+                <FavouriteButton
+                  isFavourite={favourites.has(
+                    getFavouriteId("station", selectedStation.StationDetailsId)
+                  )}
+                  onToggle={() =>
+                    toggleFavourite(
+                      "station",
+                      selectedStation.StationDetailsId,
+                      selectedStation.StationName
+                    )
+                  }
+                  name={selectedStation.StationName}
+                />
+              </div>
               {selectedStation.City && (
                 <p className="mt-1 text-sm text-neutral-700">
                   {selectedStation.City}
                 </p>
               )}
+              <FavouriteStationChips
+                stationLookup={stationLookup}
+                selectedStationId={selectedStationId}
+                onSelectStation={onSelectStation}
+                className="mt-3"
+              />
             </div>
 
             {/* Badges and Buttons Container */}
@@ -540,7 +438,7 @@ export const StationUpdates = ({
                 {stationTrains.arrivingNow.map((train) => {
                   const expectedArrival = getExpectedArrivalDetails(
                     train.stop.ArrivalTime,
-                    train.livePosition?.lateBy
+                    train.prediction
                   );
                   const timeUntil = formatTimeUntil(train.minutesUntil);
                   const routeDesc = getRouteDescription(train.route);
@@ -555,6 +453,15 @@ export const StationUpdates = ({
                             <h4 className="font-bold text-[color:var(--ink-strong)]">
                               {train.TrainName}
                             </h4>
+                            {selectedStation && (
+                              <WatchButton
+                                isWatching={watches.has(
+                                  getWatchId(getTrainUniqueKey(train), train.stop.StationId)
+                                )}
+                                onToggle={() => toggleWatch(train, train.stop)}
+                                stationName={selectedStation.StationName}
+                              />
+                            )}
                           </div>
                           <p className="mt-1 text-xs text-[color:var(--ink-muted)]/80">
                             <span className="font-medium text-[color:var(--ink-muted)]">
@@ -588,6 +495,9 @@ export const StationUpdates = ({
                                   {expectedArrival.disruptionLabel}
                                 </>
                               )}
+                              {expectedArrival.rangeLabel && (
+                                <div>Likely {expectedArrival.rangeLabel}</div>
+                              )}
                             </div>
                           )}
                         </div>
@@ -661,7 +571,7 @@ export const StationUpdates = ({
                 {stationTrains.upcoming.slice(0, 15).map((train) => {
                   const expectedArrival = getExpectedArrivalDetails(
                     train.stop.ArrivalTime,
-                    train.livePosition?.lateBy
+                    train.prediction
                   );
                   const timeUntil = formatTimeUntil(train.minutesUntil);
                   const routeDesc = getRouteDescription(train.route);
@@ -677,6 +587,15 @@ export const StationUpdates = ({
                             <h4 className="font-bold text-[color:var(--ink-strong)]">
                               {train.TrainName}
                             </h4>
+                            {selectedStation && (
+                              <WatchButton
+                                isWatching={watches.has(
+                                  getWatchId(getTrainUniqueKey(train), train.stop.StationId)
+                                )}
+                                onToggle={() => toggleWatch(train, train.stop)}
+                                stationName={selectedStation.StationName}
+                              />
+                            )}
                           </div>
                           <p className="mt-1 text-xs font-medium text-[color:var(--ink-muted)]">
                             Train #{train.TrainNumber} •{" "}
@@ -708,6 +627,9 @@ export const StationUpdates = ({
                                   {expectedArrival.disruptionLabel}
                                 </>
                               )}
+                              {expectedArrival.rangeLabel && (
+                                <div>Likely {expectedArrival.rangeLabel}</div>
+                              )}
                             </div>
                           )}
                         </div>
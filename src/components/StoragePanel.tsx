@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { useStorageSummary } from "@/hooks/useStorageSummary";
+import { useTrackPrefetchJob } from "@/hooks/useTrackPrefetch";
+import {
+  clearStorageCategory,
+  refreshStorageSummary,
+  requestPersistentStorage,
+} from "@/services/storage";
+import type { StorageCategory, StorageSummary } from "@/services/storage";
+import { formatBytes, formatRelativeTime } from "@/utils/time";
+
+interface StoragePanelProps {
+  /** Downloads the timetables again after they were cleared */
+  onDatasetCleared: () => void;
+}
+
+const CATEGORIES: Array<{
+  key: StorageCategory;
+  label: string;
+  clearLabel: string;
+  describe: (summary: StorageSummary) => string;
+}> = [
+  {
+    key: "tracks",
+    label: "Offline maps",
+    clearLabel: "Clear",
+    describe: ({ tracks, trackBudget }) =>
+      `${tracks.tracks.toLocaleString()} trains · ${formatBytes(tracks.bytes)} of ${formatBytes(trackBudget)}` +
+      (tracks.oldestFetchedAt !== undefined ? ` · oldest from ${formatRelativeTime(tracks.oldestFetchedAt)}` : ""),
+  },
+  {
+    key: "live",
+    label: "Live data",
+    clearLabel: "Clear",
+    describe: ({ live }) =>
+      `${live.deltas.toLocaleString()} positions · ${live.breadcrumbs.toLocaleString()} breadcrumbs · ${live.trainStates.toLocaleString()} train states`,
+  },
+  {
+    key: "dataset",
+    label: "Schedules",
+    clearLabel: "Clear and download again",
+    describe: ({ dataset }) =>
+      `${dataset.trains.toLocaleString()} trains · ${dataset.stations.toLocaleString()} stations · checked ${formatRelativeTime(dataset.syncedAt)}`,
+  },
+];
+
+// What the app keeps on this device, with per-category clearing
+export const StoragePanel = ({ onDatasetCleared }: StoragePanelProps) => {
+  const { summary } = useStorageSummary();
+  const job = useTrackPrefetchJob();
+  const [clearing, setClearing] = useState<StorageCategory | null>(null);
+
+  // Measured again whenever a track download starts or ends, not per track
+  useEffect(() => {
+    void refreshStorageSummary();
+  }, [job.state]);
+
+  const handleClear = async (category: StorageCategory) => {
+    setClearing(category);
+    try {
+      await clearStorageCategory(category);
+      if (category === "dataset") onDatasetCleared();
+    } catch (err) {
+      console.error(`Failed to clear ${category}`, err);
+    } finally {
+      setClearing(null);
+    }
+  };
+
+  const handlePersist = async () => {
+    await requestPersistentStorage();
+    await refreshStorageSummary();
+  };
+
+  const usagePercent =
+    summary?.usage !== undefined && summary.quota ? Math.min(100, (summary.usage / summary.quota) * 100) : null;
+
+  return (
+    <div className="rounded-3xl border border-[color:var(--stroke)] bg-white/80 p-5 shadow-[0_24px_45px_-36px_rgba(95,75,60,0.5)] lg:p-6">
+      <h3 className="mb-3 text-sm font-bold uppercase tracking-[0.18em] text-[color:var(--ink-muted)]">
+        Storage on this device
+      </h3>
+
+      {summary ? (
+        <>
+          <div className="text-xs text-[color:var(--ink-muted)]">
+            {usagePercent !== null ? (
+              <>
+                <p>
+                  <span className="font-semibold text-[color:var(--ink-strong)]">{formatBytes(summary.usage)}</span>{" "}
+                  used of {formatBytes(summary.quota)} available to the app
+                </p>
+                <div
+                  className="mt-2 h-1.5 overflow-hidden rounded-full bg-[#f2e7d8]"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(usagePercent)}
+                >
+                  <div className="h-full rounded-full bg-[#c27a2f]" style={{ width: `${usagePercent}%` }} />
+                </div>
+              </>
+            ) : (
+              <p>This browser does not report how much space the app uses.</p>
+            )}
+            <p className="mt-3 flex flex-wrap items-center gap-2">
+              {summary.persisted ? (
+                <span className="font-semibold text-[#2c7f68]">Kept when the device runs low on space</span>
+              ) : (
+                <>
+                  <span>The browser may clear this data when the device runs low on space.</span>
+                  <button
+                    type="button"
+                    onClick={() => void handlePersist()}
+                    className="rounded-full border border-[#2c7f68] px-2.5 py-1 font-semibold text-[#2c7f68] hover:bg-[#eef7f2]"
+                  >
+                    Keep my data
+                  </button>
+                </>
+              )}
+            </p>
+          </div>
+
+          <ul className="mt-4 divide-y divide-[#f2e7d8] text-sm">
+            {CATEGORIES.map(({ key, label, clearLabel, describe }) => (
+              <li key={key} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                <div>
+                  <p className="font-semibold text-[color:var(--ink-strong)]">{label}</p>
+                  <p className="text-xs text-[color:var(--ink-muted)]">{describe(summary)}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => void handleClear(key)}
+                  disabled={clearing !== null || (key === "tracks" && job.state === "running")}
+                  className="rounded-full border border-[color:var(--stroke)] bg-white px-3 py-1.5 text-xs font-semibold text-[color:var(--ink-muted)] hover:bg-[#ffeeda] disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {clearing === key ? "Clearing…" : clearLabel}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <p className="text-xs text-[color:var(--ink-muted)]">Measuring…</p>
+      )}
+    </div>
+  );
+};
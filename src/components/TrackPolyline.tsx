@@ -1,38 +1,28 @@
 // TrackPolyline.tsx
 import React, { useMemo } from "react";
 import { Polyline } from "react-leaflet";
+import { splitTrackAt, type TrackPosition, type TrackProfile } from "@/lib/map/track";
 
 export interface TrackPolylineProps {
-  routePoints: [number, number][];
-  livePosition?: { lat: number; lon: number } | null;
+  profile: TrackProfile | null;
+  /** Live position matched onto the profile */
+  position?: TrackPosition | null;
 }
 
 /**
  * Renders passed and remaining track segments as separate polylines.
- * - Passed: solid line up to current live position.
- * - Remaining: dashed line from live position to end.
+ * - Passed: solid line up to the snapped live position.
+ * - Remaining: dashed line from the snapped position to the end.
  */
 export const TrackPolyline: React.FC<TrackPolylineProps> = ({
-  routePoints,
-  livePosition,
+  profile,
+  position,
 }) => {
   const [passedTrackPoints, remainingTrackPoints] = useMemo(() => {
-    if (!livePosition || !routePoints.length) return [[], []];
-    const { lat, lon } = livePosition;
-    let minIdx = 0;
-    let minDist = Number.POSITIVE_INFINITY;
-    routePoints.forEach(([ptLat, ptLon], idx) => {
-      const d = Math.hypot(ptLat - lat, ptLon - lon);
-      if (d < minDist) {
-        minDist = d;
-        minIdx = idx;
-      }
-    });
-    return [
-      routePoints.slice(0, minIdx + 1),
-      routePoints.slice(minIdx),
-    ];
-  }, [livePosition, routePoints]);
+    if (!profile) return [[], []];
+    if (!position) return [[], profile.points];
+    return splitTrackAt(profile, position);
+  }, [profile, position]);
 
   return (
     <>
@@ -63,4 +53,4 @@ export const TrackPolyline: React.FC<TrackPolylineProps> = ({
       )}
     </>
   );
-};
\ No newline at end of file
+};
@@ -1,6 +1,11 @@
 import { StationDetails, TrainStop, TrainWithRoute } from "@/types";
-import { getTrainUniqueKey } from "@/lib/train";
-import { useRelatedTrains } from "@/hooks/useTrainData";
+import { describeStopPrediction, getTrainUniqueKey } from "@/lib/train";
+import type { StopPrediction, TrainPrediction } from "@/lib/train";
+import type { TrackProgress } from "@/lib/map/track";
+import { useRelatedTrains, useWatchlist } from "@/hooks/useTrainData";
+import { getWatchId } from "@/services/watchlist";
+import { useTrainPrediction } from "@/hooks/useTrainPrediction";
+import { useTrackProfile, useTrackProgress } from "@/hooks/useTrackProfile";
 import {
   formatLateBy,
   formatRelativeTime,
@@ -8,11 +13,11 @@ import {
   formatTime,
   formatDistance,
   calculateDistance,
-  calculateExpectedArrival,
   formatDuration,
 } from "@/utils/time";
 import { useEffect, useRef, FC, ReactNode } from "react";
 import { StatusChip } from "./StatusChip";
+import { WatchButton } from "./WatchButton";
 
 // Define theme constants for better maintainability
 const THEME = {
@@ -67,6 +72,8 @@ interface TrainDetailsProps {
   onSelectRun?: (trainId: string, runId: string) => void;
   showRelatedTrains?: boolean;
   onToggleRelatedTrains?: () => void;
+  /** Timestamp used instead of the wall clock (e.g. the replay cursor) */
+  referenceTime?: number;
 }
 
 interface InfoCardProps {
@@ -167,12 +174,24 @@ const getStopState = (
 /**
  * Custom hook to calculate upcoming stop information
  * @param train - Train with route information
+ * @param prediction - Predicted remaining stops of the train
+ * @param trackProgress - Along-track distances, when the track geometry is known
+ * @param referenceTime - Timestamp to estimate from (defaults to now)
  * @returns Object with distance and arrival estimate
  */
-const useUpcomingStopInfo = (train: TrainWithRoute) => {
+const useUpcomingStopInfo = (
+  train: TrainWithRoute,
+  prediction: TrainPrediction | null,
+  trackProgress: TrackProgress | null,
+  referenceTime?: number
+) => {
   const live = train.livePosition;
+  const alongTrackKm = train.upcomingStop
+    ? trackProgress?.toStationKm.get(train.upcomingStop.StationId)
+    : undefined;
   const upcomingDistanceKm =
-    live &&
+    alongTrackKm ??
+    (live &&
     train.upcomingStop &&
     train.upcomingStop.Latitude != null &&
     train.upcomingStop.Longitude != null
@@ -182,14 +201,17 @@ const useUpcomingStopInfo = (train: TrainWithRoute) => {
           train.upcomingStop.Latitude,
           train.upcomingStop.Longitude
         )
-      : null;
+      : null);
+  const isAlongTrack = alongTrackKm !== undefined;
 
-  const upcomingArrivalEstimate =
-    upcomingDistanceKm != null
-      ? calculateExpectedArrival(upcomingDistanceKm, live?.speed ?? null)
-      : null;
+  const upcomingPrediction = train.upcomingStop
+    ? prediction?.byStationId.get(train.upcomingStop.StationId)
+    : undefined;
+  const upcomingArrivalEstimate = upcomingPrediction
+    ? describeStopPrediction(upcomingPrediction, referenceTime)
+    : null;
 
-  return { upcomingDistanceKm, upcomingArrivalEstimate };
+  return { upcomingDistanceKm, isAlongTrack, upcomingArrivalEstimate };
 };
 
 // --- Sub-components for a Cleaner Structure ---
@@ -441,8 +463,14 @@ const TrainHeader: FC<{ train: TrainWithRoute }> = ({ train }) => {
 };
 
 // Component to display upcoming stop information
-const UpcomingStopCard: FC<{ train: TrainWithRoute }> = ({ train }) => {
-  const { upcomingDistanceKm, upcomingArrivalEstimate } = useUpcomingStopInfo(train);
+const UpcomingStopCard: FC<{
+  train: TrainWithRoute;
+  prediction: TrainPrediction | null;
+  trackProgress: TrackProgress | null;
+  referenceTime?: number;
+}> = ({ train, prediction, trackProgress, referenceTime }) => {
+  const { upcomingDistanceKm, isAlongTrack, upcomingArrivalEstimate } =
+    useUpcomingStopInfo(train, prediction, trackProgress, referenceTime);
   const live = train.livePosition;
 
   if (!train.upcomingStop) {
@@ -498,12 +526,19 @@ const UpcomingStopCard: FC<{ train: TrainWithRoute }> = ({ train }) => {
                   : "Awaiting telemetry"}
               </span>
             </div>
+            {upcomingArrivalEstimate && (
+              <span className="text-[11px] text-[color:var(--ink-muted)]">
+                Likely between {upcomingArrivalEstimate.rangeLabel} ·{" "}
+                {upcomingArrivalEstimate.confidence} confidence
+              </span>
+            )}
           </div>
           {upcomingDistanceKm != null && (
             <div className="mt-4 flex flex-wrap gap-2 text-[11px] font-semibold text-[#3b6f8e]">
               <span className="inline-flex items-center gap-1 rounded-full bg-[#e4f1f9] px-2.5 py-1 ring-1 ring-[#c9dfed]">
-                <span>Distance</span>
+                <span>{isAlongTrack ? "By track" : "Distance"}</span>
                 <span className="text-[#2c7f68]">
+                  {isAlongTrack ? "" : "~"}
                   {formatDistance(upcomingDistanceKm)}
                 </span>
               </span>
@@ -553,7 +588,11 @@ const UpcomingStopCard: FC<{ train: TrainWithRoute }> = ({ train }) => {
 };
 
 // Component to display live telemetry
-const LiveTelemetryCard: FC<{ train: TrainWithRoute }> = ({ train }) => {
+const LiveTelemetryCard: FC<{
+  train: TrainWithRoute;
+  trackProgress: TrackProgress | null;
+  referenceTime?: number;
+}> = ({ train, trackProgress, referenceTime }) => {
   const live = train.livePosition;
 
   if (!live) {
@@ -601,9 +640,37 @@ const LiveTelemetryCard: FC<{ train: TrainWithRoute }> = ({ train }) => {
         <div className="flex items-center justify-between">
           <span className="font-medium">Last telemetry update</span>
           <span className="font-semibold">
-            {formatRelativeTime(live.lastUpdated)}
+            {formatRelativeTime(live.lastUpdated, referenceTime)}
           </span>
         </div>
+        {trackProgress && (
+          <div className="mt-2 space-y-1.5 border-t border-emerald-200 pt-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">Journey progress</span>
+              <span className="font-semibold">
+                {formatDistance(trackProgress.travelledKm)} of{" "}
+                {formatDistance(trackProgress.totalKm)}
+              </span>
+            </div>
+            <div className="h-1.5 w-full overflow-hidden rounded-full bg-emerald-200/70">
+              <div
+                className="h-full rounded-full bg-emerald-500 transition-[width] duration-500"
+                style={{
+                  width: `${Math.min(
+                    100,
+                    (trackProgress.travelledKm / Math.max(trackProgress.totalKm, 1)) * 100
+                  )}%`,
+                }}
+              />
+            </div>
+            <div className="flex items-center justify-between text-[11px] text-emerald-700/80">
+              <span>To destination by track</span>
+              <span className="font-semibold">
+                {formatDistance(trackProgress.remainingKm)}
+              </span>
+            </div>
+          </div>
+        )}
         {live.trainNumber != null && (
           <div className="mt-2 flex items-center justify-between border-t border-emerald-200 pt-2">
             <span className="font-medium">Telemetry train #</span>
@@ -622,7 +689,24 @@ const RouteStop: FC<{
   index: number;
   isLast: boolean;
   stopRefs: React.MutableRefObject<Map<string, HTMLDivElement>>;
-}> = ({ train, stop, index, isLast, stopRefs }) => {
+  prediction?: StopPrediction;
+  /** Distance along the track from the live position, when known */
+  alongTrackKm?: number;
+  referenceTime?: number;
+  isWatched?: boolean;
+  onToggleWatch?: (stop: TrainStop) => void;
+}> = ({
+  train,
+  stop,
+  index,
+  isLast,
+  stopRefs,
+  prediction,
+  alongTrackKm,
+  referenceTime,
+  isWatched = false,
+  onToggleWatch,
+}) => {
   const state = getStopState(train, stop, index);
   const stopKey = `${train.TrainId}-${stop.StationId}-${stop.OrderNumber}`;
   const isPassed = state === "passed";
@@ -630,9 +714,14 @@ const RouteStop: FC<{
 
   // Calculate distance and expected arrival for upcoming stops
   let distanceKm: number | null = null;
-  let expectedArrival: ReturnType<typeof calculateExpectedArrival> = null;
+  const expectedArrival =
+    prediction && !isPassed
+      ? describeStopPrediction(prediction, referenceTime)
+      : null;
 
-  if (
+  if (train.livePosition && !isPassed && alongTrackKm !== undefined) {
+    distanceKm = alongTrackKm;
+  } else if (
     train.livePosition &&
     !isPassed &&
     stop.Latitude &&
@@ -644,11 +733,6 @@ const RouteStop: FC<{
       stop.Latitude,
       stop.Longitude
     );
-
-    expectedArrival = calculateExpectedArrival(
-      distanceKm,
-      train.livePosition.speed
-    );
   }
 
   return (
@@ -674,6 +758,13 @@ const RouteStop: FC<{
           {state === "current" && (
             <div className="shrink-0 w-1.5 lg:w-2 h-1.5 lg:h-2 bg-emerald-500 rounded-full animate-pulse"></div>
           )}
+          {!isPassed && onToggleWatch && (
+            <WatchButton
+              isWatching={isWatched}
+              onToggle={() => onToggleWatch(stop)}
+              stationName={stop.StationName}
+            />
+          )}
           {isPassed && (
             <svg
               className="h-3.5 w-3.5 shrink-0 text-neutral-900 lg:h-4 lg:w-4"
@@ -758,15 +849,11 @@ const RouteStop: FC<{
                       {expectedArrival.durationLabel}
                     </span>
                   </div>
+                  <div className="text-center text-[9px] text-[color:var(--ink-muted)]">
+                    {expectedArrival.rangeLabel} · {expectedArrival.confidence}
+                  </div>
                 </>
               )}
-              {!expectedArrival &&
-                train.livePosition.speed &&
-                train.livePosition.speed < 5 && (
-                  <div className="text-[9px] text-amber-600 italic text-center">
-                    Too slow for estimate
-                  </div>
-                )}
             </div>
           )}
       </div>
@@ -794,7 +881,14 @@ const RouteStop: FC<{
 };
 
 // Component to display the route schedule timeline
-const RouteSchedule: FC<{ train: TrainWithRoute }> = ({ train }) => {
+const RouteSchedule: FC<{
+  train: TrainWithRoute;
+  prediction: TrainPrediction | null;
+  trackProgress: TrackProgress | null;
+  referenceTime?: number;
+}> = ({ train, prediction, trackProgress, referenceTime }) => {
+  const { watches, toggleWatch } = useWatchlist();
+  const trainKey = getTrainUniqueKey(train);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const stopRefs = useRef<Map<string, HTMLDivElement>>(new Map());
 
@@ -873,6 +967,11 @@ const RouteSchedule: FC<{ train: TrainWithRoute }> = ({ train }) => {
                 index={index}
                 isLast={index === train.route.length - 1}
                 stopRefs={stopRefs}
+                prediction={prediction?.byStationId.get(stop.StationId)}
+                alongTrackKm={trackProgress?.toStationKm.get(stop.StationId)}
+                referenceTime={referenceTime}
+                isWatched={watches.has(getWatchId(trainKey, stop.StationId))}
+                onToggleWatch={(watchedStop) => toggleWatch(train, watchedStop)}
               />
             ))}
           </div>
@@ -890,8 +989,12 @@ export const TrainDetails = ({
   onSelectRun,
   showRelatedTrains = false,
   onToggleRelatedTrains,
+  referenceTime,
 }: TrainDetailsProps) => {
   const relatedTrains = useRelatedTrains(train);
+  const { profile: trackProfile } = useTrackProfile(train?.TrainId);
+  const trackProgress = useTrackProgress(train, trackProfile);
+  const prediction = useTrainPrediction(train, referenceTime, trackProgress);
 
   if (!train) {
     return <NoTrainSelected />;
@@ -995,7 +1098,7 @@ export const TrainDetails = ({
                         d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
                       />
                     </svg>
-                    {formatRelativeTime(run.lastUpdated)}
+                    {formatRelativeTime(run.lastUpdated, referenceTime)}
                   </div>
                 </button>
               ))}
@@ -1032,7 +1135,12 @@ export const TrainDetails = ({
             </svg>
           }
         >
-          <UpcomingStopCard train={train} />
+          <UpcomingStopCard
+            train={train}
+            prediction={prediction}
+            trackProgress={trackProgress}
+            referenceTime={referenceTime}
+          />
         </InfoCard>
 
         <InfoCard
@@ -1055,12 +1163,21 @@ export const TrainDetails = ({
             </svg>
           }
         >
-          <LiveTelemetryCard train={train} />
+          <LiveTelemetryCard
+            train={train}
+            trackProgress={trackProgress}
+            referenceTime={referenceTime}
+          />
         </InfoCard>
       </section>
 
       {/* Route Schedule Timeline */}
-      <RouteSchedule train={train} />
+      <RouteSchedule
+        train={train}
+        prediction={prediction}
+        trackProgress={trackProgress}
+        referenceTime={referenceTime}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -1,7 +1,10 @@
 import type { TrainWithRoute } from '@/types';
 import { formatLateBy, formatRelativeTime, formatSpeed } from '@/utils/time';
 import { StatusChip } from './StatusChip';
+import { FavouriteButton } from './FavouriteButton';
 import { getTrainUniqueKey } from '@/lib/train';
+import { useFavourites } from '@/hooks/useTrainData';
+import { partitionFavouriteTrains } from '@/services/favourites';
 
 interface TrainListProps {
   trains: TrainWithRoute[];
@@ -19,131 +22,114 @@ interface TrainListProps {
 
 /**
  * Renders a list of trains with live status and selection.
+ * Favourite trains are listed first under "My trains".
  * Optimized for performance and maintainability.
  */
-import React from "react";
+import React, { useCallback, useMemo } from "react";
 
 const TrainRow = React.memo(
   ({
     train,
     uniqueKey,
     isSelected,
+    isFavourite,
     onSelect,
+    onToggleFavourite,
   }: {
     train: TrainWithRoute;
     uniqueKey: string;
     isSelected: boolean;
+    isFavourite: boolean;
     onSelect: (trainId: string) => void;
+    onToggleFavourite: (train: TrainWithRoute) => void;
   }) => {
     const live = train.livePosition;
     return (
-      <button
-        key={uniqueKey}
-        type="button"
-        onClick={() => onSelect(uniqueKey)}
-        className={`group relative w-full border-b border-[#f0e4d4] px-5 py-3 text-left transition-all hover:bg-[#f3efe6] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[#cde5db] ${
-          isSelected ? "bg-[#f3efe6] shadow-inner ring-1 ring-[#b9e0d0]" : ""
-        }`}
-      >
-        {/* Train Name & Number */}
-        <div className="mb-2 flex items-start justify-between gap-2">
-          <div className="min-w-0 flex-1">
-            <h3
-              className={`truncate text-sm font-bold ${
-                isSelected
-                  ? "text-[#2c7f68]"
-                  : "text-[color:var(--ink-strong)]"
-              } group-hover:text-[#2c7f68]`}
-            >
-              {train.TrainName}
-            </h3>
-            <p className="truncate text-xs text-neutral-400">
-              {train.TrainDescription || "No description"}
-            </p>
-          </div>
-          {live && <StatusChip variant="live" label="Live" />}
-        </div>
-
-        {/* Train Info */}
-        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-[color:var(--ink-muted)]">
-          {/* Next Station */}
-          {train.upcomingStop && (
-            <span className="flex items-center gap-1 text-[color:var(--ink-strong)]">
-              <svg
-                className="h-3.5 w-3.5 text-[#2c7f68]"
-                fill="currentColor"
-                viewBox="0 0 20 20"
+      <div className="relative">
+        <button
+          key={uniqueKey}
+          type="button"
+          onClick={() => onSelect(uniqueKey)}
+          className={`group relative w-full border-b border-[#f0e4d4] py-3 pl-5 pr-14 text-left transition-all hover:bg-[#f3efe6] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[#cde5db] ${
+            isSelected ? "bg-[#f3efe6] shadow-inner ring-1 ring-[#b9e0d0]" : ""
+          }`}
+        >
+          {/* Train Name & Number */}
+          <div className="mb-2 flex items-start justify-between gap-2">
+            <div className="min-w-0 flex-1">
+              <h3
+                className={`truncate text-sm font-bold ${
+                  isSelected
+                    ? "text-[#2c7f68]"
+                    : "text-[color:var(--ink-strong)]"
+                } group-hover:text-[#2c7f68]`}
               >
-                <path
-                  fillRule="evenodd"
-                  d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z"
-                  clipRule="evenodd"
-                />
-              </svg>
-              <span className="max-w-[140px] truncate font-medium">
-                {train.upcomingStop.StationName}
-              </span>
-            </span>
-          )}
+                {train.TrainName}
+              </h3>
+              <p className="truncate text-xs text-neutral-400">
+                {train.TrainDescription || "No description"}
+              </p>
+            </div>
+            {live && <StatusChip variant="live" label="Live" />}
+          </div>
 
-          {/* Live Data */}
-          {live && (
-            <>
+          {/* Train Info */}
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-[color:var(--ink-muted)]">
+            {/* Next Station */}
+            {train.upcomingStop && (
               <span className="flex items-center gap-1 text-[color:var(--ink-strong)]">
-                <span
-                  className="emoji-badge h-7 w-7 text-sm"
-                  data-tone="emerald"
-                  aria-hidden="true"
+                <svg
+                  className="h-3.5 w-3.5 text-[#2c7f68]"
+                  fill="currentColor"
+                  viewBox="0 0 20 20"
                 >
-                  <svg
-                    className="h-5 w-5"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M13 10V3L4 14h7v7l9-11h-7z"
-                    />
-                  </svg>
+                  <path
+                    fillRule="evenodd"
+                    d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z"
+                    clipRule="evenodd"
+                  />
+                </svg>
+                <span className="max-w-[140px] truncate font-medium">
+                  {train.upcomingStop.StationName}
                 </span>
-                <span className="font-semibold">{formatSpeed(live.speed)}</span>
               </span>
-              <span
-                className={`flex items-center gap-1 font-semibold ${
-                  (live.lateBy ?? 0) > 0
-                    ? "text-[#b15b62]"
-                    : "text-[#2c7f68]"
-                }`}
-              >
-                <span
-                  className="emoji-badge h-7 w-7 text-sm"
-                  data-tone={(live.lateBy ?? 0) > 0 ? "rose" : "emerald"}
-                  aria-hidden="true"
-                >
-                  <svg
-                    className="h-5 w-5"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
+            )}
+
+            {/* Live Data */}
+            {live && (
+              <>
+                <span className="flex items-center gap-1 text-[color:var(--ink-strong)]">
+                  <span
+                    className="emoji-badge h-7 w-7 text-sm"
+                    data-tone="emerald"
+                    aria-hidden="true"
                   >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
-                    />
-                  </svg>
+                    <svg
+                      className="h-5 w-5"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M13 10V3L4 14h7v7l9-11h-7z"
+                      />
+                    </svg>
+                  </span>
+                  <span className="font-semibold">{formatSpeed(live.speed)}</span>
                 </span>
-                <span>{formatLateBy(live.lateBy)}</span>
-              </span>
-              {live.lastUpdated && (
-                <span className="flex items-center gap-1 text-[color:var(--ink-muted)]">
+                <span
+                  className={`flex items-center gap-1 font-semibold ${
+                    (live.lateBy ?? 0) > 0
+                      ? "text-[#b15b62]"
+                      : "text-[#2c7f68]"
+                  }`}
+                >
                   <span
                     className="emoji-badge h-7 w-7 text-sm"
-                    data-tone="slate"
+                    data-tone={(live.lateBy ?? 0) > 0 ? "rose" : "emerald"}
                     aria-hidden="true"
                   >
                     <svg
@@ -160,13 +146,43 @@ const TrainRow = React.memo(
                       />
                     </svg>
                   </span>
-                  <span>{formatRelativeTime(live.lastUpdated)}</span>
+                  <span>{formatLateBy(live.lateBy)}</span>
                 </span>
-              )}
-            </>
-          )}
-        </div>
-      </button>
+                {live.lastUpdated && (
+                  <span className="flex items-center gap-1 text-[color:var(--ink-muted)]">
+                    <span
+                      className="emoji-badge h-7 w-7 text-sm"
+                      data-tone="slate"
+                      aria-hidden="true"
+                    >
+                      <svg
+                        className="h-5 w-5"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                        />
+                      </svg>
+                    </span>
+                    <span>{formatRelativeTime(live.lastUpdated)}</span>
+                  </span>
+                )}
+              </>
+            )}
+          </div>
+        </button>
+        <FavouriteButton
+          isFavourite={isFavourite}
+          onToggle={() => onToggleFavourite(train)}
+          name={train.TrainName}
+          className="absolute right-4 top-1/2 -translate-y-1/2"
+        />
+      </div>
     );
   }
 );
@@ -176,6 +192,31 @@ TrainRow.displayName = "TrainRow";
 export const TrainList: React.FC<TrainListProps> = React.memo(
   ({ trains, selectedTrainId, onSelect }) => {
     const liveCount = trains.filter((train) => Boolean(train.livePosition)).length;
+    const { favouriteTrainIds, toggleFavourite } = useFavourites();
+    const favouriteSet = useMemo(() => new Set(favouriteTrainIds), [favouriteTrainIds]);
+    const { favourites, others } = useMemo(
+      () => partitionFavouriteTrains(trains, favouriteTrainIds),
+      [trains, favouriteTrainIds]
+    );
+    const handleToggleFavourite = useCallback(
+      (train: TrainWithRoute) => toggleFavourite("train", train.TrainId, train.TrainName),
+      [toggleFavourite]
+    );
+
+    const renderRow = (train: TrainWithRoute) => {
+      const uniqueKey = getTrainUniqueKey(train);
+      return (
+        <TrainRow
+          key={uniqueKey}
+          train={train}
+          uniqueKey={uniqueKey}
+          isSelected={uniqueKey === selectedTrainId}
+          isFavourite={favouriteSet.has(train.TrainId)}
+          onSelect={onSelect}
+          onToggleFavourite={handleToggleFavourite}
+        />
+      );
+    };
 
     return (
       <div className="flex h-full min-h-[360px] flex-col overflow-hidden rounded-3xl border border-[color:var(--stroke)] bg-[#fffaf3]/85 shadow-[0_28px_60px_-48px_rgba(95,75,60,0.65)] backdrop-blur">
@@ -197,18 +238,20 @@ export const TrainList: React.FC<TrainListProps> = React.memo(
 
         {/* Train List */}
         <div className="flex-1 overflow-y-auto">
-          {trains.map((train) => {
-            const uniqueKey = getTrainUniqueKey(train);
-            return (
-              <TrainRow
-                key={uniqueKey}
-                train={train}
-                uniqueKey={uniqueKey}
-                isSelected={uniqueKey === selectedTrainId}
-                onSelect={onSelect}
-              />
-            );
-          })}
+          {favourites.length > 0 && (
+            <>
+              <p className="sticky top-0 z-10 border-b border-[#f0e4d4] bg-[#fff4e4] px-5 py-2 text-[11px] font-semibold uppercase tracking-[0.22em] text-amber-700">
+                My trains
+              </p>
+              {favourites.map(renderRow)}
+              {others.length > 0 && (
+                <p className="border-b border-[#f0e4d4] bg-[#fffaf3] px-5 py-2 text-[11px] font-semibold uppercase tracking-[0.22em] text-[color:var(--ink-muted)]">
+                  All trains
+                </p>
+              )}
+            </>
+          )}
+          {others.map(renderRow)}
 
           {/* Empty State */}
           {trains.length === 0 && (
@@ -0,0 +1,228 @@
+import { useMemo, useState } from "react";
+import type { LiveTrainDelta, StationDetails, TrainWithRoute } from "@/types";
+import { useUnresolvedDeltas } from "@/hooks/useTrainData";
+import { getTrainUniqueKey, toLocalDateKey } from "@/lib/train";
+import type { TrainIndex } from "@/lib/train";
+import { matchLiveDelta } from "@/services/liveData";
+import type { MatchExplanation, MatchReason, RankedMatch } from "@/services/liveData";
+import { formatLateBy, formatRelativeTime, formatSpeed } from "@/utils/time";
+
+interface UnresolvedDeltasPanelProps {
+  trains: TrainWithRoute[];
+  stationLookup: Map<number, StationDetails>;
+}
+
+/** Candidates listed per delta */
+const CANDIDATE_LIMIT = 5;
+
+const REASON_LABELS: Record<MatchReason, string> = {
+  locomotive: "Locomotive",
+  nextStation: "Next station on route",
+  prevStation: "Previous station on route",
+  stationOrder: "Station order",
+  direction: "Direction",
+  nextStopName: "Next stop name",
+  trainNameHint: "Name hint",
+};
+
+const CRITERION_LABELS: Record<NonNullable<MatchExplanation["criterion"]>, string> = {
+  segment: "position on route",
+  date: "allocated date",
+  schedule: "schedule fit",
+};
+
+const describeExplanation = (explanation: MatchExplanation) => {
+  switch (explanation.method) {
+    case "ambiguous":
+      return `${explanation.tiedTrainIds?.length ?? 0} trains tie on every piece of evidence`;
+    case "tieBreak":
+      return `Tie broken on ${explanation.criterion ? CRITERION_LABELS[explanation.criterion] : "evidence"}`;
+    default:
+      return null;
+  }
+};
+
+const describeEvidence = ({ evidence }: RankedMatch) =>
+  [
+    evidence.segmentOffsetKm != null && `${evidence.segmentOffsetKm} km off segment`,
+    evidence.scheduleDeviationMinutes != null &&
+      (evidence.scheduleDeviationMinutes === 0
+        ? "on schedule"
+        : `${evidence.scheduleDeviationMinutes} min off schedule`),
+    evidence.impliedDate &&
+      `runs ${evidence.impliedDate}${evidence.dateMatches == null ? "" : evidence.dateMatches ? " ✓" : " ✗"}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const describeTrain = (train: TrainWithRoute) =>
+  `${train.TrainName} (${train.TrainNumber})` +
+  (train.AllocatedDate ? ` · ${toLocalDateKey(Date.parse(train.AllocatedDate))}` : "");
+
+const stationName = (stationLookup: Map<number, StationDetails>, stationId: number | null) =>
+  stationId == null ? "—" : stationLookup.get(stationId)?.StationName ?? `#${stationId}`;
+
+const UnresolvedDeltaCard = ({
+  delta,
+  trains,
+  trainIndex,
+  stationLookup,
+  onBind,
+}: UnresolvedDeltasPanelProps & {
+  delta: LiveTrainDelta;
+  trainIndex: TrainIndex;
+  onBind: (trainKey: string) => void;
+}) => {
+  const [manualValue, setManualValue] = useState("");
+  // Matching reads only the static timetable, so it is redone when the dataset
+  // (and with it the index) changes, not on every live patch
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const match = useMemo(() => matchLiveDelta(trains, delta), [trainIndex, delta]);
+  const candidates = match.ranked.slice(0, CANDIDATE_LIMIT);
+  const explanation = describeExplanation(match.explanation);
+
+  // Typed values are tried as a train number first, then as a TrainId; a
+  // multi-day service offers one entry per allocated date
+  const manualTargets = useMemo(() => {
+    const value = Number(manualValue.trim());
+    if (!manualValue.trim() || !Number.isFinite(value)) return [];
+    const byNumber = trains.filter((train) => train.TrainNumber === value);
+    return byNumber.length > 0 ? byNumber : trains.filter((train) => train.TrainId === value);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [manualValue, trainIndex]);
+  const [manualTarget] = manualTargets;
+
+  return (
+    <li className="rounded-2xl border border-[color:var(--stroke)] bg-white/90 p-4 shadow-sm">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <div className="font-mono text-sm font-semibold text-[color:var(--ink-strong)]">
+            {delta.trainKey} · {delta.variantKey}
+          </div>
+          <div className="mt-0.5 text-xs text-[color:var(--ink-muted)]">
+            Train no. {delta.trainNumber ?? "—"} · Loco {delta.locomitiveNo ?? "—"} · {delta.direction}
+          </div>
+        </div>
+        <div className="text-right text-xs text-[color:var(--ink-muted)]">
+          <div>{formatRelativeTime(delta.lastUpdated)}</div>
+          <div>
+            {formatSpeed(delta.speed)} · {formatLateBy(delta.lateBy)}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-2 text-xs text-neutral-700">
+        {stationName(stationLookup, delta.prevStationId)} → {stationName(stationLookup, delta.nextStationId)}
+        {delta.nextStopName && (
+          <span className="text-[color:var(--ink-muted)]"> (next stop "{delta.nextStopName}")</span>
+        )}
+      </div>
+
+      <div className="mt-3">
+        <div className="mb-1 text-[10px] font-semibold uppercase tracking-wide text-[color:var(--ink-muted)]">
+          Candidates
+        </div>
+        {explanation && <p className="mb-1.5 text-xs text-[color:var(--ink-muted)]">{explanation}.</p>}
+        {candidates.length > 0 ? (
+          <ul className="space-y-1.5">
+            {candidates.map((candidate) => (
+              <li key={getTrainUniqueKey(candidate.train)} className="flex items-center justify-between gap-2 text-xs">
+                <span className="min-w-0">
+                  <span className="font-medium text-[color:var(--ink-strong)]">{describeTrain(candidate.train)}</span>
+                  <span className="ml-2 text-[color:var(--ink-muted)]">
+                    {candidate.score} · {candidate.reasons.map((reason) => REASON_LABELS[reason]).join(", ")}
+                  </span>
+                  <span className="block text-[color:var(--ink-muted)]">{describeEvidence(candidate)}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onBind(getTrainUniqueKey(candidate.train))}
+                  className="shrink-0 rounded-full bg-[#2c7f68] px-2.5 py-1 font-semibold text-white hover:bg-[#24695a]"
+                >
+                  Bind
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-[color:var(--ink-muted)]">
+            No train shares any evidence with this feed
+            {delta.trainNumber != null && ` and no train is numbered ${delta.trainNumber}`}.
+          </p>
+        )}
+      </div>
+
+      <form
+        className="mt-3 flex items-center gap-2 text-xs"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (manualTargets.length === 1) onBind(getTrainUniqueKey(manualTarget));
+        }}
+      >
+        <input
+          value={manualValue}
+          onChange={(event) => setManualValue(event.target.value)}
+          inputMode="numeric"
+          placeholder="Train number or id"
+          className="w-40 rounded-full border border-[color:var(--stroke)] bg-[#fffaf3] px-3 py-1 focus:border-[#2c7f68] focus:outline-none"
+        />
+        {manualTargets.length > 1 ? (
+          manualTargets.map((train) => (
+            <button
+              key={getTrainUniqueKey(train)}
+              type="button"
+              onClick={() => onBind(getTrainUniqueKey(train))}
+              className="rounded-full border border-[#2c7f68] px-2.5 py-1 font-semibold text-[#2c7f68] hover:bg-[#eef7f2]"
+            >
+              Bind to {describeTrain(train)}
+            </button>
+          ))
+        ) : (
+          <button
+            type="submit"
+            disabled={!manualTarget}
+            className="rounded-full border border-[#2c7f68] px-2.5 py-1 font-semibold text-[#2c7f68] disabled:cursor-not-allowed disabled:border-neutral-300 disabled:text-neutral-400"
+          >
+            {manualTarget ? `Bind to ${manualTarget.TrainName}` : "Bind"}
+          </button>
+        )}
+      </form>
+    </li>
+  );
+};
+
+// Live feeds that could not be matched to a train, with the evidence behind each candidate
+export const UnresolvedDeltasPanel = ({ trains, stationLookup }: UnresolvedDeltasPanelProps) => {
+  const { deltas, bindDelta, trainIndex } = useUnresolvedDeltas();
+  const sorted = useMemo(
+    () => [...deltas].sort((a, b) => b.lastUpdated - a.lastUpdated),
+    [deltas]
+  );
+
+  return (
+    <section className="rounded-3xl border border-[color:var(--stroke)] bg-white/80 p-5 shadow-[0_24px_45px_-36px_rgba(95,75,60,0.5)] lg:p-6">
+      <h3 className="mb-1 text-sm font-bold uppercase tracking-[0.18em] text-[color:var(--ink-muted)]">
+        Unresolved feeds ({sorted.length})
+      </h3>
+      <p className="mb-4 text-xs text-[color:var(--ink-muted)]">
+        Binding a feed to a train is remembered on this device and applies to every later update with the same key.
+      </p>
+      {sorted.length > 0 ? (
+        <ul className="grid gap-3 lg:grid-cols-2">
+          {sorted.map((delta) => (
+            <UnresolvedDeltaCard
+              key={delta.id}
+              delta={delta}
+              trains={trains}
+              trainIndex={trainIndex}
+              stationLookup={stationLookup}
+              onBind={(trainKey) => bindDelta(delta.id, trainKey)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-[color:var(--ink-muted)]">Every live feed is matched to a train.</p>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,47 @@
+interface WatchButtonProps {
+  isWatching: boolean;
+  onToggle: () => void;
+  stationName: string;
+}
+
+/**
+ * Bell toggle for arrival notifications of a train at a station.
+ */
+export const WatchButton = ({
+  isWatching,
+  onToggle,
+  stationName,
+}: WatchButtonProps) => (
+  <button
+    type="button"
+    onClick={(event) => {
+      event.stopPropagation();
+      onToggle();
+    }}
+    aria-pressed={isWatching}
+    title={
+      isWatching
+        ? `Stop notifications for ${stationName}`
+        : `Notify me about arrival at ${stationName}`
+    }
+    className={`inline-flex h-6 w-6 shrink-0 items-center justify-center rounded-full border transition-colors ${
+      isWatching
+        ? "border-amber-400 bg-amber-100 text-amber-700"
+        : "border-[#e4d7c5] bg-white/70 text-[color:var(--ink-muted)] hover:border-amber-300 hover:text-amber-700"
+    }`}
+  >
+    <svg
+      className="h-3.5 w-3.5"
+      fill={isWatching ? "currentColor" : "none"}
+      viewBox="0 0 24 24"
+      stroke="currentColor"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+      />
+    </svg>
+  </button>
+);
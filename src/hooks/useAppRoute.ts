@@ -0,0 +1,161 @@
+import { useCallback, useMemo } from "react";
+import { matchPath, useLocation, useNavigate } from "react-router-dom";
+import type { TrainFilters } from "@/types";
+import {
+  ROUTE_PATTERNS,
+  buildPlanPath,
+  buildSearchPath,
+  buildStationPath,
+  buildTrainPath,
+  isStationView,
+  parseFiltersFromSearchParams,
+  parsePlanQuery,
+  parseStationId,
+  stationViewToTab,
+  trainKeyFromParams,
+} from "@/lib/routes";
+import type { AppTab, JourneyQuery, StationView } from "@/lib/routes";
+
+export interface AppRoute {
+  tab: AppTab;
+  /** Train unique key from `/train/:trainId/:date` */
+  trainKey?: string;
+  /** Live run pinned with `?run=` on a train route */
+  runId?: string;
+  stationId?: number;
+  stationView?: StationView;
+  /** Filters encoded in the query string of `/search` */
+  filters?: TrainFilters;
+  /** Stations and date encoded in the query string of `/plan` */
+  plan?: JourneyQuery;
+  /** False when the path did not match any known route */
+  isKnown: boolean;
+}
+
+const parseLocation = (pathname: string, search: string): AppRoute => {
+  const params = new URLSearchParams(search);
+
+  if (matchPath(ROUTE_PATTERNS.search, pathname)) {
+    return {
+      tab: "search",
+      filters: parseFiltersFromSearchParams(params),
+      isKnown: true,
+    };
+  }
+
+  if (matchPath(ROUTE_PATTERNS.network, pathname)) {
+    return { tab: "network", isKnown: true };
+  }
+
+  if (matchPath(ROUTE_PATTERNS.diagnostics, pathname)) {
+    return { tab: "diagnostics", isKnown: true };
+  }
+
+  if (matchPath(ROUTE_PATTERNS.settings, pathname)) {
+    return { tab: "settings", isKnown: true };
+  }
+
+  if (matchPath(ROUTE_PATTERNS.plan, pathname)) {
+    return { tab: "plan", plan: parsePlanQuery(params), isKnown: true };
+  }
+
+  const trainMatch = matchPath(ROUTE_PATTERNS.train, pathname);
+  if (trainMatch) {
+    const trainKey = trainKeyFromParams(
+      trainMatch.params.trainId,
+      trainMatch.params.date
+    );
+    return {
+      tab: "details",
+      trainKey,
+      runId: params.get("run") ?? undefined,
+      isKnown: trainKey !== undefined,
+    };
+  }
+
+  const stationMatch = matchPath(ROUTE_PATTERNS.station, pathname);
+  if (stationMatch && isStationView(stationMatch.params.view)) {
+    const stationId = parseStationId(stationMatch.params.stationId);
+    return {
+      tab: stationViewToTab(stationMatch.params.view),
+      stationView: stationMatch.params.view,
+      stationId,
+      isKnown: stationId !== undefined,
+    };
+  }
+
+  const stationListMatch = matchPath(ROUTE_PATTERNS.stationList, pathname);
+  if (stationListMatch && isStationView(stationListMatch.params.view)) {
+    return {
+      tab: stationViewToTab(stationListMatch.params.view),
+      stationView: stationListMatch.params.view,
+      isKnown: true,
+    };
+  }
+
+  return { tab: "search", isKnown: false };
+};
+
+// Custom hook that derives the active view from the URL and navigates between views
+export const useAppRoute = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const route = useMemo(
+    () => parseLocation(location.pathname, location.search),
+    [location.pathname, location.search]
+  );
+
+  const goToSearch = useCallback(
+    (filters?: TrainFilters, options?: { replace?: boolean }) =>
+      navigate(buildSearchPath(filters), options),
+    [navigate]
+  );
+
+  const goToNetwork = useCallback(
+    (options?: { replace?: boolean }) => navigate(ROUTE_PATTERNS.network, options),
+    [navigate]
+  );
+
+  const goToDiagnostics = useCallback(
+    (options?: { replace?: boolean }) => navigate(ROUTE_PATTERNS.diagnostics, options),
+    [navigate]
+  );
+
+  const goToSettings = useCallback(
+    (options?: { replace?: boolean }) => navigate(ROUTE_PATTERNS.settings, options),
+    [navigate]
+  );
+
+  const goToPlan = useCallback(
+    (query?: JourneyQuery, options?: { replace?: boolean }) =>
+      navigate(buildPlanPath(query), options),
+    [navigate]
+  );
+
+  const goToTrain = useCallback(
+    (trainKey: string, runId?: string, options?: { replace?: boolean }) =>
+      navigate(buildTrainPath(trainKey, runId), options),
+    [navigate]
+  );
+
+  const goToStation = useCallback(
+    (
+      view: StationView,
+      stationId?: number | null,
+      options?: { replace?: boolean }
+    ) => navigate(buildStationPath(view, stationId), options),
+    [navigate]
+  );
+
+  return {
+    route,
+    goToSearch,
+    goToNetwork,
+    goToDiagnostics,
+    goToSettings,
+    goToPlan,
+    goToTrain,
+    goToStation,
+  };
+};
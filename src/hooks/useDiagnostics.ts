@@ -0,0 +1,5 @@
+import { useStore } from "zustand";
+import { validationStore } from "@/services/validation";
+
+// Live view of the accepted/rejected record counts kept by the validation service
+export const useValidationReport = () => useStore(validationStore);
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { RunHistoryEntry, TrainWithRoute } from "@/types";
+import { getRunHistory } from "@/services/runHistory";
+import { applyReplayFrameToTrain } from "@/services/liveData";
+import { getTrainUniqueKey } from "@/lib/train";
+
+export const REPLAY_SPEEDS = [1, 10, 60] as const;
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number];
+
+// How often the playback clock advances (in milliseconds of wall time)
+const PLAYBACK_TICK_MS = 250;
+
+export interface ReplayWindow {
+  from: number;
+  to: number;
+}
+
+interface ReplaySession {
+  runId: string;
+  window: ReplayWindow;
+}
+
+// Returns the last breadcrumb at or before the cursor (history is time-ordered)
+const findFrameAt = (
+  history: RunHistoryEntry[],
+  cursor: number
+): RunHistoryEntry | undefined => {
+  if (history.length === 0) return undefined;
+  if (cursor <= history[0].lastUpdated) return history[0];
+
+  let low = 0;
+  let high = history.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (history[mid].lastUpdated <= cursor) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return history[low];
+};
+
+// Custom hook that plays back the recorded breadcrumbs of one run of a train
+export const useJourneyReplay = (train?: TrainWithRoute) => {
+  const [session, setSession] = useState<ReplaySession | null>(null);
+  const [history, setHistory] = useState<RunHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [cursor, setCursor] = useState(0);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const start = useCallback((runId: string, window: ReplayWindow) => {
+    setSession({ runId, window });
+    setCursor(window.from);
+    setIsPlaying(false);
+  }, []);
+
+  const stop = useCallback(() => {
+    setSession(null);
+    setHistory([]);
+    setIsPlaying(false);
+  }, []);
+
+  const seek = useCallback(
+    (timestamp: number) => {
+      if (!session) return;
+      const { from, to } = session.window;
+      setCursor(Math.min(to, Math.max(from, timestamp)));
+    },
+    [session]
+  );
+
+  const play = useCallback(() => {
+    if (!session) return;
+    // Restart from the beginning when playback already reached the end
+    setCursor((current) =>
+      current >= session.window.to ? session.window.from : current
+    );
+    setIsPlaying(true);
+  }, [session]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  // Leave replay mode when a different train, or another date of the same one, is selected
+  const trainKey = train ? getTrainUniqueKey(train) : undefined;
+  useEffect(() => {
+    stop();
+  }, [trainKey, stop]);
+
+  // Load the breadcrumbs of the chosen run
+  useEffect(() => {
+    if (!session) return;
+    let cancelled = false;
+    setIsLoading(true);
+    getRunHistory(session.runId, session.window.from, session.window.to)
+      .then((entries) => {
+        if (!cancelled) setHistory(entries);
+      })
+      .catch((err) => {
+        console.error("Failed to load run history", err);
+        if (!cancelled) setHistory([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  // Advance the replay clock while playing
+  useEffect(() => {
+    if (!session || !isPlaying) return;
+    let lastTick = performance.now();
+    const interval = window.setInterval(() => {
+      const tick = performance.now();
+      const elapsed = tick - lastTick;
+      lastTick = tick;
+      setCursor((current) => {
+        const next = current + elapsed * speed;
+        if (next >= session.window.to) {
+          setIsPlaying(false);
+          return session.window.to;
+        }
+        return next;
+      });
+    }, PLAYBACK_TICK_MS);
+    return () => window.clearInterval(interval);
+  }, [session, isPlaying, speed]);
+
+  const frame = useMemo(
+    () => (session ? findFrameAt(history, cursor) : undefined),
+    [session, history, cursor]
+  );
+
+  const replayedTrain = useMemo(
+    () => (train && frame ? applyReplayFrameToTrain(train, frame) : undefined),
+    [train, frame]
+  );
+
+  return {
+    isActive: session != null,
+    runId: session?.runId,
+    window: session?.window,
+    history,
+    isLoading,
+    cursor,
+    speed,
+    isPlaying,
+    frame,
+    replayedTrain,
+    start,
+    stop,
+    play,
+    pause,
+    seek,
+    setSpeed,
+  };
+};
+
+export type JourneyReplay = ReturnType<typeof useJourneyReplay>;
@@ -0,0 +1,51 @@
+import { useEffect, useMemo, useState } from "react";
+import type { ConnectionStatus, TrainWithRoute } from "@/types";
+
+// Live feed states in which nothing new is arriving
+const UNREACHABLE_STATUSES: ConnectionStatus[] = ["reconnecting", "disconnected", "error"];
+
+export interface OfflineStatus {
+  /** No network, or the live feed cannot be reached: only schedules are current */
+  isOffline: boolean;
+  /** The device itself reports no network */
+  isNetworkDown: boolean;
+  /** When the newest live data on screen was received or reported */
+  lastLiveDataAt?: number;
+}
+
+const readOnline = () => (typeof navigator === "undefined" ? true : navigator.onLine);
+
+// Tracks whether the app is running on schedules only, and how old its live data is
+export const useOfflineStatus = (
+  connectionStatus: ConnectionStatus,
+  lastSocketEvent: number | undefined,
+  trains: TrainWithRoute[]
+): OfflineStatus => {
+  const [isOnline, setIsOnline] = useState(readOnline);
+
+  useEffect(() => {
+    const update = () => setIsOnline(readOnline());
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  // Positions restored from IndexedDB count too, not just this session's socket events
+  const lastLiveDataAt = useMemo(
+    () =>
+      trains.reduce<number | undefined>((latest, train) => {
+        const reportedAt = train.livePosition?.lastUpdated;
+        return reportedAt !== undefined && reportedAt > (latest ?? 0) ? reportedAt : latest;
+      }, lastSocketEvent),
+    [trains, lastSocketEvent]
+  );
+
+  return {
+    isOffline: !isOnline || UNREACHABLE_STATUSES.includes(connectionStatus),
+    isNetworkDown: !isOnline,
+    lastLiveDataAt,
+  };
+};
@@ -0,0 +1,5 @@
+import { useStore } from "zustand";
+import { storageSummaryStore } from "@/services/storage";
+
+// What the app keeps on this device, as last measured for the settings page
+export const useStorageSummary = () => useStore(storageSummaryStore);
@@ -0,0 +1,5 @@
+import { useStore } from "zustand";
+import { trackPrefetchStore } from "@/services/trackPrefetch";
+
+// Live view of the bulk track download, which keeps running across views
+export const useTrackPrefetchJob = () => useStore(trackPrefetchStore);
@@ -0,0 +1,85 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { TrainWithRoute } from "@/types";
+import {
+  matchToTrack,
+  measureTrackProgress,
+  type TrackPosition,
+  type TrackProfile,
+} from "@/lib/map/track";
+import { loadTrackProfile } from "@/services/trackLoader";
+
+// Custom hook that loads the track geometry of a train (cache first, then API)
+export const useTrackProfile = (trainId?: number) => {
+  const [state, setState] = useState<{
+    trainId?: number;
+    profile: TrackProfile | null;
+    isLoading: boolean;
+  }>({ profile: null, isLoading: false });
+
+  useEffect(() => {
+    if (trainId == null) {
+      setState({ profile: null, isLoading: false });
+      return;
+    }
+
+    let cancelled = false;
+    setState({ trainId, profile: null, isLoading: true });
+    loadTrackProfile(trainId)
+      .then((profile) => {
+        if (!cancelled) setState({ trainId, profile, isLoading: false });
+      })
+      .catch(() => {
+        if (!cancelled) setState({ trainId, profile: null, isLoading: false });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trainId]);
+
+  // Never hand out the previous train's geometry while the next one loads
+  return state.trainId === trainId
+    ? state
+    : { trainId, profile: null, isLoading: trainId != null };
+};
+
+// Custom hook that matches the live position of a train onto the track and
+// measures along-track distances from there. The last match of the run is
+// kept so progress stays monotonic between updates.
+export const useTrackProgress = (
+  train?: TrainWithRoute,
+  profile?: TrackProfile | null
+) => {
+  const live = train?.livePosition;
+  const lastMatchRef = useRef<{
+    profile: TrackProfile;
+    runId: string;
+    lastUpdated: number;
+    position: TrackPosition;
+  } | null>(null);
+
+  return useMemo(() => {
+    if (!profile || !live) return null;
+
+    const last = lastMatchRef.current;
+    // A different run, new geometry, or time going backwards (replay scrubbing) starts over
+    const previous =
+      last &&
+      last.profile === profile &&
+      last.runId === live.id &&
+      last.lastUpdated <= live.lastUpdated
+        ? last.position
+        : null;
+
+    const position = matchToTrack(profile, live.lat, live.lon, previous);
+    if (!position) return null;
+
+    lastMatchRef.current = {
+      profile,
+      runId: live.id,
+      lastUpdated: live.lastUpdated,
+      position,
+    };
+    return measureTrackProgress(profile, position);
+  }, [profile, live?.id, live?.lat, live?.lon, live?.lastUpdated]);
+};
@@ -4,169 +4,161 @@ import type { StoreApi } from "zustand";
 import { shallow } from "zustand/shallow";
 import type {
   ConnectionStatus,
+  DatasetSyncStatus,
+  Favourite,
+  FavouriteKind,
   LiveTrainDelta,
   TrainFilters,
+  TrainMapping,
+  TrainStop,
+  TrainWatch,
   TrainWithRoute,
   StationDetails,
 } from "@/types";
 import {
   loadTrainDataset,
   loadTrainDatasetSync,
-  persistTrainSnapshot,
-  stripStaleLiveData,
   STALE_LIVE_RUN_TTL_MS,
-  persistLiveDeltas,
-  pruneStaleDeltasFromDB,
 } from "@/services/dataLoader";
+import {
+  DATASET_MAX_AGE_MS,
+  getDatasetSyncedAt,
+  syncDataset,
+} from "@/services/datasetSync";
+import { carryOverLiveState } from "@/services/liveSnapshot";
 import { connectLiveSocket } from "@/services/socket";
 import {
-  applyRunSelectionToTrain,
-  findMatchingTrainId,
-  updateTrainWithDelta,
-} from "@/services/liveData";
-import { isPassengerTrain, getTrainUniqueKey } from "@/lib/train";
+  createWatch,
+  deleteWatches,
+  evaluateWatches,
+  getWatchId,
+  loadWatches,
+  requestNotificationPermission,
+  saveWatches,
+  showWatchAlert,
+} from "@/services/watchlist";
+import {
+  createFavourite,
+  deleteFavourite,
+  getFavouriteId,
+  getFavouriteTargets,
+  loadFavourites,
+  saveFavourite,
+} from "@/services/favourites";
+import { applyRunSelectionToTrain } from "@/services/liveData";
+import { recordAccepted, recordRejects } from "@/services/validation";
+import {
+  broadcastToTabs,
+  coordinateLiveTabs,
+  type TabRole,
+} from "@/services/tabCoordinator";
+import {
+  createManualMappings,
+  loadTrainMappings,
+  saveTrainMappings,
+} from "@/services/trainMappings";
+import { applyLivePatch, type LivePatch } from "@/services/liveReducer";
+import type { LivePipelineEvent } from "@/services/livePipeline";
+import {
+  startLivePipeline,
+  type LivePipelineConnection,
+} from "@/services/liveWorkerClient";
+import {
+  findTrainByKey,
+  findTrainsById,
+  getTrainUniqueKey,
+  indexTrains,
+  isPassengerTrain,
+  type TrainIndex,
+} from "@/lib/train";
 
 const initialTrains: TrainWithRoute[] = [];
 const initialStationLookup = new Map<number, StationDetails>();
 
 export interface TrainStoreState {
   trains: TrainWithRoute[];
+  /** Positions in trains by unique key and TrainId; live updates replace trains in place */
+  trainIndex: TrainIndex;
   stationLookup: Map<number, StationDetails>;
   isDatasetHydrated: boolean;
   filters: TrainFilters;
   selectedTrainId?: string;
   liveDeltas: Map<string, LiveTrainDelta>;
   trainKeyToId: Map<string, number>;
+  /** Learned socket key -> train mappings, by mapping id */
+  trainMappings: Map<string, TrainMapping>;
   selectedRunIds: Map<string, string>;
   unresolvedDeltas: Map<string, LiveTrainDelta>;
+  watches: Map<string, TrainWatch>;
+  /** Pinned trains and stations, by favourite id */
+  favourites: Map<string, Favourite>;
   connectionStatus: ConnectionStatus;
   lastSocketEvent?: number;
   lastError?: string;
+  /** Only the leader tab connects to the feed and writes live data to IndexedDB */
+  liveRole: TabRole;
+  datasetSync: DatasetSyncStatus;
   setFilters: (partial: Partial<TrainFilters>) => void;
   selectTrain: (trainId: string) => void;
+  /** Raw socket envelope, parsed by the live pipeline */
+  receiveEnvelope: (payload: unknown) => void;
+  /** Deltas already parsed by the leader tab */
   applyDeltas: (deltas: LiveTrainDelta[]) => void;
+  applyLivePatch: (patch: LivePatch, deltas: LiveTrainDelta[]) => void;
   setConnectionStatus: (status: ConnectionStatus) => void;
   setLastError: (message?: string) => void;
+  setLiveRole: (role: TabRole) => void;
   selectTrainRun: (trainId: string, runId: string) => void;
   setDataset: (dataset: {
     trains: TrainWithRoute[];
     stationById: Map<number, StationDetails>;
   }) => void;
+  /** Revalidates the static dataset and swaps it in when timetables changed */
+  refreshDataset: () => Promise<void>;
+  setDatasetSyncedAt: (syncedAt?: number) => void;
+  /** Records a dataset that failed to sync or load */
+  setDatasetSyncError: (err: unknown) => void;
   pruneStaleRuns: () => void;
+  /** Writes pending live state now instead of at the end of the write delay */
+  flushLiveState: () => void;
+  setWatches: (watches: TrainWatch[]) => void;
+  setTrainMappings: (mappings: TrainMapping[]) => void;
+  /** Binds by unique key so a multi-day service is bound to the right date */
+  bindDelta: (deltaId: string, trainKey: string) => void;
+  /** Updates the store right away and puts the watch back if it cannot be stored */
+  toggleWatch: (
+    train: TrainWithRoute,
+    stop: Pick<TrainStop, "StationId" | "StationName">
+  ) => void;
+  setFavourites: (favourites: Favourite[]) => void;
+  /** Updates the store right away and puts the entry back if it cannot be stored */
+  toggleFavourite: (kind: FavouriteKind, targetId: number, name: string) => void;
 }
 
+/** How often the leader tab checks whether the dataset is due for revalidation */
+const DATASET_REVALIDATE_INTERVAL_MS = 60 * 60 * 1000;
+
 const defaultFilters: TrainFilters = {
   search: "",
   onlyLive: false,
   onlyPassenger: true,
+  onlyFavourites: false,
   direction: "all",
 };
 
-// --- Helper Functions for State Logic ---
+// --- Live Pipeline ---
 
-/**
- * Processes incoming live deltas and updates the state.
- * @param currentState The current relevant slice of the store state.
- * @param deltas The new deltas to apply.
- * @returns The updated state slice.
- */
-const processDeltas = (
-  currentState: {
-    trains: TrainWithRoute[];
-    liveDeltas: Map<string, LiveTrainDelta>;
-    trainKeyToId: Map<string, number>;
-    selectedRunIds: Map<string, string>;
-    unresolvedDeltas: Map<string, LiveTrainDelta>;
-  },
-  deltas: LiveTrainDelta[]
-) => {
-  if (deltas.length === 0) return currentState;
-
-  let { trains, liveDeltas, trainKeyToId, selectedRunIds, unresolvedDeltas } =
-    currentState;
-
-  deltas.forEach((delta) => {
-    liveDeltas.set(delta.trainKey, delta);
-
-    const mappedTrainId =
-      trainKeyToId.get(delta.id) ??
-      trainKeyToId.get(delta.trainKey) ??
-      trainKeyToId.get(delta.variantKey) ??
-      (delta.trainNumber != null
-        ? trainKeyToId.get(String(delta.trainNumber))
-        : undefined);
-
-    let targetTrainId = mappedTrainId || findMatchingTrainId(trains, delta);
-
-    if (targetTrainId) {
-      // Cache the mapping for future deltas
-      trainKeyToId.set(delta.id, targetTrainId);
-      trainKeyToId.set(delta.trainKey, targetTrainId);
-      trainKeyToId.set(delta.variantKey, targetTrainId);
-      if (delta.trainNumber != null) {
-        trainKeyToId.set(String(delta.trainNumber), targetTrainId);
-      }
-
-      trains = trains.map((train) =>
-        train.TrainId === targetTrainId
-          ? updateTrainWithDelta(
-              train,
-              delta,
-              selectedRunIds.get(getTrainUniqueKey(train))
-            )
-          : train
-      );
-
-      const updatedTrain = trains.find(
-        (train) => train.TrainId === targetTrainId
-      );
-      if (updatedTrain?.selectedRunId) {
-        selectedRunIds.set(getTrainUniqueKey(updatedTrain), updatedTrain.selectedRunId);
-      }
-      unresolvedDeltas.delete(delta.id);
-    } else {
-      unresolvedDeltas.set(delta.id, delta);
-    }
-  });
-
-  return { trains, liveDeltas, trainKeyToId, selectedRunIds, unresolvedDeltas };
-};
+let livePipeline: LivePipelineConnection | null = null;
 
 /**
- * Prunes stale live data from trains and deltas.
- * @param currentState The current relevant slice of the store state.
- * @param now The current timestamp.
- * @returns The updated state slice.
+ * The worker that parses, matches and persists live data for this tab,
+ * started on first use. Its patches are mirrored into the store.
  */
-const pruneStaleData = (
-  currentState: {
-    trains: TrainWithRoute[];
-    liveDeltas: Map<string, LiveTrainDelta>;
-    selectedRunIds: Map<string, string>;
-  },
-  now: number
-) => {
-  let { trains, liveDeltas, selectedRunIds } = currentState;
-
-  // Prune stale deltas
-  liveDeltas.forEach((delta, key) => {
-    if (now - delta.lastUpdated > STALE_LIVE_RUN_TTL_MS) {
-      liveDeltas.delete(key);
-    }
-  });
-
-  // Prune stale runs from trains
-  const sanitizedTrains = stripStaleLiveData(trains, now);
-  if (sanitizedTrains !== trains) {
-    trains = sanitizedTrains;
-    sanitizedTrains.forEach((train) => {
-      if (!train.selectedRunId) {
-        selectedRunIds.delete(getTrainUniqueKey(train));
-      }
-    });
+const getLivePipeline = () => {
+  if (!livePipeline) {
+    livePipeline = startLivePipeline(handleLivePipelineEvent);
   }
-
-  return { trains, liveDeltas, selectedRunIds };
+  return livePipeline;
 };
 
 // --- Zustand Store Definition ---
@@ -177,75 +169,166 @@ const useTrainStore = create<TrainStoreState>()(
     get: StoreApi<TrainStoreState>["getState"]
   ) => ({
     trains: initialTrains,
+    trainIndex: indexTrains(initialTrains),
     stationLookup: initialStationLookup,
     isDatasetHydrated: false,
     filters: defaultFilters,
     selectedTrainId: undefined,
     liveDeltas: new Map(),
     trainKeyToId: new Map(),
+    trainMappings: new Map(),
     selectedRunIds: new Map(),
     unresolvedDeltas: new Map(),
+    watches: new Map(),
+    favourites: new Map(),
     connectionStatus: "connecting",
     lastSocketEvent: undefined,
     lastError: undefined,
-
-    setDataset: (dataset) =>
+    liveRole: "follower",
+    datasetSync: { state: "idle" },
+
+    setDataset: (dataset) => {
+      // Live payloads are checked against every station the dataset knows about
+      const stationIds = new Set(dataset.stationById.keys());
+      dataset.trains.forEach((train) =>
+        train.route.forEach((stop) => stationIds.add(stop.StationId))
+      );
+      // A refreshed dataset keeps the live state of the trains still in it
+      const { isDatasetHydrated, trains: previous } = get();
+      const trains = isDatasetHydrated
+        ? carryOverLiveState(previous, dataset.trains)
+        : dataset.trains;
       set({
-        trains: dataset.trains,
+        trains,
+        trainIndex: indexTrains(trains),
         stationLookup: dataset.stationById,
         isDatasetHydrated: true,
-      }),
+      });
+      getLivePipeline().send({
+        type: "dataset",
+        trains,
+        stationIds: Array.from(stationIds),
+      });
+    },
+
+    refreshDataset: async () => {
+      if (get().datasetSync.state === "syncing") return;
+      set((state) => ({
+        datasetSync: { ...state.datasetSync, state: "syncing", lastError: undefined },
+      }));
+      try {
+        const dataset = await syncDataset();
+        // Unchanged when the service worker could only answer from its cache
+        const syncedAt = await getDatasetSyncedAt();
+        if (dataset) get().setDataset(dataset);
+        set({ datasetSync: { state: "idle", syncedAt } });
+        broadcastToTabs({ type: "datasetSynced", changed: Boolean(dataset), syncedAt });
+      } catch (err) {
+        console.error("Failed to refresh dataset", err);
+        get().setDatasetSyncError(err);
+      }
+    },
+
+    setDatasetSyncedAt: (syncedAt) =>
+      set((state) => ({ datasetSync: { ...state.datasetSync, syncedAt } })),
+
+    setDatasetSyncError: (err) =>
+      set((state) => ({
+        datasetSync: {
+          ...state.datasetSync,
+          state: "error",
+          lastError: err instanceof Error ? err.message : String(err),
+        },
+      })),
 
     setFilters: (partial) =>
       set((state) => ({ filters: { ...state.filters, ...partial } })),
 
     selectTrain: (trainId) => set({ selectedTrainId: trainId }),
 
-    applyDeltas: async (deltas: LiveTrainDelta[]) => {
-      if (deltas.length === 0) return;
+    receiveEnvelope: (payload) =>
+      getLivePipeline().send({ type: "envelope", payload }),
 
-      // 1. Persist deltas to IndexedDB for offline support
-      await persistLiveDeltas(deltas);
-
-      // 2. Update the in-memory state
-      set((state) => {
-        const updatedState = processDeltas(state, deltas);
-        const now = Date.now();
-        const prunedState = pruneStaleData(updatedState, now);
+    applyDeltas: (deltas) => {
+      if (deltas.length === 0) return;
+      getLivePipeline().send({ type: "deltas", deltas });
+    },
 
-        return {
-          ...prunedState,
-          lastSocketEvent: now,
+    applyLivePatch: (patch, deltas) => {
+      const isLeader = get().liveRole === "leader";
+      set((state) => ({
+        ...applyLivePatch(state, patch),
+        ...(deltas.length > 0 && {
+          lastSocketEvent: Date.now(),
           ...(state.connectionStatus !== "connected" && {
             connectionStatus: "connected",
             lastError: undefined,
           }),
-        };
-      });
-
-      // 3. Persist the resulting train snapshot
-      const { trains } = get();
-      persistTrainSnapshot(trains).catch((err) =>
-        console.error("Failed to persist train snapshot", err)
+        }),
+      }));
+
+      // Only the leader relays the feed and raises notifications
+      if (!isLeader || deltas.length === 0) return;
+      broadcastToTabs({ type: "deltas", deltas });
+
+      // Notify about watched train/station pairs
+      const { watches, trains, trainIndex } = get();
+      if (watches.size === 0) return;
+      const { alerts, updated, expired } = evaluateWatches(
+        Array.from(watches.values()),
+        (trainKey) => findTrainByKey(trains, trainIndex, trainKey)
       );
+      if (updated.length > 0 || expired.length > 0) {
+        set((state) => {
+          const nextWatches = new Map(state.watches);
+          updated.forEach((watch) => {
+            if (nextWatches.has(watch.id)) nextWatches.set(watch.id, watch);
+          });
+          expired.forEach((id) => nextWatches.delete(id));
+          return { watches: nextWatches };
+        });
+        Promise.all([saveWatches(updated), deleteWatches(expired)])
+          .then(() => broadcastToTabs({ type: "watchesChanged" }))
+          .catch((err) => console.error("Failed to persist watches", err));
+      }
+      alerts.forEach((alert) => {
+        void showWatchAlert(alert);
+      });
     },
 
-    pruneStaleRuns: async () => {
-      // 1. Prune stale deltas from the DB
-      await pruneStaleDeltasFromDB();
+    pruneStaleRuns: () => getLivePipeline().send({ type: "prune" }),
+
+    flushLiveState: () => getLivePipeline().send({ type: "flush" }),
 
-      // 2. Update the in-memory state
+    setTrainMappings: (mappings) => {
+      if (mappings.length === 0) return;
+      // Mirror right away for manual binding; the pipeline resolves waiting deltas
       set((state) => {
-        const now = Date.now();
-        const prunedState = pruneStaleData(state, now);
-        return prunedState;
+        const trainMappings = new Map(state.trainMappings);
+        mappings.forEach((mapping) => {
+          const current = trainMappings.get(mapping.id);
+          if (!current || current.lastSeen <= mapping.lastSeen) {
+            trainMappings.set(mapping.id, mapping);
+          }
+        });
+        return { trainMappings };
       });
+      getLivePipeline().send({ type: "mappings", mappings });
+    },
 
-      // 3. Persist the resulting train snapshot
-      const { trains } = get();
-      persistTrainSnapshot(trains).catch((err) =>
-        console.error("Failed to persist pruned snapshot", err)
+    bindDelta: (deltaId, trainKey) => {
+      const { unresolvedDeltas, trains, trainIndex, trainMappings } = get();
+      const delta = unresolvedDeltas.get(deltaId);
+      // The mappings carry the entry's AllocatedDate
+      const train = findTrainByKey(trains, trainIndex, trainKey);
+      if (!delta || !train) return;
+
+      const mappings = createManualMappings(trainMappings, delta, train);
+      get().setTrainMappings(mappings);
+      saveTrainMappings(mappings).catch((err) =>
+        console.error("Failed to persist train mappings", err)
       );
+      broadcastToTabs({ type: "mappings", mappings });
     },
 
     setConnectionStatus: (status) =>
@@ -256,23 +339,101 @@ const useTrainStore = create<TrainStoreState>()(
 
     setLastError: (message) => set({ lastError: message }),
 
-    selectTrainRun: (trainId, runId) =>
+    setLiveRole: (role) => {
+      set({ liveRole: role });
+      getLivePipeline().send({ type: "persistence", enabled: role === "leader" });
+    },
+
+    selectTrainRun: (trainId, runId) => {
       set((state) => {
-        const trains = state.trains.map((train) =>
-          getTrainUniqueKey(train) === trainId
-            ? applyRunSelectionToTrain(train, runId)
-            : train
-        );
-        const targetTrain = trains.find((train) => getTrainUniqueKey(train) === trainId);
+        const position = state.trainIndex.positionByKey.get(trainId);
+        if (position === undefined) return {};
+        const targetTrain = applyRunSelectionToTrain(state.trains[position], runId);
+        const trains = [...state.trains];
+        trains[position] = targetTrain;
         const selectedRunIds = new Map(state.selectedRunIds);
-        if (targetTrain?.selectedRunId) {
+        if (targetTrain.selectedRunId) {
           selectedRunIds.set(trainId, targetTrain.selectedRunId);
         }
         return { trains, selectedRunIds };
+      });
+      getLivePipeline().send({ type: "selectRun", trainKey: trainId, runId });
+    },
+
+    setWatches: (watches) =>
+      set({ watches: new Map(watches.map((watch) => [watch.id, watch])) }),
+
+    toggleWatch: (train, stop) => {
+      const id = getWatchId(getTrainUniqueKey(train), stop.StationId);
+      const previous = get().watches.get(id);
+      const setEntry = (watch: TrainWatch | undefined) =>
+        set((state) => {
+          const watches = new Map(state.watches);
+          if (watch) watches.set(id, watch);
+          else watches.delete(id);
+          return { watches };
+        });
+      let persisted: Promise<unknown>;
+      if (previous) {
+        setEntry(undefined);
+        persisted = deleteWatches([id]);
+      } else {
+        // Ask before adding so the permission prompt stays tied to the click
+        persisted = requestNotificationPermission().then(() => {
+          const watch = createWatch(train, stop);
+          setEntry(watch);
+          return saveWatches([watch]);
+        });
+      }
+
+      persisted
+        .then(() => broadcastToTabs({ type: "watchesChanged" }))
+        .catch((err) => {
+          console.error("Failed to persist watch", err);
+          setEntry(previous);
+        });
+    },
+
+    setFavourites: (favourites) =>
+      set({
+        favourites: new Map(favourites.map((favourite) => [favourite.id, favourite])),
       }),
+
+    toggleFavourite: (kind, targetId, name) => {
+      const id = getFavouriteId(kind, targetId);
+      const previous = get().favourites.get(id);
+      const setEntry = (favourite: Favourite | undefined) =>
+        set((state) => {
+          const favourites = new Map(state.favourites);
+          if (favourite) favourites.set(id, favourite);
+          else favourites.delete(id);
+          return { favourites };
+        });
+
+      const favourite = previous ? undefined : createFavourite(kind, targetId, name);
+      setEntry(favourite);
+      (favourite ? saveFavourite(favourite) : deleteFavourite(id))
+        .then(() => broadcastToTabs({ type: "favouritesChanged" }))
+        .catch((err) => {
+          console.error("Failed to persist favourite", err);
+          setEntry(previous);
+        });
+    },
   })
 );
 
+function handleLivePipelineEvent(event: LivePipelineEvent) {
+  switch (event.type) {
+    case "patch":
+      useTrainStore.getState().applyLivePatch(event.patch, event.deltas);
+      break;
+    case "validation":
+      recordAccepted(event.accepted);
+      recordRejects("socket", event.rejects);
+      break;
+  }
+}
+
 // --- Selector Hooks (unchanged) ---
 
 export const useTrainFilters = () =>
@@ -284,8 +445,10 @@ export const useTrainFilters = () =>
 export const useSelectedTrain = () =>
   useTrainStore(
     (state) => ({
-      selectedTrain: state.trains.find(
-        (train) => getTrainUniqueKey(train) === state.selectedTrainId
+      selectedTrain: findTrainByKey(
+        state.trains,
+        state.trainIndex,
+        state.selectedTrainId
       ),
       selectTrain: state.selectTrain,
       selectTrainRun: state.selectTrainRun,
@@ -293,32 +456,82 @@ export const useSelectedTrain = () =>
     shallow
   );
 
+const matchesFilters = (
+  train: TrainWithRoute,
+  filters: TrainFilters,
+  favourites: Map<string, Favourite>
+) => {
+  const search = filters.search.trim().toLowerCase();
+  const matchesSearch =
+    !search ||
+    train.TrainName.toLowerCase().includes(search) ||
+    train.TrainDescription?.toLowerCase().includes(search) ||
+    String(train.TrainNumber).includes(search);
+
+  const matchesLive = !filters.onlyLive || train.livePosition || train.IsLive;
+  const matchesDirection =
+    filters.direction === "all" ||
+    (filters.direction === "up" && train.IsUp) ||
+    (filters.direction === "down" && !train.IsUp);
+  const matchesPassenger = !filters.onlyPassenger || isPassengerTrain(train);
+  const matchesFavourites =
+    !filters.onlyFavourites || favourites.has(getFavouriteId("train", train.TrainId));
+
+  return Boolean(
+    matchesSearch &&
+      matchesLive &&
+      matchesDirection &&
+      matchesPassenger &&
+      matchesFavourites
+  );
+};
+
+const initialFavourites = new Map<string, Favourite>();
+
+// Filter results per train object for the current filters and favourites, so
+// a live update only re-tests the trains it replaced
+let filterMatches = {
+  filters: defaultFilters,
+  favourites: initialFavourites,
+  matches: new WeakMap<TrainWithRoute, boolean>(),
+};
+let lastFiltered = {
+  trains: initialTrains,
+  filters: defaultFilters,
+  favourites: initialFavourites,
+  result: initialTrains,
+};
+
+const selectFilteredTrains = ({
+  trains,
+  filters,
+  favourites,
+}: TrainStoreState): TrainWithRoute[] => {
+  if (
+    lastFiltered.trains === trains &&
+    lastFiltered.filters === filters &&
+    lastFiltered.favourites === favourites
+  ) {
+    return lastFiltered.result;
+  }
+  if (filterMatches.filters !== filters || filterMatches.favourites !== favourites) {
+    filterMatches = { filters, favourites, matches: new WeakMap() };
+  }
+  const { matches } = filterMatches;
+  const result = trains.filter((train) => {
+    let isMatch = matches.get(train);
+    if (isMatch === undefined) {
+      isMatch = matchesFilters(train, filters, favourites);
+      matches.set(train, isMatch);
+    }
+    return isMatch;
+  });
+  lastFiltered = { trains, filters, favourites, result };
+  return result;
+};
+
 export const useFilteredTrains = () =>
-  useTrainStore((state) => {
-    const { filters, trains } = state;
-    const search = filters.search.trim().toLowerCase();
-
-    return trains.filter((train) => {
-      const matchesSearch =
-        !search ||
-        train.TrainName.toLowerCase().includes(search) ||
-        train.TrainDescription?.toLowerCase().includes(search) ||
-        String(train.TrainNumber).includes(search);
-
-      const matchesLive =
-        !filters.onlyLive || train.livePosition || train.IsLive;
-      const matchesDirection =
-        filters.direction === "all" ||
-        (filters.direction === "up" && train.IsUp) ||
-        (filters.direction === "down" && !train.IsUp);
-      const matchesPassenger =
-        !filters.onlyPassenger || isPassengerTrain(train);
-
-      return (
-        matchesSearch && matchesLive && matchesDirection && matchesPassenger
-      );
-    });
-  }, shallow);
+  useTrainStore(selectFilteredTrains, shallow);
 
 export const useStationLookup = () =>
   useTrainStore((state) => state.stationLookup);
@@ -326,12 +539,21 @@ export const useStationLookup = () =>
 export const useDatasetBootstrap = () => {
   const setDataset = useTrainStore((state) => state.setDataset);
   const isHydrated = useTrainStore((state) => state.isDatasetHydrated);
+  const liveRole = useTrainStore((state) => state.liveRole);
+  const refreshDataset = useTrainStore((state) => state.refreshDataset);
+  const setDatasetSyncedAt = useTrainStore((state) => state.setDatasetSyncedAt);
 
   useEffect(() => {
     if (isHydrated) return;
     let cancelled = false;
     loadTrainDataset()
-      .then((dataset) => !cancelled && setDataset(dataset))
+      .then(async (dataset) => {
+        // Known before hydrating, so a dataset just downloaded is not revalidated again
+        const syncedAt = await getDatasetSyncedAt().catch(() => undefined);
+        if (cancelled) return;
+        setDatasetSyncedAt(syncedAt);
+        setDataset(dataset);
+      })
       .catch(async (err) => {
         console.error("Failed to load dataset from IndexedDB", err);
         const dataset = await loadTrainDatasetSync();
@@ -340,50 +562,216 @@ export const useDatasetBootstrap = () => {
     return () => {
       cancelled = true;
     };
-  }, [isHydrated, setDataset]);
+  }, [isHydrated, setDataset, setDatasetSyncedAt]);
+
+  // Stale-while-revalidate: the stored dataset is shown right away and the
+  // leader tab checks for new timetables once it is older than the max age
+  useEffect(() => {
+    if (!isHydrated || liveRole !== "leader") return;
+    const revalidate = () => {
+      if (!navigator.onLine) return;
+      const { syncedAt } = useTrainStore.getState().datasetSync;
+      if (!syncedAt || Date.now() - syncedAt > DATASET_MAX_AGE_MS) {
+        void refreshDataset();
+      }
+    };
+    revalidate();
+    const interval = window.setInterval(revalidate, DATASET_REVALIDATE_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [isHydrated, liveRole, refreshDataset]);
+};
+
+export const useWatchlistBootstrap = () => {
+  const setWatches = useTrainStore((state) => state.setWatches);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadWatches().then((watches) => !cancelled && setWatches(watches));
+    return () => {
+      cancelled = true;
+    };
+  }, [setWatches]);
+};
+
+export const useFavouritesBootstrap = () => {
+  const setFavourites = useTrainStore((state) => state.setFavourites);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadFavourites().then((favourites) => !cancelled && setFavourites(favourites));
+    return () => {
+      cancelled = true;
+    };
+  }, [setFavourites]);
+};
+
+export const useTrainMappingsBootstrap = () => {
+  const setTrainMappings = useTrainStore((state) => state.setTrainMappings);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTrainMappings().then((mappings) => !cancelled && setTrainMappings(mappings));
+    return () => {
+      cancelled = true;
+    };
+  }, [setTrainMappings]);
+};
+
+export const useUnresolvedDeltas = () => {
+  const deltas = useTrainStore(
+    (state) => Array.from(state.unresolvedDeltas.values()),
+    shallow
+  );
+  const bindDelta = useTrainStore((state) => state.bindDelta);
+  // Replaced only with the dataset, unlike the trains that every live patch touches
+  const trainIndex = useTrainStore((state) => state.trainIndex);
+  return { deltas, bindDelta, trainIndex };
+};
+
+export const useWatchlist = () =>
+  useTrainStore(
+    (state) => ({ watches: state.watches, toggleWatch: state.toggleWatch }),
+    shallow
+  );
+
+export const useFavourites = () => {
+  const favourites = useTrainStore((state) => state.favourites);
+  const toggleFavourite = useTrainStore((state) => state.toggleFavourite);
+  return useMemo(
+    () => ({
+      favourites,
+      favouriteTrainIds: getFavouriteTargets(favourites.values(), "train"),
+      favouriteStationIds: getFavouriteTargets(favourites.values(), "station"),
+      toggleFavourite,
+    }),
+    [favourites, toggleFavourite]
+  );
 };
 
 export const useLiveSocket = () => {
+  const receiveEnvelope = useTrainStore((state) => state.receiveEnvelope);
   const applyDeltas = useTrainStore((state) => state.applyDeltas);
   const setConnectionStatus = useTrainStore(
     (state) => state.setConnectionStatus
   );
   const setLastError = useTrainStore((state) => state.setLastError);
+  const setLiveRole = useTrainStore((state) => state.setLiveRole);
+  const setTrainMappings = useTrainStore((state) => state.setTrainMappings);
+  const setWatches = useTrainStore((state) => state.setWatches);
+  const setFavourites = useTrainStore((state) => state.setFavourites);
   const pruneStaleRuns = useTrainStore((state) => state.pruneStaleRuns);
+  const flushLiveState = useTrainStore((state) => state.flushLiveState);
+  const setDataset = useTrainStore((state) => state.setDataset);
+  const setDatasetSyncedAt = useTrainStore((state) => state.setDatasetSyncedAt);
+  const setDatasetSyncError = useTrainStore((state) => state.setDatasetSyncError);
 
   useEffect(() => {
-    setConnectionStatus("connecting");
-    const disconnect = connectLiveSocket(applyDeltas, {
-      onConnect: () => {
-        setConnectionStatus("connected");
-        setLastError(undefined);
-      },
-      onDisconnect: () => {
-        setConnectionStatus("disconnected");
-      },
-      onReconnectAttempt: () => {
-        setConnectionStatus("reconnecting");
-      },
-      onReconnect: () => {
-        setConnectionStatus("connected");
-        setLastError(undefined);
+    // The leader mirrors its connection state to the other tabs
+    const reportStatus = (status: ConnectionStatus, error?: string) => {
+      if (error !== undefined || status === "connected") setLastError(error);
+      setConnectionStatus(status);
+      broadcastToTabs({
+        type: "status",
+        status,
+        lastError: useTrainStore.getState().lastError,
+      });
+    };
+
+    const coordinator = coordinateLiveTabs({
+      onRoleChange: setLiveRole,
+      onLead: () => {
+        reportStatus("connecting");
+        const disconnect = connectLiveSocket(receiveEnvelope, {
+          onConnect: () => reportStatus("connected"),
+          onDisconnect: () => reportStatus("disconnected"),
+          onReconnectAttempt: () => reportStatus("reconnecting"),
+          onReconnect: () => reportStatus("connected"),
+          onError: (err) => reportStatus("error", err.message),
+        });
+        return () => {
+          setConnectionStatus("disconnected");
+          disconnect();
+        };
       },
-      onError: (err) => {
-        setLastError(err.message);
-        setConnectionStatus("error");
+      onMessage: (message) => {
+        const state = useTrainStore.getState();
+        switch (message.type) {
+          case "deltas":
+            applyDeltas(message.deltas);
+            break;
+          case "status":
+            setConnectionStatus(message.status);
+            setLastError(message.lastError);
+            break;
+          case "mappings":
+            setTrainMappings(message.mappings);
+            break;
+          case "watchesChanged":
+            loadWatches().then(setWatches);
+            break;
+          case "favouritesChanged":
+            loadFavourites().then(setFavourites);
+            break;
+          case "datasetSynced":
+            setDatasetSyncedAt(message.syncedAt);
+            if (message.changed) {
+              loadTrainDataset()
+                .then(setDataset)
+                .catch((err) => {
+                  console.error("Failed to load the synced dataset", err);
+                  setDatasetSyncError(err);
+                });
+            }
+            break;
+          case "snapshotRequest":
+            // A tab just opened: bring it up to date with the current feed
+            if (state.liveRole !== "leader") break;
+            coordinator.post({
+              type: "status",
+              status: state.connectionStatus,
+              lastError: state.lastError,
+            });
+            coordinator.post({
+              type: "deltas",
+              deltas: Array.from(state.liveDeltas.values()),
+            });
+            break;
+        }
       },
     });
-    return () => {
-      setConnectionStatus("disconnected");
-      disconnect();
-    };
-  }, [applyDeltas, setConnectionStatus, setLastError]);
+    return () => coordinator.stop();
+  }, [
+    receiveEnvelope,
+    applyDeltas,
+    setConnectionStatus,
+    setLastError,
+    setLiveRole,
+    setTrainMappings,
+    setWatches,
+    setFavourites,
+    setDataset,
+    setDatasetSyncedAt,
+    setDatasetSyncError,
+  ]);
 
   useEffect(() => {
     pruneStaleRuns();
     const interval = window.setInterval(pruneStaleRuns, STALE_LIVE_RUN_TTL_MS);
     return () => window.clearInterval(interval);
   }, [pruneStaleRuns]);
+
+  // Live state is written in batches; don't lose the last one when the tab goes away
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flushLiveState();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", flushLiveState);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", flushLiveState);
+    };
+  }, [flushLiveState]);
 };
 
 export const useDashboardData = () => {
@@ -391,15 +779,21 @@ export const useDashboardData = () => {
   const { filters, setFilters } = useTrainFilters();
   const { selectedTrain, selectTrain, selectTrainRun } = useSelectedTrain();
   const allTrains = useTrainStore((state) => state.trains);
+  const trainIndex = useTrainStore((state) => state.trainIndex);
   const liveCount = useTrainStore((state) => state.liveDeltas.size);
   const unresolvedCount = useTrainStore((state) => state.unresolvedDeltas.size);
   const connectionStatus = useTrainStore((state) => state.connectionStatus);
   const lastSocketEvent = useTrainStore((state) => state.lastSocketEvent);
   const lastError = useTrainStore((state) => state.lastError);
+  const liveRole = useTrainStore((state) => state.liveRole);
+  const isDatasetHydrated = useTrainStore((state) => state.isDatasetHydrated);
+  const datasetSync = useTrainStore((state) => state.datasetSync);
+  const refreshDataset = useTrainStore((state) => state.refreshDataset);
 
   return useMemo(
     () => ({
       allTrains,
+      trainIndex,
       trains,
       filters,
       setFilters,
@@ -411,9 +805,14 @@ export const useDashboardData = () => {
       connectionStatus,
       lastSocketEvent,
       lastError,
+      liveRole,
+      isDatasetHydrated,
+      datasetSync,
+      refreshDataset,
     }),
     [
       allTrains,
+      trainIndex,
       trains,
       filters,
       setFilters,
@@ -425,6 +824,10 @@ export const useDashboardData = () => {
       connectionStatus,
       lastSocketEvent,
       lastError,
+      liveRole,
+      isDatasetHydrated,
+      datasetSync,
+      refreshDataset,
     ]
   );
 };
@@ -442,9 +845,11 @@ export const useSocketMeta = () =>
 export const useRelatedTrains = (selectedTrain?: TrainWithRoute) => {
   return useTrainStore((state) => {
     if (!selectedTrain) return [];
-    return state.trains.filter((train) =>
-      train.TrainId === selectedTrain.TrainId &&
-      getTrainUniqueKey(train) !== getTrainUniqueKey(selectedTrain)
-    );
+    const selectedKey = getTrainUniqueKey(selectedTrain);
+    return findTrainsById(
+      state.trains,
+      state.trainIndex,
+      selectedTrain.TrainId
+    ).filter((train) => getTrainUniqueKey(train) !== selectedKey);
   }, shallow);
 };
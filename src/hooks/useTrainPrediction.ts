@@ -0,0 +1,24 @@
+import { useMemo } from "react";
+import type { TrainWithRoute } from "@/types";
+import type { TrackProgress } from "@/lib/map/track";
+import { predictTrainStops } from "@/lib/train";
+
+// Custom hook that predicts the remaining stops of a train, recomputed on every live update
+export const useTrainPrediction = (
+  train?: TrainWithRoute,
+  referenceTime?: number,
+  trackProgress?: TrackProgress | null
+) =>
+  useMemo(() => {
+    if (!train) return null;
+    const nextStationId =
+      train.livePosition?.nextStationId ?? train.upcomingStop?.StationId;
+    const distanceToNextKm =
+      nextStationId != null
+        ? trackProgress?.toStationKm.get(nextStationId)
+        : undefined;
+    return predictTrainStops(train, {
+      now: referenceTime ?? Date.now(),
+      distanceToNextKm,
+    });
+  }, [train, referenceTime, trackProgress]);
@@ -4,3 +4,4 @@
 
 export * as MapLib from './map';
 export * as TrainLib from './train';
+export * as RouteLib from './routes';
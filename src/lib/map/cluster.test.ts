@@ -0,0 +1,40 @@
+// cluster.test.ts
+import { CLUSTER_MAX_ZOOM, clusterPoints, isInBounds, padBounds } from "./cluster";
+
+const point = (lat: number, lon: number) => ({ lat, lon });
+
+describe("clusterPoints", () => {
+  const lahore = [point(31.55, 74.34), point(31.56, 74.35), point(31.57, 74.33)];
+  const karachi = [point(24.86, 67.0), point(24.87, 67.01)];
+
+  it("groups nearby trains into one cluster when zoomed out", () => {
+    const clusters = clusterPoints([...lahore, ...karachi], 5, null);
+
+    expect(clusters.map((cluster) => cluster.items.length).sort()).toEqual([2, 3]);
+    const lahoreCluster = clusters.find((cluster) => cluster.items.length === 3)!;
+    expect(lahoreCluster.lat).toBeCloseTo(31.56, 6);
+    expect(lahoreCluster.bounds).toEqual({ south: 31.55, west: 74.33, north: 31.57, east: 74.35 });
+  });
+
+  it("shows every train on its own once zoomed in", () => {
+    const clusters = clusterPoints([...lahore, ...karachi], CLUSTER_MAX_ZOOM, null);
+    expect(clusters).toHaveLength(5);
+  });
+
+  it("culls trains outside the padded viewport", () => {
+    const viewport = { south: 31, west: 74, north: 32, east: 75 };
+    const clusters = clusterPoints([...lahore, ...karachi, point(32.1, 74.5)], 12, viewport);
+
+    // Lahore and the train just past the edge are kept, Karachi is dropped
+    expect(clusters).toHaveLength(4);
+  });
+});
+
+describe("viewport helpers", () => {
+  it("pads bounds by a share of their size", () => {
+    const padded = padBounds({ south: 30, west: 70, north: 32, east: 74 }, 0.5);
+    expect(padded).toEqual({ south: 29, west: 68, north: 33, east: 76 });
+    expect(isInBounds(point(32.5, 75), padded)).toBe(true);
+    expect(isInBounds(point(33.5, 75), padded)).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Grid clustering and viewport culling for drawing many trains at once
+ */
+
+const TILE_SIZE = 256;
+
+/** Clusters are not formed from this zoom level on */
+export const CLUSTER_MAX_ZOOM = 10;
+/** Size of a clustering cell on screen, in pixels */
+export const CLUSTER_CELL_PX = 60;
+/** Share of the viewport kept around it so markers do not pop in while panning */
+export const VIEWPORT_PADDING_RATIO = 0.2;
+
+export interface ViewportBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface ClusterPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface Cluster<T extends ClusterPoint> {
+  /** Stable for as long as the cluster keeps the same cell */
+  id: string;
+  /** Centroid of the clustered points */
+  lat: number;
+  lon: number;
+  items: T[];
+  bounds: ViewportBounds;
+}
+
+/**
+ * Projects a coordinate to Web Mercator pixel space at a zoom level, matching
+ * what Leaflet draws.
+ */
+export const projectToPixels = (lat: number, lon: number, zoom: number): [number, number] => {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  return [
+    ((lon + 180) / 360) * scale,
+    (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale
+  ];
+};
+
+/**
+ * Grows bounds by a share of their size on every side.
+ */
+export const padBounds = (bounds: ViewportBounds, ratio = VIEWPORT_PADDING_RATIO): ViewportBounds => {
+  const latPad = (bounds.north - bounds.south) * ratio;
+  const lonPad = (bounds.east - bounds.west) * ratio;
+  return {
+    south: bounds.south - latPad,
+    west: bounds.west - lonPad,
+    north: bounds.north + latPad,
+    east: bounds.east + lonPad
+  };
+};
+
+export const isInBounds = (point: ClusterPoint, bounds: ViewportBounds): boolean =>
+  point.lat >= bounds.south &&
+  point.lat <= bounds.north &&
+  point.lon >= bounds.west &&
+  point.lon <= bounds.east;
+
+/**
+ * Drops points outside the (padded) viewport and groups the rest into
+ * clusters by screen cell. From CLUSTER_MAX_ZOOM on every point is its own
+ * cluster so individual trains can be picked.
+ */
+export const clusterPoints = <T extends ClusterPoint>(
+  points: T[],
+  zoom: number,
+  viewport: ViewportBounds | null,
+  cellPx = CLUSTER_CELL_PX
+): Cluster<T>[] => {
+  const visible = viewport
+    ? points.filter((point) => isInBounds(point, padBounds(viewport)))
+    : points;
+  const cellZoom = Math.floor(zoom);
+  const cells = new Map<string, T[]>();
+
+  visible.forEach((point, index) => {
+    let key: string;
+    if (zoom >= CLUSTER_MAX_ZOOM) {
+      key = `p${index}`;
+    } else {
+      const [x, y] = projectToPixels(point.lat, point.lon, cellZoom);
+      key = `${cellZoom}:${Math.floor(x / cellPx)}:${Math.floor(y / cellPx)}`;
+    }
+    const cell = cells.get(key);
+    if (cell) cell.push(point);
+    else cells.set(key, [point]);
+  });
+
+  return Array.from(cells, ([id, items]) => {
+    const bounds: ViewportBounds = {
+      south: Number.POSITIVE_INFINITY,
+      west: Number.POSITIVE_INFINITY,
+      north: Number.NEGATIVE_INFINITY,
+      east: Number.NEGATIVE_INFINITY
+    };
+    let latSum = 0;
+    let lonSum = 0;
+    items.forEach(({ lat, lon }) => {
+      latSum += lat;
+      lonSum += lon;
+      bounds.south = Math.min(bounds.south, lat);
+      bounds.north = Math.max(bounds.north, lat);
+      bounds.west = Math.min(bounds.west, lon);
+      bounds.east = Math.max(bounds.east, lon);
+    });
+    return { id, lat: latSum / items.length, lon: lonSum / items.length, items, bounds };
+  });
+};
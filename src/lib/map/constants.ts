@@ -6,6 +6,9 @@ export const DEFAULT_MAP_CENTER: LatLngExpression = [30.3753, 69.3451];
 // Default zoom level for map
 export const DEFAULT_ZOOM = 8.2;
 
+// Zoom level for the whole-network overview
+export const NETWORK_OVERVIEW_ZOOM = 5.5;
+
 // Zoom level when focusing on a specific train
 export const TRAIN_FOCUS_ZOOM = 8.5;
 
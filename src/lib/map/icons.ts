@@ -56,6 +56,48 @@ export const getStationIcon = (): L.DivIcon => {
   return icon;
 };
 
+/**
+ * Creates or retrieves a cached marker for the all-stations layer;
+ * busier stations get a larger dot
+ */
+export const getNetworkStationIcon = (isMajor: boolean): L.DivIcon => {
+  const key = `network-station-${isMajor ? 'major' : 'minor'}`;
+  const cached = iconCache.get(key);
+  if (cached) return cached;
+
+  const size = isMajor ? 12 : 8;
+  const icon = L.divIcon({
+    className: 'station-marker',
+    iconSize: [size + 4, size + 4],
+    iconAnchor: [(size + 4) / 2, (size + 4) / 2],
+    popupAnchor: [0, -(size + 4) / 2],
+    html: `<div style="width: ${size}px; height: ${size}px; border-radius: 50%; border: 2px solid ${isMajor ? '#1d4ed8' : '#64748b'}; background: #ffffff; box-shadow: 0 1px 4px rgba(15, 23, 42, 0.35);"></div>`
+  });
+
+  iconCache.set(key, icon);
+  return icon;
+};
+
+/**
+ * Creates or retrieves a cached icon for a cluster of trains
+ */
+export const getClusterIcon = (count: number): L.DivIcon => {
+  const key = `cluster-${count}`;
+  const cached = iconCache.get(key);
+  if (cached) return cached;
+
+  const size = count < 10 ? 30 : count < 50 ? 36 : 44;
+  const icon = L.divIcon({
+    className: 'train-cluster-marker',
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+    html: `<div style="width: ${size}px; height: ${size}px; border-radius: 50%; background: rgba(44, 127, 104, 0.9); border: 3px solid #ffffff; box-shadow: 0 2px 8px rgba(15, 23, 42, 0.4); color: #ffffff; font: 600 12px/1 system-ui, sans-serif; display: flex; align-items: center; justify-content: center;">${count}</div>`
+  });
+
+  iconCache.set(key, icon);
+  return icon;
+};
+
 /**
  * Gets train icon configuration based on state
  */
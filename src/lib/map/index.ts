@@ -5,3 +5,6 @@
 export * from './icons';
 export * from './route';
 export * from './constants';
+export * from './track';
+export * from './motion';
+export * from './cluster';
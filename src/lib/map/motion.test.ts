@@ -0,0 +1,79 @@
+// motion.test.ts
+import {
+  DEAD_RECKONING_HORIZON_MS,
+  GLIDE_DURATION_MS,
+  getDeadReckoningKm,
+  getMotionPosition,
+  isMotionSettled,
+  startMotion,
+} from "./motion";
+import { buildTrackProfile, matchToTrack } from "./track";
+
+// A straight line due north, roughly 111 km long
+const profile = buildTrackProfile([
+  {
+    StationId: 1,
+    Latitude: 30,
+    Longitude: 70,
+    trackGeometryToNext: [
+      [30, 70],
+      [31, 70],
+    ],
+  },
+])!;
+
+const fixAt = (lat: number, speedKmh: number | null, fixedAt: number) => {
+  const position = matchToTrack(profile, lat, 70)!;
+  return { point: position.point, alongKm: position.alongKm, speedKmh, fixedAt };
+};
+
+describe("marker motion", () => {
+  it("glides from the drawn position to the new fix along the track", () => {
+    const from = fixAt(30.1, null, 0);
+    const to = fixAt(30.2, null, 1000);
+    const motion = startMotion(from, to, 1000);
+
+    const start = getMotionPosition(motion, profile, 1000);
+    const middle = getMotionPosition(motion, profile, 1000 + GLIDE_DURATION_MS / 2);
+    const end = getMotionPosition(motion, profile, 1000 + GLIDE_DURATION_MS);
+
+    expect(start.alongKm).toBeCloseTo(from.alongKm, 6);
+    expect(middle.alongKm!).toBeGreaterThan(from.alongKm);
+    expect(middle.alongKm!).toBeLessThan(to.alongKm);
+    expect(end.point[0]).toBeCloseTo(30.2, 6);
+  });
+
+  it("caps dead-reckoning at a short horizon", () => {
+    const fix = fixAt(30.5, 72, 0);
+
+    expect(getDeadReckoningKm(fix, 10 * 1000)).toBeCloseTo(0.2, 6);
+    expect(getDeadReckoningKm(fix, 10 * 60 * 1000)).toBeCloseTo(
+      (72 * DEAD_RECKONING_HORIZON_MS) / 3600000,
+      6
+    );
+    expect(getDeadReckoningKm({ ...fix, speedKmh: 0 }, 10 * 1000)).toBe(0);
+  });
+
+  it("keeps moving past the fix while the next update is late", () => {
+    const motion = startMotion(null, fixAt(30.5, 72, 0), 0);
+    const later = getMotionPosition(motion, profile, 10 * 1000);
+
+    expect(later.alongKm! - motion.fix.alongKm!).toBeCloseTo(0.2, 6);
+    expect(isMotionSettled(motion, 10 * 1000)).toBe(false);
+    expect(isMotionSettled(motion, DEAD_RECKONING_HORIZON_MS)).toBe(true);
+  });
+
+  it("dead-reckons along the last heading without a track", () => {
+    const from = { point: [30, 70] as [number, number] };
+    const motion = startMotion(from, { point: [30.1, 70], speedKmh: 72, fixedAt: 0 }, 0);
+    const later = getMotionPosition(motion, null, 10 * 1000);
+
+    expect(later.point[0]).toBeGreaterThan(30.1);
+    expect(later.point[1]).toBeCloseTo(70, 6);
+  });
+
+  it("jumps straight to fixes that are too far to animate", () => {
+    const motion = startMotion(fixAt(30, null, 0), fixAt(30.9, null, 1000), 1000);
+    expect(getMotionPosition(motion, profile, 1000).point[0]).toBeCloseTo(30.9, 6);
+  });
+});
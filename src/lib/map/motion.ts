@@ -0,0 +1,132 @@
+import { pointAtKm, type TrackProfile } from './track';
+
+/** Time a marker takes to glide from where it is drawn to a new fix */
+export const GLIDE_DURATION_MS = 1200;
+/** Longest time a marker keeps moving on its own after the last fix */
+export const DEAD_RECKONING_HORIZON_MS = 20 * 1000;
+/** Jumps longer than this are drawn immediately instead of animated */
+const MAX_GLIDE_KM = 20;
+/** Below this speed a train is treated as standing still */
+const MIN_MOVING_SPEED_KMH = 1;
+
+const KM_PER_DEGREE = 111.32;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * A position as drawn on the map, with its distance along the track when the
+ * marker follows one.
+ */
+export interface MotionPoint {
+  point: [number, number];
+  alongKm?: number;
+}
+
+/**
+ * A live fix the marker is moving towards.
+ */
+export interface MotionFix extends MotionPoint {
+  speedKmh: number | null;
+  /** Time the fix was reported */
+  fixedAt: number;
+}
+
+export interface MarkerMotion {
+  from: MotionPoint;
+  fix: MotionFix;
+  startedAt: number;
+  /** Unit heading (east, north) in km for straight-line dead-reckoning */
+  heading: [number, number] | null;
+}
+
+const toLocalKm = (from: [number, number], to: [number, number]): [number, number] => [
+  (to[1] - from[1]) * KM_PER_DEGREE * Math.cos((from[0] * Math.PI) / 180),
+  (to[0] - from[0]) * KM_PER_DEGREE
+];
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+/**
+ * Starts a motion from the currently drawn position towards a new fix.
+ * Without a current position, or for a jump too long to animate, the motion
+ * starts at the fix itself.
+ */
+export const startMotion = (
+  current: MotionPoint | null,
+  fix: MotionFix,
+  now: number
+): MarkerMotion => {
+  const [east, north] = current ? toLocalKm(current.point, fix.point) : [0, 0];
+  const distanceKm = Math.hypot(east, north);
+  const from = current && distanceKm <= MAX_GLIDE_KM ? current : fix;
+  return {
+    from,
+    fix,
+    startedAt: now,
+    heading: from !== fix && distanceKm > 0 ? [east / distanceKm, north / distanceKm] : null
+  };
+};
+
+/**
+ * Kilometres a train is assumed to have moved past its last fix, using its
+ * reported speed for at most DEAD_RECKONING_HORIZON_MS.
+ */
+export const getDeadReckoningKm = (fix: MotionFix, now: number): number => {
+  if (fix.speedKmh == null || fix.speedKmh < MIN_MOVING_SPEED_KMH) return 0;
+  const elapsed = Math.min(Math.max(0, now - fix.fixedAt), DEAD_RECKONING_HORIZON_MS);
+  return (fix.speedKmh * elapsed) / MS_PER_HOUR;
+};
+
+/**
+ * Where to draw a moving marker at `now`: gliding from the previous position
+ * to the fix, which itself keeps advancing by dead-reckoning. Follows the
+ * track when both ends are matched onto `profile`, a straight line otherwise.
+ */
+export const getMotionPosition = (
+  motion: MarkerMotion,
+  profile: TrackProfile | null | undefined,
+  now: number,
+  options: { deadReckoning?: boolean } = {}
+): MotionPoint => {
+  const { from, fix } = motion;
+  const progress = easeOutCubic(Math.min(1, Math.max(0, (now - motion.startedAt) / GLIDE_DURATION_MS)));
+  const aheadKm = options.deadReckoning === false ? 0 : getDeadReckoningKm(fix, now);
+
+  if (profile && from.alongKm != null && fix.alongKm != null) {
+    const targetKm = Math.min(profile.totalKm, fix.alongKm + aheadKm);
+    const alongKm = from.alongKm + (targetKm - from.alongKm) * progress;
+    return { point: pointAtKm(profile, alongKm), alongKm };
+  }
+
+  let target = fix.point;
+  if (aheadKm > 0 && motion.heading) {
+    const [east, north] = motion.heading;
+    target = [
+      fix.point[0] + (north * aheadKm) / KM_PER_DEGREE,
+      fix.point[1] + (east * aheadKm) / (KM_PER_DEGREE * Math.cos((fix.point[0] * Math.PI) / 180))
+    ];
+  }
+  return {
+    point: [
+      from.point[0] + (target[0] - from.point[0]) * progress,
+      from.point[1] + (target[1] - from.point[1]) * progress
+    ]
+  };
+};
+
+/**
+ * Whether the marker will still move after `now`, so callers can stop animating.
+ */
+export const isMotionSettled = (
+  motion: MarkerMotion,
+  now: number,
+  options: { deadReckoning?: boolean } = {}
+): boolean => {
+  if (now - motion.startedAt < GLIDE_DURATION_MS) return false;
+  if (options.deadReckoning === false) return true;
+  const { speedKmh, fixedAt } = motion.fix;
+  return (
+    speedKmh == null ||
+    speedKmh < MIN_MOVING_SPEED_KMH ||
+    now - fixedAt >= DEAD_RECKONING_HORIZON_MS
+  );
+};
@@ -0,0 +1,128 @@
+// track.test.ts
+import {
+  buildTrackProfile,
+  matchToTrack,
+  measureTrackProgress,
+  projectOntoTrack,
+  splitTrackAt,
+} from "./track";
+import { calculateDistance } from "@/utils/time";
+
+// An L-shaped line: north from A to B, then east from B to C
+const stations = [
+  {
+    StationId: 1,
+    Latitude: 30,
+    Longitude: 70,
+    trackGeometryToNext: [
+      [30, 70],
+      [30.5, 70],
+      [31, 70],
+    ] as [number, number][],
+  },
+  {
+    StationId: 2,
+    Latitude: 31,
+    Longitude: 70,
+    trackGeometryToNext: [
+      [31, 70],
+      [31, 71],
+    ] as [number, number][],
+  },
+  { StationId: 3, Latitude: 31, Longitude: 71, trackGeometryToNext: [] },
+];
+
+const legAB = calculateDistance(30, 70, 31, 70);
+const legBC = calculateDistance(31, 70, 31, 71);
+
+describe("buildTrackProfile", () => {
+  it("places every station at its distance along the track", () => {
+    const profile = buildTrackProfile(stations)!;
+
+    expect(profile.totalKm).toBeCloseTo(legAB + legBC, 6);
+    expect(profile.stationKm.get(1)).toBe(0);
+    expect(profile.stationKm.get(2)).toBeCloseTo(legAB, 6);
+    expect(profile.stationKm.get(3)).toBeCloseTo(legAB + legBC, 6);
+  });
+
+  it("returns null without usable geometry", () => {
+    expect(buildTrackProfile([{ ...stations[2] }])).toBeNull();
+  });
+});
+
+describe("projectOntoTrack", () => {
+  it("snaps a point beside the line onto the nearest segment", () => {
+    const profile = buildTrackProfile(stations)!;
+    const position = projectOntoTrack(profile, 30.25, 70.01)!;
+
+    expect(position.point[0]).toBeCloseTo(30.25, 6);
+    expect(position.point[1]).toBeCloseTo(70, 6);
+    expect(position.alongKm).toBeCloseTo(legAB / 4, 1);
+    expect(position.offsetKm).toBeCloseTo(0.96, 1);
+  });
+});
+
+describe("matchToTrack", () => {
+  it("holds its ground against small backwards jitter", () => {
+    const profile = buildTrackProfile(stations)!;
+    const first = matchToTrack(profile, 30.5, 70)!;
+    const jittered = matchToTrack(profile, 30.499, 70.001, first)!;
+
+    expect(jittered.alongKm).toBe(first.alongKm);
+    expect(jittered.point).toEqual(first.point);
+  });
+
+  it("keeps to the section ahead when the line doubles back", () => {
+    // Out and back along the same street: the return leg sits right beside the outbound one
+    const loop = buildTrackProfile([
+      {
+        StationId: 1,
+        Latitude: 30,
+        Longitude: 70,
+        trackGeometryToNext: [
+          [30, 70],
+          [30.2, 70],
+          [30.2, 70.001],
+          [30, 70.001],
+        ],
+      },
+    ])!;
+    const outbound = matchToTrack(loop, 30.1, 70.0004)!;
+    const turned = matchToTrack(loop, 30.2, 70.0005, outbound)!;
+    const inbound = matchToTrack(loop, 30.1, 70.0004, turned)!;
+
+    expect(inbound.alongKm).toBeGreaterThan(turned.alongKm);
+    expect(inbound.segmentIndex).toBe(2);
+  });
+
+  it("rejects fixes far from the track", () => {
+    const profile = buildTrackProfile(stations)!;
+    expect(matchToTrack(profile, 30.5, 70.5)).toBeNull();
+  });
+});
+
+describe("splitTrackAt", () => {
+  it("splits the polyline at the snapped point", () => {
+    const profile = buildTrackProfile(stations)!;
+    const position = matchToTrack(profile, 30.25, 70)!;
+    const [passed, remaining] = splitTrackAt(profile, position);
+
+    expect(passed).toEqual([[30, 70], position.point]);
+    expect(remaining[0]).toEqual(position.point);
+    expect(remaining[remaining.length - 1]).toEqual([31, 71]);
+  });
+});
+
+describe("measureTrackProgress", () => {
+  it("measures distance along the bend rather than straight across", () => {
+    const profile = buildTrackProfile(stations)!;
+    const progress = measureTrackProgress(profile, matchToTrack(profile, 30.5, 70)!);
+
+    expect(progress.toStationKm.has(1)).toBe(false);
+    expect(progress.toStationKm.get(3)).toBeCloseTo(legAB / 2 + legBC, 1);
+    expect(progress.toStationKm.get(3)!).toBeGreaterThan(
+      calculateDistance(30.5, 70, 31, 71)
+    );
+    expect(progress.remainingKm).toBeCloseTo(legAB / 2 + legBC, 1);
+  });
+});
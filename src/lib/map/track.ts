@@ -0,0 +1,274 @@
+import type { TrackStation } from '@/services/trackApi';
+import type { TrainStop } from '@/types';
+import { calculateDistance } from '@/utils/time';
+
+/** Kilometres per degree of latitude, used for the local flat projection */
+const KM_PER_DEGREE = 111.32;
+/** A live point further than this from the track is not trusted to be on it */
+export const MAX_SNAP_DISTANCE_KM = 5;
+/** GPS jitter tolerated behind the last matched position before it counts as moving backwards */
+const MATCH_BACKTRACK_KM = 0.3;
+/** How far ahead of the last matched position the next fix is looked for first */
+const MATCH_LOOKAHEAD_KM = 50;
+
+/**
+ * Track polyline with cumulative distances, built once per train
+ */
+export interface TrackProfile {
+  points: [number, number][];
+  /** Kilometres along the track at each point */
+  cumulativeKm: number[];
+  totalKm: number;
+  /** Kilometres along the track at which each station sits */
+  stationKm: Map<number, number>;
+}
+
+/**
+ * A position projected onto the track
+ */
+export interface TrackPosition {
+  /** Snapped [lat, lon] on the track */
+  point: [number, number];
+  /** Index of the segment the point lies on (points[i] → points[i + 1]) */
+  segmentIndex: number;
+  alongKm: number;
+  /** Distance between the raw position and the track */
+  offsetKm: number;
+}
+
+/**
+ * Along-track distances from a live position
+ */
+export interface TrackProgress {
+  position: TrackPosition;
+  travelledKm: number;
+  remainingKm: number;
+  totalKm: number;
+  /** Kilometres left to each station that is still ahead */
+  toStationKm: Map<number, number>;
+}
+
+const isCoordinate = (value: unknown): value is [number, number] =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  typeof value[0] === 'number' &&
+  typeof value[1] === 'number';
+
+/**
+ * Joins the per-station `trackGeometryToNext` polylines into one profile.
+ * Returns null when there are not enough points to form a track.
+ */
+export const buildTrackProfile = (
+  stations: Pick<TrackStation, 'StationId' | 'Latitude' | 'Longitude' | 'trackGeometryToNext'>[]
+): TrackProfile | null => {
+  const points: [number, number][] = [];
+  const segmentStarts: number[] = [];
+
+  stations.forEach((station) => {
+    segmentStarts.push(points.length);
+    if (!Array.isArray(station.trackGeometryToNext)) return;
+    station.trackGeometryToNext.forEach((point) => {
+      if (isCoordinate(point)) points.push([point[0], point[1]]);
+    });
+  });
+
+  if (points.length < 2) return null;
+
+  const cumulativeKm = [0];
+  for (let i = 1; i < points.length; i += 1) {
+    const [lat1, lon1] = points[i - 1];
+    const [lat2, lon2] = points[i];
+    cumulativeKm.push(cumulativeKm[i - 1] + calculateDistance(lat1, lon1, lat2, lon2));
+  }
+
+  const profile: TrackProfile = {
+    points,
+    cumulativeKm,
+    totalKm: cumulativeKm[cumulativeKm.length - 1],
+    stationKm: new Map()
+  };
+
+  stations.forEach((station, index) => {
+    if (profile.stationKm.has(station.StationId)) return;
+    const start = segmentStarts[index];
+    const hasOwnSegment = start < (segmentStarts[index + 1] ?? points.length);
+    if (hasOwnSegment) {
+      profile.stationKm.set(station.StationId, cumulativeKm[start]);
+    } else if (station.Latitude != null && station.Longitude != null) {
+      // Terminus or missing geometry: place the station where it meets the track
+      profile.stationKm.set(
+        station.StationId,
+        projectOntoTrack(profile, station.Latitude, station.Longitude)!.alongKm
+      );
+    }
+  });
+
+  return profile;
+};
+
+/**
+ * Builds a coarse profile from the station coordinates of a route, for trains
+ * whose track geometry is not available.
+ */
+export const buildRouteProfile = (route: TrainStop[]): TrackProfile | null =>
+  buildTrackProfile(
+    route.map((stop) => ({
+      StationId: stop.StationId,
+      Latitude: stop.Latitude,
+      Longitude: stop.Longitude,
+      trackGeometryToNext: [[stop.Latitude, stop.Longitude]]
+    }))
+  );
+
+/**
+ * Projects a coordinate onto the nearest segment of the track. Distances are
+ * measured on a flat projection around the point, which is accurate to well
+ * under a percent at the scale of a single segment.
+ *
+ * With a range, only the part of the track between `fromKm` and `toKm` is
+ * considered.
+ */
+export const projectOntoTrack = (
+  profile: TrackProfile,
+  lat: number,
+  lon: number,
+  range: { fromKm: number; toKm: number } = { fromKm: 0, toKm: Number.POSITIVE_INFINITY }
+): TrackPosition | null => {
+  const kmPerLon = KM_PER_DEGREE * Math.cos((lat * Math.PI) / 180);
+  const toLocal = ([pLat, pLon]: [number, number]) => [
+    (pLon - lon) * kmPerLon,
+    (pLat - lat) * KM_PER_DEGREE
+  ];
+
+  let best: TrackPosition | null = null;
+  let bestDistanceSq = Number.POSITIVE_INFINITY;
+
+  for (let i = 0; i < profile.points.length - 1; i += 1) {
+    const startKm = profile.cumulativeKm[i];
+    const endKm = profile.cumulativeKm[i + 1];
+    if (endKm < range.fromKm || startKm > range.toKm) continue;
+
+    const [ax, ay] = toLocal(profile.points[i]);
+    const [bx, by] = toLocal(profile.points[i + 1]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    let t = lengthSq > 0 ? -(ax * dx + ay * dy) / lengthSq : 0;
+    // Keep the projection inside both the segment and the requested range
+    if (endKm > startKm) {
+      t = Math.max(t, (range.fromKm - startKm) / (endKm - startKm));
+      t = Math.min(t, (range.toKm - startKm) / (endKm - startKm));
+    }
+    t = Math.min(1, Math.max(0, t));
+
+    const px = ax + t * dx;
+    const py = ay + t * dy;
+    const distanceSq = px * px + py * py;
+    if (distanceSq < bestDistanceSq) {
+      bestDistanceSq = distanceSq;
+      const [aLat, aLon] = profile.points[i];
+      const [bLat, bLon] = profile.points[i + 1];
+      best = {
+        point: [aLat + t * (bLat - aLat), aLon + t * (bLon - aLon)],
+        segmentIndex: i,
+        alongKm: startKm + t * (endKm - startKm),
+        offsetKm: Math.sqrt(distanceSq)
+      };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Returns the point at a given distance along the track, clamped to its ends.
+ */
+export const pointAtKm = (profile: TrackProfile, km: number): [number, number] => {
+  const { points, cumulativeKm } = profile;
+  if (km <= 0) return points[0];
+  if (km >= profile.totalKm) return points[points.length - 1];
+
+  // Binary search for the segment containing km
+  let low = 0;
+  let high = cumulativeKm.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (cumulativeKm[mid] <= km) low = mid;
+    else high = mid;
+  }
+
+  const segmentKm = cumulativeKm[high] - cumulativeKm[low];
+  const t = segmentKm > 0 ? (km - cumulativeKm[low]) / segmentKm : 0;
+  const [aLat, aLon] = points[low];
+  const [bLat, bLon] = points[high];
+  return [aLat + t * (bLat - aLat), aLon + t * (bLon - aLon)];
+};
+
+/**
+ * Matches a live fix onto the track. Given the previous match of the same run,
+ * the fix is first looked for just behind to well ahead of it, so a train does
+ * not hop onto a parallel or looping section, and progress never goes
+ * backwards: small reversals from GPS jitter keep the previous position.
+ * Returns null when the fix is too far from the track to be trusted.
+ */
+export const matchToTrack = (
+  profile: TrackProfile,
+  lat: number,
+  lon: number,
+  previous?: TrackPosition | null
+): TrackPosition | null => {
+  let position: TrackPosition | null = null;
+
+  if (previous) {
+    position = projectOntoTrack(profile, lat, lon, {
+      fromKm: previous.alongKm - MATCH_BACKTRACK_KM,
+      toKm: previous.alongKm + MATCH_LOOKAHEAD_KM
+    });
+    if (position && position.offsetKm > MAX_SNAP_DISTANCE_KM) position = null;
+  }
+
+  // No history, or the train has moved further than expected: search everywhere
+  position ??= projectOntoTrack(profile, lat, lon);
+  if (!position || position.offsetKm > MAX_SNAP_DISTANCE_KM) return null;
+
+  if (previous && position.alongKm < previous.alongKm) {
+    return previous.alongKm - position.alongKm <= MATCH_BACKTRACK_KM
+      ? { ...previous, offsetKm: position.offsetKm }
+      : position;
+  }
+  return position;
+};
+
+/**
+ * Measures how far a matched position has come along the track and how far it
+ * is to every station ahead.
+ */
+export const measureTrackProgress = (
+  profile: TrackProfile,
+  position: TrackPosition
+): TrackProgress => {
+  const toStationKm = new Map<number, number>();
+  profile.stationKm.forEach((km, stationId) => {
+    if (km >= position.alongKm) toStationKm.set(stationId, km - position.alongKm);
+  });
+
+  return {
+    position,
+    travelledKm: position.alongKm,
+    remainingKm: profile.totalKm - position.alongKm,
+    totalKm: profile.totalKm,
+    toStationKm
+  };
+};
+
+/**
+ * Splits the track polyline at a matched position into the part already
+ * travelled and the part still ahead, both ending/starting at the snapped point.
+ */
+export const splitTrackAt = (
+  profile: TrackProfile,
+  position: TrackPosition
+): [passed: [number, number][], remaining: [number, number][]] => [
+  [...profile.points.slice(0, position.segmentIndex + 1), position.point],
+  [position.point, ...profile.points.slice(position.segmentIndex + 1)]
+];
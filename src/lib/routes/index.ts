@@ -0,0 +1,119 @@
+/**
+ * Routes library - URL builders and parsers for deep-linkable views
+ */
+
+import type { TrainFilters } from '@/types';
+
+export type AppTab = 'search' | 'network' | 'details' | 'stationUpdates' | 'stationSchedule' | 'diagnostics' | 'settings' | 'plan';
+
+export type StationView = 'updates' | 'schedule';
+
+export const ROUTE_PATTERNS = {
+  search: '/search',
+  network: '/network',
+  train: '/train/:trainId/:date',
+  stationList: '/stations/:view',
+  station: '/station/:stationId/:view',
+  diagnostics: '/diagnostics',
+  settings: '/settings',
+  plan: '/plan',
+} as const;
+
+const STATION_VIEWS: StationView[] = ['updates', 'schedule'];
+
+export const isStationView = (value: unknown): value is StationView =>
+  STATION_VIEWS.includes(value as StationView);
+
+export const stationViewToTab = (view: StationView): AppTab =>
+  view === 'updates' ? 'stationUpdates' : 'stationSchedule';
+
+/**
+ * Serialises the non-default filters into query parameters
+ * (`q`, `live=1`, `passenger=0`, `fav=1`, `dir=up|down`). The passenger-only filter is
+ * on by default, so only switching it off is encoded.
+ */
+export const filtersToSearchParams = (filters: TrainFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.search) params.set('q', filters.search);
+  if (filters.onlyLive) params.set('live', '1');
+  if (!filters.onlyPassenger) params.set('passenger', '0');
+  if (filters.onlyFavourites) params.set('fav', '1');
+  if (filters.direction !== 'all') params.set('dir', filters.direction);
+  return params;
+};
+
+/**
+ * Reads filters back from query parameters. Missing parameters fall back to
+ * the defaults so a bare `/search` resets the filters.
+ */
+export const parseFiltersFromSearchParams = (params: URLSearchParams): TrainFilters => {
+  const dir = params.get('dir');
+  return {
+    search: params.get('q') ?? '',
+    onlyLive: params.get('live') === '1',
+    onlyPassenger: params.get('passenger') !== '0',
+    onlyFavourites: params.get('fav') === '1',
+    direction: dir === 'up' || dir === 'down' ? dir : 'all',
+  };
+};
+
+export const buildSearchPath = (filters?: TrainFilters): string => {
+  const query = filters ? filtersToSearchParams(filters).toString() : '';
+  return query ? `${ROUTE_PATTERNS.search}?${query}` : ROUTE_PATTERNS.search;
+};
+
+/**
+ * Builds `/train/:trainId/:date` from a train unique key (`${TrainId}-${YYYY-MM-DD|no-date}`),
+ * optionally pinning a live run with `?run=`.
+ */
+export const buildTrainPath = (trainKey: string, runId?: string): string => {
+  const separator = trainKey.indexOf('-');
+  const trainId = separator === -1 ? trainKey : trainKey.slice(0, separator);
+  const date = separator === -1 ? 'no-date' : trainKey.slice(separator + 1);
+  const path = `/train/${encodeURIComponent(trainId)}/${encodeURIComponent(date)}`;
+  return runId ? `${path}?${new URLSearchParams({ run: runId }).toString()}` : path;
+};
+
+/**
+ * Inverse of `buildTrainPath`: turns the route params back into a train unique key.
+ */
+export const trainKeyFromParams = (trainId?: string, date?: string): string | undefined => {
+  if (!trainId || !/^\d+$/.test(trainId)) return undefined;
+  return `${trainId}-${date || 'no-date'}`;
+};
+
+export const buildStationPath = (view: StationView, stationId?: number | null): string =>
+  stationId != null ? `/station/${stationId}/${view}` : `/stations/${view}`;
+
+export const parseStationId = (value?: string): number | undefined => {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  return Number(value);
+};
+
+/**
+ * Stations and date of the journey planner, from `/plan?from=&to=&date=`.
+ */
+export interface JourneyQuery {
+  from?: number;
+  to?: number;
+  /** Local `YYYY-MM-DD` */
+  date?: string;
+}
+
+export const buildPlanPath = ({ from, to, date }: JourneyQuery = {}): string => {
+  const params = new URLSearchParams();
+  if (from != null) params.set('from', String(from));
+  if (to != null) params.set('to', String(to));
+  if (date) params.set('date', date);
+  const query = params.toString();
+  return query ? `${ROUTE_PATTERNS.plan}?${query}` : ROUTE_PATTERNS.plan;
+};
+
+export const parsePlanQuery = (params: URLSearchParams): JourneyQuery => {
+  const date = params.get('date');
+  return {
+    from: parseStationId(params.get('from') ?? undefined),
+    to: parseStationId(params.get('to') ?? undefined),
+    date: date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : undefined,
+  };
+};
@@ -0,0 +1,81 @@
+// routes.test.ts
+import {
+  buildSearchPath,
+  buildTrainPath,
+  filtersToSearchParams,
+  parseFiltersFromSearchParams,
+  trainKeyFromParams,
+} from "./index";
+import type { TrainFilters } from "@/types";
+
+// Splits a built path the way the router hands it back
+const readTrainPath = (path: string) => {
+  const url = new URL(path, "https://example.test");
+  const [, , trainId, date] = url.pathname.split("/");
+  return {
+    trainKey: trainKeyFromParams(decodeURIComponent(trainId), decodeURIComponent(date)),
+    runId: url.searchParams.get("run"),
+  };
+};
+
+describe("buildTrainPath and trainKeyFromParams", () => {
+  it("round-trips a key with a date and a pinned run", () => {
+    const path = buildTrainPath("4512-2024-03-09", "459900:a");
+
+    expect(path).toBe("/train/4512/2024-03-09?run=459900%3Aa");
+    expect(readTrainPath(path)).toEqual({ trainKey: "4512-2024-03-09", runId: "459900:a" });
+  });
+
+  it("round-trips a key without a date", () => {
+    expect(buildTrainPath("4512-no-date")).toBe("/train/4512/no-date");
+    expect(buildTrainPath("4512")).toBe("/train/4512/no-date");
+    expect(readTrainPath(buildTrainPath("4512")).trainKey).toBe("4512-no-date");
+  });
+
+  it("treats a missing date as no date", () => {
+    expect(trainKeyFromParams("4512")).toBe("4512-no-date");
+    expect(trainKeyFromParams("4512", "")).toBe("4512-no-date");
+  });
+
+  it("rejects train ids that are not numbers", () => {
+    expect(trainKeyFromParams(undefined, "2024-03-09")).toBeUndefined();
+    expect(trainKeyFromParams("", "2024-03-09")).toBeUndefined();
+    expect(trainKeyFromParams("abc", "2024-03-09")).toBeUndefined();
+    expect(trainKeyFromParams("12a", "2024-03-09")).toBeUndefined();
+    expect(trainKeyFromParams("-1", "2024-03-09")).toBeUndefined();
+  });
+});
+
+describe("search filters in the URL", () => {
+  const defaults: TrainFilters = {
+    search: "",
+    onlyLive: false,
+    onlyPassenger: true,
+    onlyFavourites: false,
+    direction: "all",
+  };
+
+  it("round-trips every filter", () => {
+    const filters: TrainFilters = {
+      search: "Karachi Express",
+      onlyLive: true,
+      onlyPassenger: false,
+      onlyFavourites: true,
+      direction: "down",
+    };
+
+    expect(parseFiltersFromSearchParams(filtersToSearchParams(filters))).toEqual(filters);
+  });
+
+  it("leaves the defaults out of the path and reads a bare path back as the defaults", () => {
+    expect(buildSearchPath(defaults)).toBe("/search");
+    expect(buildSearchPath()).toBe("/search");
+    expect(parseFiltersFromSearchParams(new URLSearchParams())).toEqual(defaults);
+  });
+
+  it("falls back to the defaults for unknown values", () => {
+    const params = new URLSearchParams({ live: "yes", passenger: "no", fav: "true", dir: "sideways" });
+
+    expect(parseFiltersFromSearchParams(params)).toEqual(defaults);
+  });
+});
@@ -4,12 +4,9 @@
 
 export * from './classification';
 export * from './status';
-
-/**
- * Generates a unique key for a train using TrainId and AllocatedDate.
- * This helps differentiate trains with the same ID but different dates.
- */
-export const getTrainUniqueKey = (train: { TrainId: number; AllocatedDate?: string | null }): string => {
-  const date = train.AllocatedDate ? new Date(train.AllocatedDate).toISOString().split('T')[0] : 'no-date';
-  return `${train.TrainId}-${date}`;
-};
+export * from './schedule';
+export * from './prediction';
+export * from './stationBoard';
+export * from './matching';
+export * from './trainIndex';
+export * from './planner';
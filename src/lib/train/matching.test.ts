@@ -0,0 +1,68 @@
+// matching.test.ts
+import { compareMatchEvidence, getMatchEvidence } from "./matching";
+import * as fixtures from "@/test/fixtures";
+import type { LiveTrainDelta, TrainStop } from "@/types";
+
+const makeStop = (
+  StationId: number,
+  ArrivalTime: string | null,
+  DepartureTime: string | null,
+  DayCount: number | null = null
+) => fixtures.makeStop(StationId, { ArrivalTime, DepartureTime, DayCount });
+
+const makeTrain = (route: TrainStop[], AllocatedDate: string | null) =>
+  fixtures.makeTrain(1, route, { IsLive: true, AllocatedDate });
+
+// Seen between stations 1 and 2
+const makeDelta = (lastUpdated: number, live: Partial<LiveTrainDelta> = {}) =>
+  fixtures.makeDelta({ lat: 31.5, lastUpdated, prevStationId: 1, nextStationId: 2, ...live });
+
+const at = (day: number, hours: number, minutes = 0) =>
+  new Date(2024, 0, day, hours, minutes).getTime();
+
+describe("getMatchEvidence", () => {
+  const route = [makeStop(1, null, "10:00"), makeStop(2, "11:00", null)];
+
+  it("fits a train on its segment inside the scheduled window", () => {
+    const evidence = getMatchEvidence(makeTrain(route, "2024-01-01T00:00:00"), makeDelta(at(1, 10, 30)));
+
+    expect(evidence).toEqual({
+      segmentOffsetKm: 0,
+      scheduleDeviationMinutes: 0,
+      impliedDate: "2024-01-01",
+      dateMatches: true,
+    });
+  });
+
+  it("takes the reported delay off the clock before fitting the schedule", () => {
+    const evidence = getMatchEvidence(
+      makeTrain(route, "2024-01-01T00:00:00"),
+      makeDelta(at(1, 12, 30), { lateBy: 90, lon: 71 })
+    );
+
+    expect(evidence.scheduleDeviationMinutes).toBe(0);
+    expect(evidence.segmentOffsetKm).toBeGreaterThan(90);
+  });
+
+  it("counts days from the first DayCount on the route", () => {
+    [0, 1].forEach((firstDay) => {
+      const overnight = [makeStop(1, null, "22:00", firstDay), makeStop(2, "02:00", null, firstDay + 1)];
+      const evidence = getMatchEvidence(makeTrain(overnight, "2024-01-01T00:00:00"), makeDelta(at(2, 1)));
+
+      expect(evidence.scheduleDeviationMinutes).toBe(0);
+      expect(evidence.impliedDate).toBe("2024-01-01");
+      expect(evidence.dateMatches).toBe(true);
+    });
+  });
+});
+
+describe("compareMatchEvidence", () => {
+  const base = { segmentOffsetKm: 1, scheduleDeviationMinutes: 0, impliedDate: "2024-01-01", dateMatches: true };
+
+  it("prefers the segment, then the date, then a clearly better schedule fit", () => {
+    expect(compareMatchEvidence(base, { ...base, segmentOffsetKm: 40 })).toEqual({ order: -1, criterion: "segment" });
+    expect(compareMatchEvidence({ ...base, dateMatches: false }, base)).toEqual({ order: 1, criterion: "date" });
+    expect(compareMatchEvidence(base, { ...base, scheduleDeviationMinutes: 10 })).toEqual({ order: 0 });
+    expect(compareMatchEvidence(base, { ...base, scheduleDeviationMinutes: 45 }).criterion).toBe("schedule");
+  });
+});
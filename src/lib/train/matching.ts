@@ -0,0 +1,150 @@
+import type { LiveTrainDelta, TrainStop, TrainWithRoute } from '@/types';
+import { buildRouteProfile, projectOntoTrack } from '@/lib/map/track';
+import { calculateDistance } from '@/utils/time';
+import { MINUTES_PER_DAY, buildRouteTimeline, getLocalMidnight, toLocalDateKey } from './schedule';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/** A live position within this distance of a candidate's segment counts as lying on it */
+export const SEGMENT_MATCH_KM = 10;
+/** Schedule fits closer together than this do not separate two candidates */
+export const SCHEDULE_TIE_MARGIN_MINUTES = 20;
+
+/**
+ * How well a live delta fits one candidate train beyond the shared stations
+ */
+export interface MatchEvidence {
+  /** Distance from the candidate's prev → next segment; null when the segment is not on its route */
+  segmentOffsetKm: number | null;
+  /** Minutes the delay-corrected clock lies outside the scheduled window for the segment */
+  scheduleDeviationMinutes: number | null;
+  /** Origin date (local `YYYY-MM-DD`) implied by the clock, the schedule and DayCount */
+  impliedDate: string | null;
+  /** Whether the implied date is the candidate's AllocatedDate; null when either is unknown */
+  dateMatches: boolean | null;
+}
+
+export type TieBreakCriterion = 'segment' | 'date' | 'schedule';
+
+/**
+ * Stop times in minutes from origin midnight. DayCount, when the route carries
+ * it, decides the day (counted from the first day on the route); otherwise the
+ * day is inferred from the clock times rolling over.
+ */
+const buildDayAwareTimeline = (route: TrainStop[]) => {
+  const timeline = buildRouteTimeline(route);
+  const dayCounts = route.map((stop) => stop.DayCount).filter((day): day is number => day != null);
+  const firstDay = dayCounts.length > 0 ? Math.min(...dayCounts) : null;
+
+  const place = (minutes: number | null, dayCount: number | null) =>
+    minutes === null || firstDay === null || dayCount == null
+      ? minutes
+      : (dayCount - firstDay) * MINUTES_PER_DAY + (minutes % MINUTES_PER_DAY);
+
+  return timeline.map(({ arrival, departure }, index) => ({
+    arrival: place(arrival, route[index].DayCount),
+    departure: place(departure, route[index].DayCount)
+  }));
+};
+
+/**
+ * Route indexes bounding the live position: the delta's prev and next stops,
+ * or the neighbour of whichever one the route has.
+ */
+const findSegment = (route: TrainStop[], delta: LiveTrainDelta): [number, number] | null => {
+  const prevIndex = delta.prevStationId != null ? route.findIndex((stop) => stop.StationId === delta.prevStationId) : -1;
+  const nextIndex = delta.nextStationId != null ? route.findIndex((stop) => stop.StationId === delta.nextStationId) : -1;
+  const from = prevIndex !== -1 ? prevIndex : nextIndex - 1;
+  const to = nextIndex !== -1 ? nextIndex : prevIndex !== -1 ? prevIndex + 1 : -1;
+  if (from < 0 || to < 0 || to >= route.length || from > to) return null;
+  return [from, to];
+};
+
+/**
+ * Measures a delta against a candidate's route geometry, schedule and date.
+ * The delta's own timestamp is used so the result does not depend on when it
+ * is evaluated.
+ */
+export const getMatchEvidence = (train: TrainWithRoute, delta: LiveTrainDelta): MatchEvidence => {
+  const segment = findSegment(train.route, delta);
+  if (!segment) {
+    return { segmentOffsetKm: null, scheduleDeviationMinutes: null, impliedDate: null, dateMatches: null };
+  }
+
+  const [from, to] = segment;
+  const stops = train.route.slice(from, to + 1);
+  const profile = buildRouteProfile(stops);
+  const offsetKm = profile
+    ? projectOntoTrack(profile, delta.lat, delta.lon)?.offsetKm ?? null
+    : calculateDistance(delta.lat, delta.lon, stops[0].Latitude, stops[0].Longitude);
+  const segmentOffsetKm = offsetKm === null ? null : Math.round(offsetKm * 10) / 10;
+
+  const timeline = buildDayAwareTimeline(train.route);
+  const start = timeline[from].departure ?? timeline[from].arrival;
+  const end = timeline[to].arrival ?? timeline[to].departure;
+  if (start === null || end === null) {
+    return { segmentOffsetKm, scheduleDeviationMinutes: null, impliedDate: null, dateMatches: null };
+  }
+  const windowStart = Math.min(start, end);
+  const windowEnd = Math.max(start, end);
+
+  // Where the train would be on the timetable if it were on time
+  const scheduleClock = delta.lastUpdated - (delta.lateBy ?? 0) * MS_PER_MINUTE;
+  const approxOrigin = scheduleClock - ((windowStart + windowEnd) / 2) * MS_PER_MINUTE;
+  const impliedOrigin = getLocalMidnight(approxOrigin + MINUTES_PER_DAY * MS_PER_MINUTE / 2);
+  const impliedDate = toLocalDateKey(impliedOrigin);
+
+  const allocated = train.AllocatedDate ? Date.parse(train.AllocatedDate) : NaN;
+  const allocatedOrigin = Number.isFinite(allocated) ? getLocalMidnight(allocated) : null;
+  const origin = allocatedOrigin ?? impliedOrigin;
+
+  const windowStartAt = origin + windowStart * MS_PER_MINUTE;
+  const windowEndAt = origin + windowEnd * MS_PER_MINUTE;
+  const outsideMs =
+    scheduleClock < windowStartAt
+      ? windowStartAt - scheduleClock
+      : scheduleClock > windowEndAt
+        ? scheduleClock - windowEndAt
+        : 0;
+
+  return {
+    segmentOffsetKm,
+    scheduleDeviationMinutes: Math.round(outsideMs / MS_PER_MINUTE),
+    impliedDate,
+    dateMatches: allocatedOrigin === null ? null : toLocalDateKey(allocatedOrigin) === impliedDate
+  };
+};
+
+const isOnSegment = (evidence: MatchEvidence) =>
+  evidence.segmentOffsetKm !== null && evidence.segmentOffsetKm <= SEGMENT_MATCH_KM;
+
+const TIE_BREAKERS: Array<[TieBreakCriterion, (a: MatchEvidence, b: MatchEvidence) => number]> = [
+  ['segment', (a, b) => Number(isOnSegment(b)) - Number(isOnSegment(a))],
+  ['date', (a, b) => Number(b.dateMatches === true) - Number(a.dateMatches === true)],
+  [
+    'schedule',
+    (a, b) => {
+      if (a.scheduleDeviationMinutes === null || b.scheduleDeviationMinutes === null) {
+        return Number(a.scheduleDeviationMinutes === null) - Number(b.scheduleDeviationMinutes === null);
+      }
+      const difference = a.scheduleDeviationMinutes - b.scheduleDeviationMinutes;
+      return Math.abs(difference) < SCHEDULE_TIE_MARGIN_MINUTES ? 0 : difference;
+    }
+  ]
+];
+
+/**
+ * Orders two candidates by their evidence: lying on the segment first, then
+ * running on the allocated date, then fitting the schedule. A negative order
+ * means `a` is the better match; 0 means the evidence cannot tell them apart.
+ */
+export const compareMatchEvidence = (
+  a: MatchEvidence,
+  b: MatchEvidence
+): { order: number; criterion?: TieBreakCriterion } => {
+  for (const [criterion, compare] of TIE_BREAKERS) {
+    const order = compare(a, b);
+    if (order !== 0) return { order, criterion };
+  }
+  return { order: 0 };
+};
@@ -0,0 +1,104 @@
+// planner.test.ts
+import { planJourneys } from "./planner";
+import * as fixtures from "@/test/fixtures";
+import type { LiveTrainDelta, TrainWithRoute } from "@/types";
+
+const makeTrain = (
+  TrainId: number,
+  stops: Array<[stationId: number, time: string]>,
+  extra: Partial<TrainWithRoute> = {}
+) =>
+  fixtures.makeTrain(
+    TrainId,
+    stops.map(([stationId, time], index) =>
+      fixtures.makeStop(stationId, { ArrivalTime: time, DepartureTime: time, OrderNumber: index + 1 })
+    ),
+    extra
+  );
+
+const makeLive = (live: Partial<LiveTrainDelta>) => fixtures.makeDelta({ id: "live:a", trainKey: "live", ...live });
+
+const at = (hours: number, minutes = 0, day = 15) => new Date(2025, 0, day, hours, minutes).getTime();
+const date = "2025-01-15";
+
+describe("planJourneys", () => {
+  it("lists the trains calling at both stations in order, by departure", () => {
+    const trains = [
+      makeTrain(1, [[1, "10:00"], [2, "11:00"], [3, "12:30"]]),
+      makeTrain(2, [[3, "06:00"], [2, "07:00"], [1, "08:00"]]),
+      makeTrain(3, [[1, "07:15"], [3, "09:00"]]),
+    ];
+
+    const { direct } = planJourneys(trains, 1, 3, { date, now: at(5) });
+
+    expect(direct.map((journey) => journey.legs[0].train.TrainId)).toEqual([3, 1]);
+    expect(direct[1]).toMatchObject({ departure: at(10), arrival: at(12, 30), durationMinutes: 150 });
+  });
+
+  it("carries overnight services into the next day", () => {
+    const trains = [makeTrain(1, [[1, "22:00"], [2, "23:30"], [3, "02:15"]])];
+
+    const [journey] = planJourneys(trains, 1, 3, { date, now: at(5) }).direct;
+
+    expect(journey.arrival).toBe(at(2, 15, 16));
+    expect(journey.durationMinutes).toBe(255);
+  });
+
+  it("only uses dated trains on their allocated date", () => {
+    const trains = [
+      makeTrain(1, [[1, "10:00"], [2, "11:00"]], { AllocatedDate: "2025-01-15T00:00:00" }),
+      makeTrain(1, [[1, "10:00"], [2, "11:00"]], { AllocatedDate: "2025-01-16T00:00:00" }),
+    ];
+
+    const { direct } = planJourneys(trains, 1, 2, { date, now: at(5) });
+
+    expect(direct).toHaveLength(1);
+    expect(direct[0].legs[0].train.AllocatedDate).toBe("2025-01-15T00:00:00");
+  });
+
+  it("connects at an interchange with at least the minimum transfer time", () => {
+    const trains = [
+      makeTrain(1, [[1, "08:00"], [5, "10:00"]]),
+      makeTrain(2, [[4, "09:00"], [5, "10:10"], [9, "12:00"]]),
+      makeTrain(3, [[5, "10:40"], [9, "12:30"]]),
+    ];
+
+    const { direct, connections } = planJourneys(trains, 1, 9, { date, now: at(5), minTransferMinutes: 20 });
+
+    expect(direct).toHaveLength(0);
+    expect(connections).toHaveLength(1);
+    expect(connections[0].legs.map((leg) => leg.train.TrainId)).toEqual([1, 3]);
+    expect(connections[0].transfer).toMatchObject({ stationId: 5, minutes: 40, isAtRisk: false });
+    expect(connections[0]).toMatchObject({ departure: at(8), arrival: at(12, 30), durationMinutes: 270 });
+  });
+
+  it("leaves out connections a direct train beats", () => {
+    const trains = [
+      makeTrain(1, [[1, "08:00"], [5, "10:00"]]),
+      makeTrain(2, [[5, "10:30"], [9, "12:30"]]),
+      makeTrain(3, [[1, "08:30"], [5, "10:20"], [9, "12:00"]]),
+    ];
+
+    const { direct, connections } = planJourneys(trains, 1, 9, { date, now: at(5) });
+
+    expect(direct).toHaveLength(1);
+    expect(connections).toHaveLength(0);
+  });
+
+  it("adds the predicted delay of a live train and flags a connection it will miss", () => {
+    const late = makeTrain(1, [[1, "08:00"], [5, "10:00"]], {
+      livePosition: makeLive({ nextStationId: 1, lateBy: 30 }),
+    });
+    const trains = [late, makeTrain(2, [[5, "10:25"], [9, "12:00"]])];
+
+    const [journey] = planJourneys(trains, 1, 9, { date, now: at(7, 50) }).connections;
+
+    expect(journey.legs[0].live).toMatchObject({
+      predictedDeparture: at(8, 30),
+      hasDeparted: false,
+    });
+    expect(journey.legs[0].live!.delayMinutes).toBeGreaterThan(20);
+    expect(journey.legs[1].live).toBeUndefined();
+    expect(journey.transfer?.isAtRisk).toBe(true);
+  });
+});
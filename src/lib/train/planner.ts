@@ -0,0 +1,296 @@
+import type { TrainStop, TrainWithRoute } from '@/types';
+import { predictTrainStops } from './prediction';
+import { MINUTES_PER_DAY, buildRouteTimeline, getLocalMidnight, parseLocalDateKey } from './schedule';
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = MINUTES_PER_DAY * MS_PER_MINUTE;
+
+/** Shortest change between two trains at an interchange station */
+export const MIN_TRANSFER_MINUTES = 20;
+/** Longest wait at an interchange station still offered as a connection */
+export const MAX_TRANSFER_MINUTES = 6 * 60;
+/** Connections listed per plan, earliest departure first */
+export const MAX_CONNECTIONS = 10;
+
+/**
+ * Where a live train is expected to be relative to one leg of a journey.
+ */
+export interface JourneyLegLive {
+  /** Predicted arrival delay at the end of the leg, in minutes */
+  delayMinutes: number;
+  /** Null once the train has left the boarding station */
+  predictedDeparture: number | null;
+  predictedArrival: number;
+  hasDeparted: boolean;
+}
+
+/**
+ * One train ridden from a boarding to an alighting station, with scheduled
+ * times as timestamps of the run on the planned date.
+ */
+export interface JourneyLeg {
+  train: TrainWithRoute;
+  from: TrainStop;
+  to: TrainStop;
+  departure: number;
+  arrival: number;
+  live?: JourneyLegLive;
+}
+
+export interface JourneyTransfer {
+  stationId: number;
+  stationName: string;
+  /** Scheduled time between the two trains */
+  minutes: number;
+  /** The first train is predicted to arrive too late to make the change */
+  isAtRisk: boolean;
+}
+
+export interface Journey {
+  legs: JourneyLeg[];
+  departure: number;
+  arrival: number;
+  durationMinutes: number;
+  transfer?: JourneyTransfer;
+}
+
+export interface JourneyPlan {
+  /** Trains calling at both stations in order, by departure */
+  direct: Journey[];
+  /** One change of train, by departure */
+  connections: Journey[];
+}
+
+export interface JourneyPlanOptions {
+  /** Local `YYYY-MM-DD` the journey departs on */
+  date: string;
+  now?: number;
+  minTransferMinutes?: number;
+  maxTransferMinutes?: number;
+  maxConnections?: number;
+}
+
+type Timeline = ReturnType<typeof buildRouteTimeline>;
+
+const departureOf = (timeline: Timeline, index: number) =>
+  timeline[index].departure ?? timeline[index].arrival;
+
+const arrivalOf = (timeline: Timeline, index: number) =>
+  timeline[index].arrival ?? timeline[index].departure;
+
+/**
+ * Origin midnight of the first run of a train that reaches a stop `minutes`
+ * into its timeline at or after `earliest`. Dated trains only run on their
+ * AllocatedDate; trains without one are taken to run every day.
+ */
+const placeRun = (train: TrainWithRoute, minutes: number, earliest: number): number | null => {
+  const allocated = train.AllocatedDate ? Date.parse(train.AllocatedDate) : NaN;
+  if (Number.isFinite(allocated)) {
+    const origin = getLocalMidnight(allocated);
+    return origin + minutes * MS_PER_MINUTE >= earliest ? origin : null;
+  }
+  let origin = getLocalMidnight(earliest) - Math.floor(minutes / MINUTES_PER_DAY) * MS_PER_DAY;
+  if (origin + minutes * MS_PER_MINUTE < earliest) origin += MS_PER_DAY;
+  return origin;
+};
+
+const buildLeg = (
+  train: TrainWithRoute,
+  timeline: Timeline,
+  origin: number,
+  fromIndex: number,
+  toIndex: number
+): JourneyLeg => ({
+  train,
+  from: train.route[fromIndex],
+  to: train.route[toIndex],
+  departure: origin + departureOf(timeline, fromIndex)! * MS_PER_MINUTE,
+  arrival: origin + arrivalOf(timeline, toIndex)! * MS_PER_MINUTE,
+});
+
+const toJourney = (legs: JourneyLeg[], transfer?: JourneyTransfer): Journey => {
+  const departure = legs[0].departure;
+  const arrival = legs[legs.length - 1].arrival;
+  return {
+    legs,
+    departure,
+    arrival,
+    durationMinutes: Math.round((arrival - departure) / MS_PER_MINUTE),
+    transfer,
+  };
+};
+
+/**
+ * Adds the shared prediction to a leg when the train's live run is the one
+ * the leg rides, recognised by the prediction's schedule for the alighting
+ * station matching the leg's.
+ */
+const withLivePrediction = (leg: JourneyLeg, now: number): JourneyLeg => {
+  const prediction = predictTrainStops(leg.train, { now });
+  const atTo = prediction?.byStationId.get(leg.to.StationId);
+  if (!prediction || !atTo) return leg;
+  const scheduled = atTo.scheduledArrival ?? atTo.scheduledDeparture;
+  if (scheduled === null || Math.abs(scheduled - leg.arrival) >= MS_PER_MINUTE) return leg;
+
+  const atFrom = prediction.byStationId.get(leg.from.StationId);
+  const boardsAhead = atFrom !== undefined && atFrom.index < atTo.index;
+  return {
+    ...leg,
+    live: {
+      delayMinutes: atTo.delayMinutes,
+      predictedDeparture: boardsAhead ? atFrom.predictedDeparture ?? atFrom.predictedArrival : null,
+      predictedArrival: atTo.predictedArrival,
+      hasDeparted: !boardsAhead,
+    },
+  };
+};
+
+/**
+ * Drops journeys another one beats: leaving no earlier and arriving no later.
+ */
+const keepUndominated = (journeys: Journey[], competitors: Journey[] = []): Journey[] => {
+  const byArrival = [...journeys].sort((a, b) => a.arrival - b.arrival || b.departure - a.departure);
+  const kept: Journey[] = [];
+  let latestDeparture = -Infinity;
+  byArrival.forEach((journey) => {
+    if (journey.departure <= latestDeparture) return;
+    if (competitors.some((other) => other.departure >= journey.departure && other.arrival <= journey.arrival)) {
+      return;
+    }
+    kept.push(journey);
+    latestDeparture = journey.departure;
+  });
+  return kept;
+};
+
+/**
+ * Plans journeys from one station to another departing on a given date:
+ * every train calling at both in order, and connections changing train once
+ * at a station both trains call at, with at least `minTransferMinutes` and at
+ * most `maxTransferMinutes` between them. Connections that a direct train or
+ * another connection beats are left out. Legs of live trains carry their
+ * predicted times, and a connection whose first train is predicted to miss the
+ * change is flagged.
+ */
+export const planJourneys = (
+  trains: TrainWithRoute[],
+  fromStationId: number,
+  toStationId: number,
+  {
+    date,
+    now = Date.now(),
+    minTransferMinutes = MIN_TRANSFER_MINUTES,
+    maxTransferMinutes = MAX_TRANSFER_MINUTES,
+    maxConnections = MAX_CONNECTIONS,
+  }: JourneyPlanOptions
+): JourneyPlan => {
+  const dayStart = parseLocalDateKey(date);
+  if (dayStart === null || fromStationId === toStationId) return { direct: [], connections: [] };
+  const dayEnd = dayStart + MS_PER_DAY;
+
+  const timelines = new Map<TrainWithRoute, Timeline>();
+  const timelineOf = (train: TrainWithRoute) => {
+    let timeline = timelines.get(train);
+    if (!timeline) {
+      timeline = buildRouteTimeline(train.route);
+      timelines.set(train, timeline);
+    }
+    return timeline;
+  };
+
+  const direct: Journey[] = [];
+  // Trains leaving the origin on the date without reaching the destination
+  const firstLegs: Array<{ train: TrainWithRoute; fromIndex: number; origin: number }> = [];
+  // Trains reaching the destination without calling at the origin first, by station before it
+  const secondLegs: Array<{ train: TrainWithRoute; toIndex: number; indexByStation: Map<number, number> }> = [];
+
+  trains.forEach((train) => {
+    const timeline = timelineOf(train);
+    const fromIndex = train.route.findIndex(
+      (stop, index) => stop.StationId === fromStationId && departureOf(timeline, index) !== null
+    );
+    const toIndex = train.route.findIndex(
+      (stop, index) => index > fromIndex && stop.StationId === toStationId && arrivalOf(timeline, index) !== null
+    );
+
+    if (fromIndex !== -1) {
+      const leaves = departureOf(timeline, fromIndex)!;
+      const origin = placeRun(train, leaves, dayStart);
+      if (origin !== null && origin + leaves * MS_PER_MINUTE < dayEnd) {
+        if (toIndex !== -1) {
+          direct.push(toJourney([buildLeg(train, timeline, origin, fromIndex, toIndex)]));
+        } else {
+          firstLegs.push({ train, fromIndex, origin });
+        }
+      }
+    }
+
+    const reachIndex = train.route.findIndex(
+      (stop, index) => stop.StationId === toStationId && arrivalOf(timeline, index) !== null
+    );
+    if (reachIndex === -1) return;
+    const indexByStation = new Map<number, number>();
+    train.route.slice(0, reachIndex).forEach((stop, index) => {
+      if (!indexByStation.has(stop.StationId) && departureOf(timeline, index) !== null) {
+        indexByStation.set(stop.StationId, index);
+      }
+    });
+    if (!indexByStation.has(fromStationId)) {
+      secondLegs.push({ train, toIndex: reachIndex, indexByStation });
+    }
+  });
+
+  const connections: Journey[] = [];
+  firstLegs.forEach((first) => {
+    const firstTimeline = timelineOf(first.train);
+    secondLegs.forEach((second) => {
+      if (second.train.TrainId === first.train.TrainId) return;
+      const secondTimeline = timelineOf(second.train);
+      let best: Journey | undefined;
+
+      for (let changeIndex = first.fromIndex + 1; changeIndex < first.train.route.length; changeIndex += 1) {
+        const boardIndex = second.indexByStation.get(first.train.route[changeIndex].StationId);
+        const reach = arrivalOf(firstTimeline, changeIndex);
+        if (boardIndex === undefined || reach === null) continue;
+
+        const firstLeg = buildLeg(first.train, firstTimeline, first.origin, first.fromIndex, changeIndex);
+        const earliest = firstLeg.arrival + minTransferMinutes * MS_PER_MINUTE;
+        const origin = placeRun(second.train, departureOf(secondTimeline, boardIndex)!, earliest);
+        if (origin === null) continue;
+        const secondLeg = buildLeg(second.train, secondTimeline, origin, boardIndex, second.toIndex);
+        const minutes = Math.round((secondLeg.departure - firstLeg.arrival) / MS_PER_MINUTE);
+        if (minutes > maxTransferMinutes) continue;
+
+        const journey = toJourney([firstLeg, secondLeg], {
+          stationId: firstLeg.to.StationId,
+          stationName: firstLeg.to.StationName,
+          minutes,
+          isAtRisk: false,
+        });
+        // Between the same two trains the shortest wait is the one worth showing
+        const isBetter =
+          !best ||
+          journey.arrival < best.arrival ||
+          (journey.arrival === best.arrival && minutes < best.transfer!.minutes);
+        if (isBetter) best = journey;
+      }
+      if (best) connections.push(best);
+    });
+  });
+
+  const enrich = (journey: Journey): Journey => {
+    const legs = journey.legs.map((leg) => withLivePrediction(leg, now));
+    if (!journey.transfer) return { ...journey, legs };
+    const [first, second] = legs;
+    const reach = first.live?.predictedArrival ?? first.arrival;
+    const leave = second.live?.predictedDeparture ?? second.departure;
+    const isAtRisk = leave - reach < minTransferMinutes * MS_PER_MINUTE;
+    return { ...journey, legs, transfer: { ...journey.transfer, isAtRisk } };
+  };
+
+  const byDeparture = (a: Journey, b: Journey) => a.departure - b.departure || a.arrival - b.arrival;
+  return {
+    direct: direct.sort(byDeparture).map(enrich),
+    connections: keepUndominated(connections, direct).sort(byDeparture).slice(0, maxConnections).map(enrich),
+  };
+};
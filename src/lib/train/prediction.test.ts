@@ -0,0 +1,71 @@
+// prediction.test.ts
+import { predictTrainStops, RECOVERY_RATIO } from "./prediction";
+import * as fixtures from "@/test/fixtures";
+import type { LiveTrainDelta, TrainStop } from "@/types";
+
+const makeStop = (StationId: number, ArrivalTime: string | null, DepartureTime: string | null) =>
+  fixtures.makeStop(StationId, { ArrivalTime, DepartureTime });
+
+const makeTrain = (route: TrainStop[], live?: Partial<LiveTrainDelta>) =>
+  fixtures.makeTrain(1, route, {
+    IsLive: true,
+    // No speed, so the schedule-based estimate is used on its own
+    livePosition: live && fixtures.makeDelta({ trainNumber: 1, ...live }),
+  });
+
+const at = (day: number, hours: number, minutes = 0) =>
+  new Date(2024, 0, day, hours, minutes).getTime();
+
+const route = [
+  makeStop(1, null, "10:00"),
+  makeStop(2, "11:00", "11:10"),
+  makeStop(3, "12:00", null),
+];
+
+describe("predictTrainStops", () => {
+  it("returns null without a live position", () => {
+    expect(predictTrainStops(makeTrain(route), { now: at(1, 10) })).toBeNull();
+  });
+
+  it("absorbs delay in dwell time and recovery margin", () => {
+    const train = makeTrain(route, { lateBy: 15, prevStationId: 1, nextStationId: 2 });
+    const prediction = predictTrainStops(train, { now: at(1, 10, 30) })!;
+
+    const [next, last] = prediction.stops;
+    expect(next.predictedArrival).toBe(at(1, 11, 15));
+    expect(next.predictedDeparture).toBe(at(1, 11, 16));
+
+    // 6 minutes late leaving, minus the recovery share of the 50 minute run
+    const expectedDelay = 6 - 50 * RECOVERY_RATIO;
+    expect(last.predictedArrival).toBe(at(1, 12) + expectedDelay * 60000);
+    expect(last.predictedDeparture).toBeNull();
+  });
+
+  it("never predicts a later stop ahead of the timetable", () => {
+    const train = makeTrain(route, { lateBy: -5, prevStationId: 1, nextStationId: 2 });
+    const prediction = predictTrainStops(train, { now: at(1, 10, 30) })!;
+
+    expect(prediction.stops[0].delayMinutes).toBe(-5);
+    expect(prediction.stops[0].predictedDeparture).toBe(at(1, 11, 10));
+    expect(prediction.stops[1].delayMinutes).toBe(0);
+  });
+
+  it("follows services past midnight", () => {
+    const overnight = [makeStop(1, null, "23:00"), makeStop(2, "00:30", "00:35"), makeStop(3, "02:00", null)];
+    const train = makeTrain(overnight, { lateBy: 0, prevStationId: 1, nextStationId: 2 });
+    const prediction = predictTrainStops(train, { now: at(1, 23, 30) })!;
+
+    expect(prediction.stops[0].predictedArrival).toBe(at(2, 0, 30));
+    expect(prediction.stops[1].predictedArrival).toBe(at(2, 2));
+  });
+
+  it("widens the confidence band further down the route", () => {
+    const train = makeTrain(route, { lateBy: 15, prevStationId: 1, nextStationId: 2 });
+    const [next, last] = predictTrainStops(train, { now: at(1, 10, 30) })!.stops;
+
+    const spread = (stop: typeof next) => stop.latestArrival - stop.earliestArrival;
+    expect(spread(last)).toBeGreaterThan(spread(next));
+    expect(next.earliestArrival).toBeLessThanOrEqual(next.predictedArrival);
+    expect(last.latestArrival).toBeGreaterThan(last.predictedArrival);
+  });
+});
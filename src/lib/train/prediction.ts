@@ -0,0 +1,193 @@
+import type { LiveTrainDelta, TrainWithRoute } from '@/types';
+import { calculateDistance, formatClockTime, formatDuration, formatLateBy } from '@/utils/time';
+import { MINUTES_PER_DAY, buildRouteTimeline } from './schedule';
+
+const MS_PER_MINUTE = 60 * 1000;
+const HALF_DAY_MS = 12 * 60 * MS_PER_MINUTE;
+
+/** Shortest stop a late train makes at an intermediate station */
+export const MIN_DWELL_MINUTES = 1;
+/** Share of the scheduled running time a late train can make up between two stops */
+export const RECOVERY_RATIO = 0.05;
+/** Below this speed the distance/speed estimate is not used */
+const MIN_KINEMATIC_SPEED_KMH = 5;
+/** Within this distance of the next stop the distance/speed estimate dominates */
+const KINEMATIC_HORIZON_KM = 40;
+/** Width of the confidence band: a base, growth per hour ahead and a share of the delay */
+const BASE_SPREAD_MINUTES = 2;
+const SPREAD_PER_HOUR_MINUTES = 3;
+const SPREAD_DELAY_RATIO = 0.15;
+
+export type PredictionConfidence = 'high' | 'medium' | 'low';
+
+export interface StopPrediction {
+  index: number;
+  stationId: number;
+  stationName: string;
+  scheduledArrival: number | null;
+  scheduledDeparture: number | null;
+  predictedArrival: number;
+  predictedDeparture: number | null;
+  /** Predicted arrival delay in minutes (negative when early) */
+  delayMinutes: number;
+  earliestArrival: number;
+  latestArrival: number;
+  confidence: PredictionConfidence;
+}
+
+export interface TrainPrediction {
+  runId: string;
+  generatedAt: number;
+  /** Route index of the next stop */
+  nextIndex: number;
+  /** Remaining stops, starting with the next one */
+  stops: StopPrediction[];
+  byStationId: Map<number, StopPrediction>;
+}
+
+export interface PredictionOptions {
+  now?: number;
+  /** Distance to the next stop, e.g. measured along the track; defaults to straight line */
+  distanceToNextKm?: number | null;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const findNextStopIndex = (train: TrainWithRoute, live: LiveTrainDelta): number => {
+  const byLive = train.route.findIndex((stop) => stop.StationId === live.nextStationId);
+  if (byLive !== -1) return byLive;
+  if (!train.upcomingStop) return -1;
+  return train.route.findIndex((stop) => stop.StationId === train.upcomingStop!.StationId);
+};
+
+const getConfidence = (spreadMinutes: number): PredictionConfidence =>
+  spreadMinutes <= 5 ? 'high' : spreadMinutes <= 15 ? 'medium' : 'low';
+
+/**
+ * Predicts arrival and departure at every remaining stop of a live train.
+ *
+ * The next stop is estimated from the reported delay, blended with
+ * distance/speed as the train gets close. From there the delay is carried
+ * down the route: late trains shorten their dwell to MIN_DWELL_MINUTES and
+ * make up RECOVERY_RATIO of each running time, but never run ahead of the
+ * timetable. Returns null without a live position or a known next stop.
+ */
+export const predictTrainStops = (
+  train: TrainWithRoute,
+  options: PredictionOptions = {}
+): TrainPrediction | null => {
+  const live = train.livePosition;
+  if (!live || train.route.length === 0) return null;
+
+  const nextIndex = findNextStopIndex(train, live);
+  if (nextIndex === -1) return null;
+
+  const timeline = buildRouteTimeline(train.route);
+  const nextScheduled = timeline[nextIndex].arrival ?? timeline[nextIndex].departure;
+  if (nextScheduled === null) return null;
+
+  const now = options.now ?? Date.now();
+  const reportedDelay = live.lateBy ?? 0;
+
+  // Anchor the timeline on the occurrence of the next stop closest to now
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+  let nextScheduledAt =
+    midnight.getTime() + (nextScheduled % MINUTES_PER_DAY) * MS_PER_MINUTE;
+  const expectedAt = nextScheduledAt + reportedDelay * MS_PER_MINUTE;
+  if (expectedAt - now > HALF_DAY_MS) nextScheduledAt -= MINUTES_PER_DAY * MS_PER_MINUTE;
+  else if (now - expectedAt > HALF_DAY_MS) nextScheduledAt += MINUTES_PER_DAY * MS_PER_MINUTE;
+
+  const toTimestamp = (minutes: number | null) =>
+    minutes === null ? null : nextScheduledAt + (minutes - nextScheduled) * MS_PER_MINUTE;
+
+  // Arrival at the next stop
+  const nextStop = train.route[nextIndex];
+  let arrival = Math.max(now, nextScheduledAt + reportedDelay * MS_PER_MINUTE);
+  const distanceKm =
+    options.distanceToNextKm ??
+    (nextStop.Latitude != null && nextStop.Longitude != null
+      ? calculateDistance(live.lat, live.lon, nextStop.Latitude, nextStop.Longitude)
+      : null);
+  if (distanceKm != null && live.speed != null && live.speed >= MIN_KINEMATIC_SPEED_KMH) {
+    const kinematicArrival = now + (distanceKm / live.speed) * 60 * MS_PER_MINUTE;
+    const weight = clamp(1 - distanceKm / KINEMATIC_HORIZON_KM, 0.2, 0.8);
+    arrival = weight * kinematicArrival + (1 - weight) * arrival;
+  }
+
+  const stops: StopPrediction[] = [];
+  let previousDeparture: number | null = null;
+
+  for (let index = nextIndex; index < train.route.length; index += 1) {
+    const stop = train.route[index];
+    const scheduledArrival = toTimestamp(timeline[index].arrival);
+    const scheduledDeparture = toTimestamp(timeline[index].departure);
+
+    if (index > nextIndex && previousDeparture !== null) {
+      const previousScheduledDeparture = toTimestamp(
+        timeline[index - 1].departure ?? timeline[index - 1].arrival
+      )!;
+      const scheduledReach = scheduledArrival ?? scheduledDeparture!;
+      const runMs = Math.max(0, scheduledReach - previousScheduledDeparture);
+      arrival = Math.max(previousDeparture + runMs * (1 - RECOVERY_RATIO), scheduledReach);
+    }
+
+    let predictedDeparture: number | null = null;
+    if (scheduledDeparture !== null) {
+      const scheduledDwell =
+        scheduledArrival !== null ? (scheduledDeparture - scheduledArrival) / MS_PER_MINUTE : 0;
+      const minDwell = Math.min(scheduledDwell, MIN_DWELL_MINUTES);
+      predictedDeparture = Math.max(scheduledDeparture, arrival + minDwell * MS_PER_MINUTE);
+    }
+
+    const reference = scheduledArrival ?? scheduledDeparture!;
+    const delayMinutes = Math.round((arrival - reference) / MS_PER_MINUTE);
+    const hoursAhead = Math.max(0, arrival - now) / (60 * MS_PER_MINUTE);
+    const spread =
+      BASE_SPREAD_MINUTES +
+      SPREAD_PER_HOUR_MINUTES * hoursAhead +
+      SPREAD_DELAY_RATIO * Math.max(0, delayMinutes);
+
+    stops.push({
+      index,
+      stationId: stop.StationId,
+      stationName: stop.StationName,
+      scheduledArrival,
+      scheduledDeparture,
+      predictedArrival: arrival,
+      predictedDeparture,
+      delayMinutes,
+      earliestArrival: Math.max(now, arrival - (spread / 2) * MS_PER_MINUTE),
+      latestArrival: arrival + spread * MS_PER_MINUTE,
+      confidence: getConfidence(spread),
+    });
+
+    previousDeparture = predictedDeparture ?? arrival;
+  }
+
+  const byStationId = new Map<number, StopPrediction>();
+  stops.forEach((prediction) => {
+    if (!byStationId.has(prediction.stationId)) byStationId.set(prediction.stationId, prediction);
+  });
+
+  return { runId: live.id, generatedAt: now, nextIndex, stops, byStationId };
+};
+
+/**
+ * Display strings for a stop prediction, shared by every screen that shows ETAs.
+ */
+export const describeStopPrediction = (prediction: StopPrediction, now: number = Date.now()) => {
+  const minutes = Math.max(0, Math.round((prediction.predictedArrival - now) / MS_PER_MINUTE));
+  return {
+    minutes,
+    timeString: formatClockTime(prediction.predictedArrival),
+    durationLabel: formatDuration(minutes),
+    rangeLabel: `${formatClockTime(prediction.earliestArrival)} – ${formatClockTime(
+      prediction.latestArrival
+    )}`,
+    delayLabel: formatLateBy(prediction.delayMinutes),
+    confidence: prediction.confidence,
+  };
+};
+
+export type StopPredictionSummary = ReturnType<typeof describeStopPrediction>;
@@ -0,0 +1,64 @@
+import type { TrainStop } from '@/types';
+import { parseTimeToMinutes } from '@/utils/time';
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Local calendar date of a timestamp as `YYYY-MM-DD`.
+ */
+export const toLocalDateKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const getLocalMidnight = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+/**
+ * Local midnight of a `YYYY-MM-DD` date, or null when it is not one.
+ */
+export const parseLocalDateKey = (key: string): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 ? date.getTime() : null;
+};
+
+/**
+ * Scheduled times of a stop in minutes after midnight of the origin day.
+ * Values keep increasing past 1440 for services that run overnight.
+ */
+export interface ScheduledStopTime {
+  arrival: number | null;
+  departure: number | null;
+}
+
+/**
+ * Converts the clock times of a route into a monotonic timeline, adding a day
+ * whenever a time is earlier than the one before it.
+ */
+export const buildRouteTimeline = (route: TrainStop[]): ScheduledStopTime[] => {
+  let dayOffset = 0;
+  let last = -Infinity;
+
+  const place = (clock: number | null): number | null => {
+    if (clock === null) return null;
+    let minutes = clock + dayOffset;
+    while (minutes < last) {
+      dayOffset += MINUTES_PER_DAY;
+      minutes += MINUTES_PER_DAY;
+    }
+    last = minutes;
+    return minutes;
+  };
+
+  return route.map((stop) => {
+    const arrival = place(parseTimeToMinutes(stop.ArrivalTime));
+    const departure = place(parseTimeToMinutes(stop.DepartureTime));
+    return { arrival, departure };
+  });
+};
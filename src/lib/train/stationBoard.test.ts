@@ -0,0 +1,53 @@
+// stationBoard.test.ts
+import { buildStationBoard, getStationTrainCounts } from "./stationBoard";
+import * as fixtures from "@/test/fixtures";
+import type { LiveTrainDelta } from "@/types";
+
+const makeStop = (StationId: number, time: string) =>
+  fixtures.makeStop(StationId, { ArrivalTime: time, DepartureTime: time });
+
+const makeTrain = (TrainId: number, times: string[], live?: Partial<LiveTrainDelta>) =>
+  fixtures.makeTrain(
+    TrainId,
+    times.map((time, index) => makeStop(index + 1, time)),
+    {
+      IsLive: true,
+      livePosition:
+        live && fixtures.makeDelta({ id: `${TrainId}:a`, trainKey: String(TrainId), trainNumber: TrainId, ...live }),
+    }
+  );
+
+const at = (hours: number, minutes = 0) => new Date(2024, 0, 1, hours, minutes).getTime();
+
+describe("buildStationBoard", () => {
+  it("sorts trains calling at a station into arriving, upcoming and passed", () => {
+    const trains = [
+      // Live, 10 minutes late into station 2
+      makeTrain(1, ["09:00", "10:30", "11:30"], { lateBy: 10, prevStationId: 1, nextStationId: 2 }),
+      // Live, already past station 2
+      makeTrain(2, ["08:00", "09:30", "10:45"], { prevStationId: 2, nextStationId: 3 }),
+      // Timetable only, due this evening
+      makeTrain(3, ["17:00", "18:00"]),
+      // Does not call at station 2
+      makeTrain(4, ["10:00"]),
+    ];
+
+    const board = buildStationBoard(trains, 2, at(10));
+
+    expect(board.arrivingNow.map((entry) => entry.TrainId)).toEqual([1]);
+    expect(board.arrivingNow[0].minutesUntil).toBe(40);
+    expect(board.upcoming.map((entry) => entry.TrainId)).toEqual([3]);
+    expect(board.passed.map((entry) => entry.TrainId)).toEqual([2]);
+  });
+});
+
+describe("getStationTrainCounts", () => {
+  it("counts each train once per station", () => {
+    const loop = makeTrain(1, ["09:00", "10:00"]);
+    loop.route.push(makeStop(1, "11:00"));
+    const counts = getStationTrainCounts([loop, makeTrain(2, ["09:00"])]);
+
+    expect(counts.get(1)).toBe(2);
+    expect(counts.get(2)).toBe(1);
+  });
+});
@@ -0,0 +1,90 @@
+import type { TrainStop, TrainWithRoute } from '@/types';
+import { getMinutesUntilArrival, parseTimeToMinutes } from '@/utils/time';
+import { predictTrainStops, type StopPrediction } from './prediction';
+
+/** Trains due within this many minutes are listed as arriving now */
+export const ARRIVING_NOW_MINUTES = 60;
+/** Trains without a live position count as gone this long after their scheduled arrival */
+const SCHEDULED_PASSED_MINUTES = 30;
+
+export type StationBoardTrain = TrainWithRoute & {
+  stop: TrainStop;
+  minutesUntil: number | null;
+  prediction?: StopPrediction;
+};
+
+export interface StationBoard {
+  arrivingNow: StationBoardTrain[];
+  upcoming: StationBoardTrain[];
+  /** Most recent first */
+  passed: StationBoardTrain[];
+}
+
+const bySoonest = (a: StationBoardTrain, b: StationBoardTrain) =>
+  (a.minutesUntil ?? Number.MAX_SAFE_INTEGER) - (b.minutesUntil ?? Number.MAX_SAFE_INTEGER);
+
+/**
+ * Splits the trains calling at a station into arriving now, upcoming and
+ * passed, using the shared prediction for live trains and the timetable for
+ * the rest.
+ */
+export const buildStationBoard = (
+  trains: TrainWithRoute[],
+  stationId: number,
+  now: number = Date.now()
+): StationBoard => {
+  const board: StationBoard = { arrivingNow: [], upcoming: [], passed: [] };
+
+  trains.forEach((train) => {
+    const stopIndex = train.route.findIndex((stop) => stop.StationId === stationId);
+    if (stopIndex === -1) return;
+
+    const stop = train.route[stopIndex];
+    const prediction = predictTrainStops(train, { now })?.byStationId.get(stationId);
+    const minutesUntil = prediction
+      ? Math.round((prediction.predictedArrival - now) / 60000)
+      : getMinutesUntilArrival(stop.ArrivalTime, train.livePosition?.lateBy, now);
+
+    let hasPassed = false;
+    const live = train.livePosition;
+    if (live) {
+      const nextIndex = train.route.findIndex((s) => s.StationId === live.nextStationId);
+      hasPassed =
+        live.prevStationId === stationId || (nextIndex !== -1 && stopIndex < nextIndex);
+    } else {
+      hasPassed = minutesUntil !== null && minutesUntil < -SCHEDULED_PASSED_MINUTES;
+    }
+
+    const entry = { ...train, stop, minutesUntil, prediction };
+    if (hasPassed) {
+      board.passed.push(entry);
+    } else if (minutesUntil !== null && minutesUntil <= ARRIVING_NOW_MINUTES) {
+      board.arrivingNow.push(entry);
+    } else {
+      board.upcoming.push(entry);
+    }
+  });
+
+  board.arrivingNow.sort(bySoonest);
+  board.upcoming.sort(bySoonest);
+  board.passed.sort(
+    (a, b) =>
+      (parseTimeToMinutes(b.stop.DepartureTime) ?? 0) -
+      (parseTimeToMinutes(a.stop.DepartureTime) ?? 0)
+  );
+
+  return board;
+};
+
+/**
+ * Number of trains calling at each station, a rough measure of its importance.
+ */
+export const getStationTrainCounts = (trains: TrainWithRoute[]): Map<number, number> => {
+  const counts = new Map<number, number>();
+  trains.forEach((train) => {
+    new Set(train.route.map((stop) => stop.StationId)).forEach((stationId) => {
+      counts.set(stationId, (counts.get(stationId) ?? 0) + 1);
+    });
+  });
+  return counts;
+};
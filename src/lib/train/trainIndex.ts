@@ -0,0 +1,57 @@
+import type { TrainWithRoute } from '@/types';
+
+type TrainIdentity = { TrainId: number; AllocatedDate?: string | null };
+
+const uniqueKeyCache = new WeakMap<TrainIdentity, string>();
+
+/**
+ * Generates a unique key for a train using TrainId and AllocatedDate.
+ * This helps differentiate trains with the same ID but different dates.
+ * Keys are cached per object, as selectors ask for them on every render.
+ */
+export const getTrainUniqueKey = (train: TrainIdentity): string => {
+  const cached = uniqueKeyCache.get(train);
+  if (cached !== undefined) return cached;
+  const date = train.AllocatedDate ? new Date(train.AllocatedDate).toISOString().split('T')[0] : 'no-date';
+  const key = `${train.TrainId}-${date}`;
+  uniqueKeyCache.set(train, key);
+  return key;
+};
+
+/**
+ * Lookups into a trains array, so finding a train by its unique key or
+ * TrainId does not scan the whole dataset. Positions stay valid as long as
+ * trains are only replaced in place, which is how live updates apply.
+ */
+export interface TrainIndex {
+  /** Position in the trains array, by unique key */
+  positionByKey: Map<string, number>;
+  /** Unique keys of every run of a TrainId, in array order */
+  keysById: Map<number, string[]>;
+}
+
+export const indexTrains = (trains: TrainWithRoute[]): TrainIndex => {
+  const positionByKey = new Map<string, number>();
+  const keysById = new Map<number, string[]>();
+  trains.forEach((train, position) => {
+    const key = getTrainUniqueKey(train);
+    positionByKey.set(key, position);
+    const keys = keysById.get(train.TrainId);
+    if (keys) keys.push(key);
+    else keysById.set(train.TrainId, [key]);
+  });
+  return { positionByKey, keysById };
+};
+
+export const findTrainByKey = (
+  trains: TrainWithRoute[],
+  index: TrainIndex,
+  key: string | undefined
+): TrainWithRoute | undefined => {
+  const position = key === undefined ? undefined : index.positionByKey.get(key);
+  return position === undefined ? undefined : trains[position];
+};
+
+/** Every run of a TrainId, one per allocated date */
+export const findTrainsById = (trains: TrainWithRoute[], index: TrainIndex, trainId: number): TrainWithRoute[] =>
+  (index.keysById.get(trainId) ?? []).map((key) => trains[index.positionByKey.get(key)!]);
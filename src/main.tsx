@@ -8,6 +8,7 @@ import "./index.css";
 import "leaflet/dist/leaflet.css";
 import Dexie from "dexie";
 import { connectLiveSocket } from "./services/socket";
+import { hasLiveLeader } from "./services/tabCoordinator";
 
 // Type for database status
 type DbStatus = "checking" | "available" | "unavailable" | "migrating";
@@ -69,7 +70,7 @@ const Main = () => {
 
         if (trainCount > 0 || stationCount > 0) {
           // Check when data was last updated
-          const lastUpdated = await db.lastUpdated.get("trains");
+          const lastUpdated = await db.lastUpdated.get("dataset");
           const now = Date.now();
           const oneHour = 60 * 60 * 1000;
 
@@ -177,8 +178,13 @@ const Main = () => {
         const baseLoadingTime = hasData ? 800 : firstVisit ? (hasIndexedDB ? 2000 : 3500) : (hasIndexedDB ? 1200 : 2000);
         const loadingTime = baseLoadingTime + (dbStatus === "migrating" ? 1000 : 0) + Math.random() * 300;
 
-        // Check socket connectivity in parallel with loading timer
-        const socketPromise = checkSocketConnectivity();
+        // Check socket connectivity in parallel with loading timer, unless
+        // another tab already holds the live connection or there is no network
+        const socketPromise = navigator.onLine
+          ? hasLiveLeader().then((hasLeader) =>
+              hasLeader ? true : checkSocketConnectivity()
+            )
+          : Promise.resolve(false);
         const loadingPromise = new Promise<void>((resolve) => setTimeout(resolve, loadingTime));
 
         const [socketAvailable] = await Promise.all([socketPromise, loadingPromise]);
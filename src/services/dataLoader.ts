@@ -1,74 +1,11 @@
 // dataLoader.ts
-import type {
-  ApiEnvelope,
-  TrainSummary,
-  TrainStationsMapEntry,
-  StationDetails,
-  TrainWithRoute,
-  TrainStop,
-  LiveTrainDelta
-} from '@/types';
+import type { TrainWithRoute, TrainStop, LiveTrainDelta } from '@/types';
 import { db } from './db';
-import { findMatchingTrainId, updateTrainWithDelta } from './liveData';
-import { getTrainUniqueKey } from '@/lib/train';
-
-export interface TrainDataset {
-  trains: TrainWithRoute[];
-  stationById: Map<number, StationDetails>;
-}
-
-// --- API Fetch Functions ---
-const fetchTrains = async (): Promise<ApiEnvelope<TrainSummary[]>> => {
-  const response = await fetch(`${import.meta.env.VITE_PUBLIC_SOCKET_URL}/api/trains`);
-  return response.json();
-};
-
-const fetchStations = async (): Promise<ApiEnvelope<StationDetails[]>> => {
-  const response = await fetch(`${import.meta.env.VITE_PUBLIC_SOCKET_URL}/api/stations`);
-  return response.json();
-};
-
-const fetchTrainStations = async (): Promise<TrainStationsMapEntry[]> => {
-  const response = await fetch(`${import.meta.env.VITE_PUBLIC_SOCKET_URL}/api/train-stations`);
-  return response.json();
-};
-
-// --- Static Data Builders (unchanged) ---
-const buildStationMap = (collection: StationDetails[]): Map<number, StationDetails> =>
-  new Map(collection.map((station) => [station.StationDetailsId, station]));
-
-const buildRouteMap = (entries: TrainStationsMapEntry[]): Map<number, TrainStop[]> =>
-  new Map(
-    entries.map((entry) => [
-      entry.TrainId,
-      [...entry.stations].sort((a, b) => a.OrderNumber - b.OrderNumber)
-    ])
-  );
-
-const buildStaticDataset = async (): Promise<TrainDataset> => {
-  const [trainsEnvelope, stationsEnvelope, trainStationsList] = await Promise.all([
-    fetchTrains(),
-    fetchStations(),
-    fetchTrainStations()
-  ]);
-
-  const trains: TrainSummary[] = trainsEnvelope.Response;
-  const stations: StationDetails[] = stationsEnvelope.Response;
-  const stationMap = buildStationMap(stations);
-  const routeByTrainId = buildRouteMap(trainStationsList);
-
-  const dataset: TrainWithRoute[] = trains.map((train) => {
-    const route = routeByTrainId.get(train.TrainId) ?? [];
-    return {
-      ...train,
-      route,
-      upcomingStop: route[0],
-      previousStop: undefined
-    };
-  });
-
-  return { trains: dataset, stationById: stationMap };
-};
+import { findMatchingTrainKey, resolveTrainKey, updateTrainWithDelta } from './liveData';
+import { getTrainUniqueKey, indexTrains } from '@/lib/train';
+import { buildStationMap, fetchDataset, syncDataset, type TrainDataset } from './datasetSync';
+import { findMappedTrain, loadTrainMappings } from './trainMappings';
+import { applyTrainLiveState, loadTrainLiveState } from './liveSnapshot';
 
 // --- Live Data Management (New & Refactored) ---
 export const STALE_LIVE_RUN_TTL_MS = 10 * 60 * 1000; // 10 minutes
@@ -99,77 +36,59 @@ const applyStoredLiveDeltas = async (staticTrains: TrainWithRoute[]): Promise<Tr
 
   // Create a map for efficient delta lookups
   const deltaMap = new Map(deltas.map(d => [d.id, d]));
+  const trainMappings = new Map((await loadTrainMappings()).map(m => [m.id, m]));
   const trainKeyToId = new Map<string, number>();
   const selectedRunIds = new Map<string, string>();
 
-  let updatedTrains = staticTrains;
+  // Deltas only replace trains in place, so one index serves the whole replay
+  const updatedTrains = [...staticTrains];
+  const index = indexTrains(staticTrains);
 
   // Apply deltas using the same logic as the live socket
   deltas.forEach(delta => {
-    const targetTrainId = trainKeyToId.get(delta.trainKey) ?? findMatchingTrainId(updatedTrains, delta);
-    if (targetTrainId) {
-      trainKeyToId.set(delta.trainKey, targetTrainId);
-      updatedTrains = updatedTrains.map(train =>
-        train.TrainId === targetTrainId
-          ? updateTrainWithDelta(train, delta, selectedRunIds.get(getTrainUniqueKey(train)))
-          : train
-      );
-      const updatedTrain = updatedTrains.find(t => t.TrainId === targetTrainId);
-      if (updatedTrain?.selectedRunId) {
-        selectedRunIds.set(getTrainUniqueKey(updatedTrain), updatedTrain.selectedRunId);
-      }
-    }
+    const learned = findMappedTrain(trainMappings, delta, index);
+    const mappedTrainId = learned?.trainId ?? trainKeyToId.get(delta.trainKey);
+    const key = mappedTrainId
+      ? resolveTrainKey(updatedTrains, index, mappedTrainId, delta, learned?.allocatedDate)
+      : findMatchingTrainKey(updatedTrains, delta);
+    if (key === undefined) return;
+    const position = index.positionByKey.get(key)!;
+    const updatedTrain = updateTrainWithDelta(updatedTrains[position], delta, selectedRunIds.get(key));
+    updatedTrains[position] = updatedTrain;
+    trainKeyToId.set(delta.trainKey, updatedTrain.TrainId);
+    if (updatedTrain.selectedRunId) selectedRunIds.set(key, updatedTrain.selectedRunId);
   });
 
   return stripStaleLiveData(updatedTrains);
 };
 
 // --- Main Dataset Loading Logic (Refactored) ---
-export const loadTrainDatasetSync = async (): Promise<TrainDataset> => buildStaticDataset();
+export const loadTrainDatasetSync = async (): Promise<TrainDataset> => fetchDataset();
 
+/**
+ * The stored dataset with its last live state restored, downloading it on
+ * the first visit. Stored data is used as is; datasetSync revalidates it.
+ */
 export const loadTrainDataset = async (): Promise<TrainDataset> => {
-  const [storedTrains, storedStations] = await Promise.all([
+  const [storedTrains, storedStations, liveStateByKey] = await Promise.all([
     db.trains.toArray(),
-    db.stations.toArray()
+    db.stations.toArray(),
+    loadTrainLiveState()
   ]);
 
   // If we have data in DB, use it as the base
   if (storedTrains.length > 0 && storedStations.length > 0) {
     const stationById = buildStationMap(storedStations);
-    const trainsWithLiveData = await applyStoredLiveDeltas(storedTrains);
+    const trains = storedTrains.map((train) => {
+      const liveState = liveStateByKey.get(getTrainUniqueKey(train));
+      return liveState ? applyTrainLiveState(train, liveState) : train;
+    });
+    const trainsWithLiveData = await applyStoredLiveDeltas(trains);
     return { trains: trainsWithLiveData, stationById };
   }
 
-  // Otherwise, build from static JSON and persist it
-  const dataset = await buildStaticDataset();
-  await persistDataset(dataset);
-  return dataset;
-};
-
-export const refreshTrainDataset = async (): Promise<TrainDataset> => {
-  const dataset = await buildStaticDataset();
-  await persistDataset(dataset);
-  // Clear old live deltas to prevent mixing with new static data
-  await db.liveDeltas.clear();
-  return dataset;
-};
-
-// --- Persistence and Sanitization (Simplified) ---
-const persistDataset = async ({ trains, stationById }: TrainDataset) => {
-  const stations = Array.from(stationById.values());
-  await db.transaction('rw', db.trains, db.stations, db.lastUpdated, async () => {
-    await db.trains.clear();
-    await db.stations.clear();
-    await db.trains.bulkPut(trains);
-    await db.stations.bulkPut(stations);
-    await db.lastUpdated.put({ name: 'dataset', timestamp: Date.now() });
-  });
-};
-
-export const persistTrainSnapshot = async (trains: TrainWithRoute[]) => {
-  const normalizedTrains = stripStaleLiveData(trains);
-  await db.trains.bulkPut(normalizedTrains);
-  await db.lastUpdated.put({ name: 'dataset', timestamp: Date.now() });
+  // Otherwise download and persist it; with nothing stored, sync always returns a dataset
+  return (await syncDataset()) ?? fetchDataset();
 };
 
 // --- Helper Functions (Largely Unchanged, but moved for better organization) ---
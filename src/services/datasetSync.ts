@@ -0,0 +1,203 @@
+// datasetSync.ts
+import type {
+  DatasetVersion,
+  StationDetails,
+  TrainStationsMapEntry,
+  TrainStop,
+  TrainSummary,
+  TrainWithRoute
+} from '@/types';
+import { hashText } from '@/utils/hash';
+import { db } from './db';
+import { ApiValidationError, readApiEnvelope, readApiList, recordRejects } from './validation';
+
+export interface TrainDataset {
+  trains: TrainWithRoute[];
+  stationById: Map<number, StationDetails>;
+}
+
+/** The static resources the dataset is built from */
+export const DATASET_RESOURCES = ['/api/trains', '/api/stations', '/api/train-stations'] as const;
+export type DatasetResource = (typeof DATASET_RESOURCES)[number];
+
+/** A stored dataset older than this is revalidated in the background */
+export const DATASET_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+/** Set by the service worker on responses it answered from its cache */
+const SERVED_FROM_HEADER = 'X-Served-From';
+
+// --- Validation ---
+const isTrainSummary = (item: unknown): item is TrainSummary =>
+  typeof (item as TrainSummary)?.TrainId === 'number' && typeof (item as TrainSummary).TrainName === 'string';
+
+const isStationDetails = (item: unknown): item is StationDetails =>
+  typeof (item as StationDetails)?.StationDetailsId === 'number' &&
+  typeof (item as StationDetails).StationName === 'string';
+
+const isTrainStationsEntry = (item: unknown): item is TrainStationsMapEntry =>
+  typeof (item as TrainStationsMapEntry)?.TrainId === 'number' &&
+  Array.isArray((item as TrainStationsMapEntry).stations);
+
+// --- Dataset Assembly ---
+export const buildStationMap = (collection: StationDetails[]): Map<number, StationDetails> =>
+  new Map(collection.map((station) => [station.StationDetailsId, station]));
+
+const buildRouteMap = (entries: TrainStationsMapEntry[]): Map<number, TrainStop[]> =>
+  new Map(
+    entries.map((entry) => [
+      entry.TrainId,
+      [...entry.stations].sort((a, b) => a.OrderNumber - b.OrderNumber)
+    ])
+  );
+
+const assembleDataset = (
+  trains: TrainSummary[],
+  stations: StationDetails[],
+  routes: TrainStationsMapEntry[]
+): TrainDataset => {
+  const routeByTrainId = buildRouteMap(routes);
+  const dataset: TrainWithRoute[] = trains.map((train) => {
+    const route = routeByTrainId.get(train.TrainId) ?? [];
+    return {
+      ...train,
+      route,
+      upcomingStop: route[0],
+      previousStop: undefined
+    };
+  });
+  return { trains: dataset, stationById: buildStationMap(stations) };
+};
+
+// --- Fetching ---
+
+type FetchedResource =
+  | { changed: false; fromCache: boolean; version: DatasetVersion }
+  | { changed: true; fromCache: boolean; version: DatasetVersion; body: unknown };
+
+/**
+ * Downloads one resource, revalidating against the browser's HTTP cache so an
+ * unchanged resource costs a 304. The browser adds the conditional headers
+ * itself, which keeps these cross-origin requests simple (no preflight); the
+ * ETag and Last-Modified seen are recorded where the server exposes them, and
+ * the body hash decides whether the content changed. A copy the service
+ * worker answered from its cache does not count as a check.
+ */
+const fetchResource = async (
+  resource: DatasetResource,
+  previous: DatasetVersion | undefined,
+  now: number
+): Promise<FetchedResource> => {
+  const response = await fetch(`${import.meta.env.VITE_PUBLIC_SOCKET_URL}${resource}`, { cache: 'no-cache' });
+  if (!response.ok) {
+    recordRejects(resource, [{ reason: 'apiError', detail: `${response.status} ${response.statusText}` }]);
+    throw new ApiValidationError(resource, `${response.status} ${response.statusText}`);
+  }
+
+  const fromCache = response.headers.get(SERVED_FROM_HEADER) === 'cache';
+  const text = await response.text();
+  const hash = hashText(text);
+  const changed = previous?.hash !== hash;
+  const version: DatasetVersion = {
+    resource,
+    etag: response.headers.get('ETag') ?? undefined,
+    lastModified: response.headers.get('Last-Modified') ?? undefined,
+    hash,
+    checkedAt: fromCache && previous ? previous.checkedAt : now,
+    changedAt: changed || !previous ? now : previous.changedAt
+  };
+  if (!changed) return { changed: false, fromCache, version };
+
+  try {
+    return { changed: true, fromCache, version, body: JSON.parse(text) };
+  } catch {
+    recordRejects(resource, [{ reason: 'apiError', detail: 'response is not JSON' }]);
+    throw new ApiValidationError(resource, 'response is not JSON');
+  }
+};
+
+// --- Persistence ---
+const persistDataset = async (
+  { trains, stationById }: TrainDataset,
+  versions: DatasetVersion[],
+  syncedAt: number | undefined
+) => {
+  const stations = Array.from(stationById.values());
+  await db.transaction('rw', [db.trains, db.stations, db.datasetVersions, db.lastUpdated], async () => {
+    await db.trains.clear();
+    await db.stations.clear();
+    await db.trains.bulkPut(trains);
+    await db.stations.bulkPut(stations);
+    await db.datasetVersions.bulkPut(versions);
+    if (syncedAt !== undefined) await db.lastUpdated.put({ name: 'dataset', timestamp: syncedAt });
+  });
+};
+
+/**
+ * Downloads the static dataset without storing it, for when IndexedDB is
+ * unusable.
+ */
+export const fetchDataset = async (): Promise<TrainDataset> => {
+  const now = Date.now();
+  // Without a previous version every resource comes back changed, with its body
+  const [trains, stations, routes] = await Promise.all(
+    DATASET_RESOURCES.map(async (resource) => {
+      const fetched = await fetchResource(resource, undefined, now);
+      return fetched.changed ? fetched.body : undefined;
+    })
+  );
+  return assembleDataset(
+    readApiEnvelope(trains, '/api/trains', isTrainSummary),
+    readApiEnvelope(stations, '/api/stations', isStationDetails),
+    readApiList(routes, '/api/train-stations', isTrainStationsEntry)
+  );
+};
+
+/**
+ * Checks the static resources for new timetables and, when any changed,
+ * rebuilds the dataset and swaps it into IndexedDB in one transaction.
+ * Unchanged resources are taken from the stored copy rather than parsed
+ * again. Resolves with the new dataset, or null when nothing changed.
+ * Without a stored dataset everything is downloaded. The dataset is stamped
+ * as synced only when every resource came from the network.
+ */
+export const syncDataset = async (): Promise<TrainDataset | null> => {
+  const now = Date.now();
+  const [storedTrains, storedStations, storedVersions] = await Promise.all([
+    db.trains.toArray(),
+    db.stations.toArray(),
+    db.datasetVersions.toArray()
+  ]);
+  const hasStored = storedTrains.length > 0 && storedStations.length > 0;
+  const previous = new Map(hasStored ? storedVersions.map((version) => [version.resource, version]) : []);
+
+  const [trains, stations, routes] = await Promise.all(
+    DATASET_RESOURCES.map((resource) => fetchResource(resource, previous.get(resource), now))
+  );
+  const versions = [trains.version, stations.version, routes.version];
+  const fromNetwork = !trains.fromCache && !stations.fromCache && !routes.fromCache;
+
+  if (!trains.changed && !stations.changed && !routes.changed) {
+    if (!fromNetwork) return null;
+    await db.transaction('rw', [db.datasetVersions, db.lastUpdated], async () => {
+      await db.datasetVersions.bulkPut(versions);
+      await db.lastUpdated.put({ name: 'dataset', timestamp: now });
+    });
+    return null;
+  }
+
+  const dataset = assembleDataset(
+    trains.changed ? readApiEnvelope(trains.body, '/api/trains', isTrainSummary) : storedTrains,
+    stations.changed ? readApiEnvelope(stations.body, '/api/stations', isStationDetails) : storedStations,
+    routes.changed
+      ? readApiList(routes.body, '/api/train-stations', isTrainStationsEntry)
+      : storedTrains.map((train) => ({ TrainId: train.TrainId, stations: train.route }))
+  );
+  await persistDataset(dataset, versions, fromNetwork ? now : undefined);
+  return dataset;
+};
+
+/**
+ * When the stored dataset was last confirmed current.
+ */
+export const getDatasetSyncedAt = async (): Promise<number | undefined> =>
+  (await db.lastUpdated.get('dataset'))?.timestamp;
@@ -1,13 +1,21 @@
 // db.ts
 import Dexie, { Table } from 'dexie';
-import { StationDetails, TrainWithRoute, LiveTrainDelta } from '@/types';
+import { StationDetails, TrainWithRoute, LiveTrainDelta, RunHistoryEntry, TrainWatch, TrainMapping, TrainLiveState, DatasetVersion, Favourite } from '@/types';
+import type { TrackRecord, TrackSegment } from './trackCache';
 
 export class AppDB extends Dexie {
   trains!: Table<TrainWithRoute, number>;
   stations!: Table<StationDetails, number>;
   liveDeltas!: Table<LiveTrainDelta, string>;
   lastUpdated!: Table<{ name: string; timestamp: number }, string>;
-  tracks!: Table<any, number>; // Track data by TrainId
+  tracks!: Table<TrackRecord, number>; // Track stations by TrainId
+  trackSegments!: Table<TrackSegment, string>; // Track geometry by station pair, shared between trains
+  favourites!: Table<Favourite, string>; // Trains and stations pinned by the user
+  runHistory!: Table<RunHistoryEntry, [string, number]>; // Breadcrumbs by run id and timestamp
+  watches!: Table<TrainWatch, string>; // Train/station pairs the user wants notifications for
+  trainMappings!: Table<TrainMapping, string>; // Socket identifiers learned to belong to a TrainId
+  trainLiveState!: Table<TrainLiveState, string>; // Live fields of trains by unique key, kept apart from the static rows
+  datasetVersions!: Table<DatasetVersion, string>; // What was last downloaded per static API resource
 
   constructor() {
     super('PakRailDB');
@@ -36,6 +44,218 @@ export class AppDB extends Dexie {
       tracks: 'TrainId'
     });
 
+    // Version 4: Add the runHistory table (append-only breadcrumbs per live run)
+    this.version(4).stores({
+      trains: 'TrainId, TrainNumber, TrainName, IsUp, IsLive',
+      stations: 'StationDetailsId, StationName',
+      lastUpdated: 'name',
+      liveDeltas: 'id, trainKey, lastUpdated, trainNumber',
+      tracks: 'TrainId',
+      runHistory: '[id+lastUpdated], id, trainId, lastUpdated'
+    });
+
+    // Version 5: Add the watches table (arrival notifications)
+    this.version(5).stores({
+      trains: 'TrainId, TrainNumber, TrainName, IsUp, IsLive',
+      stations: 'StationDetailsId, StationName',
+      lastUpdated: 'name',
+      liveDeltas: 'id, trainKey, lastUpdated, trainNumber',
+      tracks: 'TrainId',
+      runHistory: '[id+lastUpdated], id, trainId, lastUpdated',
+      watches: 'id, trainKey, stationId'
+    });
+
+    // Version 6: Add the trainKeyMappings table (manually resolved live deltas)
+    this.version(6).stores({
+      trains: 'TrainId, TrainNumber, TrainName, IsUp, IsLive',
+      stations: 'StationDetailsId, StationName',
+      lastUpdated: 'name',
+      liveDeltas: 'id, trainKey, lastUpdated, trainNumber',
+      tracks: 'TrainId',
+      runHistory: '[id+lastUpdated], id, trainId, lastUpdated',
+      watches: 'id, trainKey, stationId',
+      trainKeyMappings: 'trainKey, trainId'
+    });
+
+    // Version 7: Add the trainMappings table (learned socket key -> train mappings),
+    // carrying over the manual bindings from trainKeyMappings
+    this.version(7).stores({
+      trains: 'TrainId, TrainNumber, TrainName, IsUp, IsLive',
+      stations: 'StationDetailsId, StationName',
+      lastUpdated: 'name',
+      liveDeltas: 'id, trainKey, lastUpdated, trainNumber',
+      tracks: 'TrainId',
+      runHistory: '[id+lastUpdated], id, trainId, lastUpdated',
+      watches: 'id, trainKey, stationId',
+      trainKeyMappings: 'trainKey, trainId',
+      trainMappings: 'id, trainId, expiresAt'
+    }).upgrade(async (tx) => {
+      const manual: Array<{ trainKey: string; trainId: number; createdAt: number }> =
+        await tx.table('trainKeyMappings').toArray();
+      await tx.table('trainMappings').bulkPut(
+        manual.map(({ trainKey, trainId, createdAt }) => ({
+          id: `trainKey:${trainKey}`,
+          kind: 'trainKey',
+          value: trainKey,
+          trainId,
+          allocatedDate: null,
+          source: 'manual',
+          confidence: 1,
+          firstSeen: createdAt,
+          lastSeen: createdAt,
+          // Same lifetime as MANUAL_MAPPING_TTL_MS
+          expiresAt: createdAt + 30 * 24 * 60 * 60 * 1000
+        }))
+      );
+    });
+
+    // Version 8: Drop the trainKeyMappings table, superseded by trainMappings
+    this.version(8).stores({
+      trains: 'TrainId, TrainNumber, TrainName, IsUp, IsLive',
+      stations: 'StationDetailsId, StationName',
+      lastUpdated: 'name',
+      liveDeltas: 'id, trainKey, lastUpdated, trainNumber',
+      tracks: 'TrainId',
+      runHistory: '[id+lastUpdated], id, trainId, lastUpdated',
+      watches: 'id, trainKey, stationId',
+      trainKeyMappings: null,
+      trainMappings: 'id, trainId, expiresAt'
+    });
+
+    // Version 9: Add the trainLiveState table. Live fields move out of trains, which
+    // now holds only the static route and schedule written with the dataset
+    this.version(9).stores({
+      trains: 'TrainId, TrainNumber, TrainName, IsUp, IsLive',
+      stations: 'StationDetailsId, StationName',
+      lastUpdated: 'name',
+      liveDeltas: 'id, trainKey, lastUpdated, trainNumber',
+      tracks: 'TrainId',
+      runHistory: '[id+lastUpdated], id, trainId, lastUpdated',
+      watches: 'id, trainKey, stationId',
+      trainMappings: 'id, trainId, expiresAt',
+      trainLiveState: 'TrainId, updatedAt'
+    }).upgrade(async (tx) => {
+      // Stored live deltas are replayed on load, so the old snapshots can simply go
+      await tx.table('trains').toCollection().modify((train: TrainWithRoute) => {
+        train.IsLive = false;
+        delete train.livePosition;
+        delete train.liveRuns;
+        delete train.selectedRunId;
+        delete train.previousStop;
+        train.upcomingStop = train.route[0];
+      });
+    });
+
+    // Version 10: Add the datasetVersions table (static dataset revalidation)
+    this.version(10).stores({
+      trains: 'TrainId, TrainNumber, TrainName, IsUp, IsLive',
+      stations: 'StationDetailsId, StationName',
+      lastUpdated: 'name',
+      liveDeltas: 'id, trainKey, lastUpdated, trainNumber',
+      tracks: 'TrainId',
+      runHistory: '[id+lastUpdated], id, trainId, lastUpdated',
+      watches: 'id, trainKey, stationId',
+      trainMappings: 'id, trainId, expiresAt',
+      trainLiveState: 'TrainId, updatedAt',
+      datasetVersions: 'resource'
+    });
+
+    // Version 11: Add the trackSegments table. Tracks keep only their stations and
+    // share the geometry between station pairs
+    this.version(11).stores({
+      trains: 'TrainId, TrainNumber, TrainName, IsUp, IsLive',
+      stations: 'StationDetailsId, StationName',
+      lastUpdated: 'name',
+      liveDeltas: 'id, trainKey, lastUpdated, trainNumber',
+      tracks: 'TrainId',
+      runHistory: '[id+lastUpdated], id, trainId, lastUpdated',
+      watches: 'id, trainKey, stationId',
+      trainMappings: 'id, trainId, expiresAt',
+      trainLiveState: 'TrainId, updatedAt',
+      datasetVersions: 'resource',
+      trackSegments: 'id'
+    }).upgrade(async (tx) => {
+      // Tracks in the old layout are simply fetched again when next needed
+      await tx.table('tracks').clear();
+    });
+
+    // Version 12: Index tracks by fetch time, which with their last use and size
+    // drives revalidation and eviction
+    this.version(12).stores({
+      trains: 'TrainId, TrainNumber, TrainName, IsUp, IsLive',
+      stations: 'StationDetailsId, StationName',
+      lastUpdated: 'name',
+      liveDeltas: 'id, trainKey, lastUpdated, trainNumber',
+      tracks: 'TrainId, fetchedAt',
+      runHistory: '[id+lastUpdated], id, trainId, lastUpdated',
+      watches: 'id, trainKey, stationId',
+      trainMappings: 'id, trainId, expiresAt',
+      trainLiveState: 'TrainId, updatedAt',
+      datasetVersions: 'resource',
+      trackSegments: 'id'
+    }).upgrade(async (tx) => {
+      // Existing tracks count as stale, so they are revalidated on their next use
+      await tx.table('tracks').toCollection().modify((record: TrackRecord) => {
+        record.fetchedAt = 0;
+        record.lastUsedAt = 0;
+        record.version = '';
+        record.bytes = JSON.stringify(record.stations).length;
+      });
+      await tx.table('trackSegments').toCollection().modify((segment: TrackSegment) => {
+        segment.bytes = JSON.stringify(segment.geometry).length;
+      });
+    });
+
+    // Version 13: Add the favourites table (pinned trains and stations)
+    this.version(13).stores({
+      trains: 'TrainId, TrainNumber, TrainName, IsUp, IsLive',
+      stations: 'StationDetailsId, StationName',
+      lastUpdated: 'name',
+      liveDeltas: 'id, trainKey, lastUpdated, trainNumber',
+      tracks: 'TrainId, fetchedAt',
+      runHistory: '[id+lastUpdated], id, trainId, lastUpdated',
+      watches: 'id, trainKey, stationId',
+      trainMappings: 'id, trainId, expiresAt',
+      trainLiveState: 'TrainId, updatedAt',
+      datasetVersions: 'resource',
+      trackSegments: 'id',
+      favourites: 'id, kind'
+    });
+
+    // Version 14: Drop the trainLiveState table, keyed by TrainId. IndexedDB cannot
+    // change a primary key, so it is recreated in the next version
+    this.version(14).stores({
+      trains: 'TrainId, TrainNumber, TrainName, IsUp, IsLive',
+      stations: 'StationDetailsId, StationName',
+      lastUpdated: 'name',
+      liveDeltas: 'id, trainKey, lastUpdated, trainNumber',
+      tracks: 'TrainId, fetchedAt',
+      runHistory: '[id+lastUpdated], id, trainId, lastUpdated',
+      watches: 'id, trainKey, stationId',
+      trainMappings: 'id, trainId, expiresAt',
+      trainLiveState: null,
+      datasetVersions: 'resource',
+      trackSegments: 'id',
+      favourites: 'id, kind'
+    });
+
+    // Version 15: Key trainLiveState by unique key, so the runs of each date of a
+    // multi-day service are stored apart. Stored live deltas are replayed on load
+    this.version(15).stores({
+      trains: 'TrainId, TrainNumber, TrainName, IsUp, IsLive',
+      stations: 'StationDetailsId, StationName',
+      lastUpdated: 'name',
+      liveDeltas: 'id, trainKey, lastUpdated, trainNumber',
+      tracks: 'TrainId, fetchedAt',
+      runHistory: '[id+lastUpdated], id, trainId, lastUpdated',
+      watches: 'id, trainKey, stationId',
+      trainMappings: 'id, trainId, expiresAt',
+      trainLiveState: 'key, TrainId, updatedAt',
+      datasetVersions: 'resource',
+      trackSegments: 'id',
+      favourites: 'id, kind'
+    });
+
     // Handle database events
     this.on('blocked', () => {
       console.warn('Database blocked - another tab might be open with an older version');
@@ -50,7 +270,7 @@ export class AppDB extends Dexie {
   // Method to check if database has recent data
   async hasRecentData(maxAgeMs: number = 60 * 60 * 1000) {
     try {
-      const lastUpdated = await this.lastUpdated.get('trains');
+      const lastUpdated = await this.lastUpdated.get('dataset');
       if (!lastUpdated) return false;
       
       const now = Date.now();
@@ -62,7 +282,7 @@ export class AppDB extends Dexie {
   }
 
   // Method to mark data as updated
-  async markDataUpdated(dataType: string = 'trains') {
+  async markDataUpdated(dataType: string = 'dataset') {
     try {
       await this.lastUpdated.put({
         name: dataType,
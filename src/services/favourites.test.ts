@@ -0,0 +1,51 @@
+// favourites.test.ts
+import { createFavourite, getFavouriteTargets, partitionFavouriteTrains } from "./favourites";
+import * as fixtures from "@/test/fixtures";
+import type { Favourite } from "@/types";
+
+const makeTrain = (TrainId: number, AllocatedDate: string | null = null) =>
+  fixtures.makeTrain(TrainId, [], { AllocatedDate });
+
+describe("createFavourite", () => {
+  it("keys favourites by kind and id", () => {
+    expect(createFavourite("train", 45, "Test Express").id).toBe("train:45");
+    expect(createFavourite("station", 45, "Lahore").id).toBe("station:45");
+  });
+});
+
+describe("getFavouriteTargets", () => {
+  it("lists the ids of one kind in the order they were pinned", () => {
+    const favourites: Favourite[] = [
+      { ...createFavourite("train", 2, "B"), createdAt: 20 },
+      { ...createFavourite("station", 7, "Lahore"), createdAt: 5 },
+      { ...createFavourite("train", 1, "A"), createdAt: 10 },
+    ];
+    expect(getFavouriteTargets(favourites, "train")).toEqual([1, 2]);
+    expect(getFavouriteTargets(favourites, "station")).toEqual([7]);
+  });
+});
+
+describe("partitionFavouriteTrains", () => {
+  it("moves every dated entry of a favourite train to the favourites", () => {
+    const trains = [
+      makeTrain(1),
+      makeTrain(2, "2026-10-18"),
+      makeTrain(3),
+      makeTrain(2, "2026-10-19"),
+    ];
+
+    const { favourites, others } = partitionFavouriteTrains(trains, [3, 2]);
+
+    expect(favourites.map((train) => [train.TrainId, train.AllocatedDate])).toEqual([
+      [3, null],
+      [2, "2026-10-18"],
+      [2, "2026-10-19"],
+    ]);
+    expect(others).toEqual([trains[0]]);
+  });
+
+  it("returns the list untouched without favourites", () => {
+    const trains = [makeTrain(1)];
+    expect(partitionFavouriteTrains(trains, []).others).toBe(trains);
+  });
+});
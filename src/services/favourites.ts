@@ -0,0 +1,58 @@
+// favourites.ts
+import type { Favourite, FavouriteKind, TrainWithRoute } from '@/types';
+import { db } from './db';
+
+export const getFavouriteId = (kind: FavouriteKind, targetId: number) => `${kind}:${targetId}`;
+
+export const createFavourite = (kind: FavouriteKind, targetId: number, name: string): Favourite => ({
+  id: getFavouriteId(kind, targetId),
+  kind,
+  targetId,
+  name,
+  createdAt: Date.now()
+});
+
+/**
+ * The pinned TrainIds or StationIds, in the order they were pinned.
+ */
+export const getFavouriteTargets = (favourites: Iterable<Favourite>, kind: FavouriteKind): number[] =>
+  Array.from(favourites)
+    .filter((favourite) => favourite.kind === kind)
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((favourite) => favourite.targetId);
+
+/**
+ * Splits a train list into the favourite trains, in the order they were
+ * pinned (every allocated date of a train together), and the rest in their
+ * original order.
+ */
+export const partitionFavouriteTrains = (
+  trains: TrainWithRoute[],
+  favouriteTrainIds: number[]
+): { favourites: TrainWithRoute[]; others: TrainWithRoute[] } => {
+  if (favouriteTrainIds.length === 0) return { favourites: [], others: trains };
+  const rank = new Map(favouriteTrainIds.map((trainId, index) => [trainId, index]));
+  const favourites: TrainWithRoute[] = [];
+  const others: TrainWithRoute[] = [];
+  trains.forEach((train) => (rank.has(train.TrainId) ? favourites : others).push(train));
+  // Stable, so dated entries of one train keep their order
+  favourites.sort((a, b) => rank.get(a.TrainId)! - rank.get(b.TrainId)!);
+  return { favourites, others };
+};
+
+export const loadFavourites = async (): Promise<Favourite[]> => {
+  try {
+    return await db.favourites.toArray();
+  } catch (error) {
+    console.error('Failed to load favourites:', error);
+    return [];
+  }
+};
+
+export const saveFavourite = async (favourite: Favourite) => {
+  await db.favourites.put(favourite);
+};
+
+export const deleteFavourite = async (id: string) => {
+  await db.favourites.delete(id);
+};
@@ -0,0 +1,97 @@
+// liveData.test.ts
+import { findMatchingTrainKey, matchLiveDelta } from "./liveData";
+import { getTrainUniqueKey } from "@/lib/train";
+import * as fixtures from "@/test/fixtures";
+import type { LiveTrainDelta, TrainStop, TrainWithRoute } from "@/types";
+
+const makeStop = (
+  StationId: number,
+  ArrivalTime: string | null,
+  DepartureTime: string | null,
+  DayCount: number | null = null,
+  Longitude = 70
+) => fixtures.makeStop(StationId, { TrainNumber: 45, ArrivalTime, DepartureTime, DayCount, Longitude });
+
+const makeTrain = (TrainId: number, route: TrainStop[], overrides: Partial<TrainWithRoute> = {}) =>
+  fixtures.makeTrain(TrainId, route, { TrainNumber: 45, IsLive: true, ...overrides });
+
+// Seen between stations 2 and 3 an hour into the second day
+const makeDelta = (live: Partial<LiveTrainDelta>) =>
+  fixtures.makeDelta({
+    id: "4509900:a",
+    trainKey: "4509900",
+    lat: 32.5,
+    lastUpdated: new Date(2024, 0, 2, 1, 0).getTime(),
+    nextStationId: 3,
+    prevStationId: 2,
+    speed: 60,
+    ...live,
+  });
+
+const overnightRoute = [
+  makeStop(1, null, "22:00", 1),
+  makeStop(2, "23:30", "23:35", 1),
+  makeStop(3, "02:00", "02:05", 2),
+  makeStop(4, "05:00", null, 2),
+];
+
+describe("matchLiveDelta", () => {
+  it("picks a unique train number without further evidence", () => {
+    const result = matchLiveDelta(
+      [makeTrain(1, overnightRoute), makeTrain(2, overnightRoute, { TrainNumber: 46 })],
+      makeDelta({ trainNumber: 46 })
+    );
+
+    expect(result.trainId).toBe(2);
+    expect(result.explanation).toEqual({ method: "trainNumber" });
+  });
+
+  it("attaches a multi-day run to the entry for the day it departed", () => {
+    const trains = [
+      makeTrain(2, overnightRoute, { AllocatedDate: "2024-01-02T00:00:00" }),
+      makeTrain(1, overnightRoute, { AllocatedDate: "2024-01-01T00:00:00" }),
+    ];
+    const result = matchLiveDelta(trains, makeDelta({ trainNumber: 45 }));
+
+    expect(result.trainId).toBe(1);
+    expect(result.explanation).toEqual({ method: "tieBreak", criterion: "date" });
+    expect(result.ranked.map((candidate) => candidate.evidence.dateMatches)).toEqual([true, false]);
+  });
+
+  it("names the entry for the day it departed when the dates share a TrainId", () => {
+    const trains = [
+      makeTrain(1, overnightRoute, { AllocatedDate: "2024-01-02T00:00:00" }),
+      makeTrain(1, overnightRoute, { AllocatedDate: "2024-01-01T00:00:00" }),
+    ];
+    const result = matchLiveDelta(trains, makeDelta({ trainNumber: 45 }));
+
+    expect(result.trainKey).toBe(getTrainUniqueKey(trains[1]));
+    expect(result.explanation).toEqual({ method: "tieBreak", criterion: "date" });
+    expect(findMatchingTrainKey(trains, makeDelta({ trainNumber: 45 }))).toBe(getTrainUniqueKey(trains[1]));
+  });
+
+  it("breaks score ties on the position along each candidate's route", () => {
+    const direct = [makeStop(1, null, "22:00"), makeStop(2, "23:30", "23:35"), makeStop(3, "00:30", null)];
+    const detour = [
+      makeStop(1, null, "22:00"),
+      makeStop(2, "23:30", "23:35"),
+      makeStop(9, "00:00", "00:05", null, 74),
+      makeStop(3, "00:30", null),
+    ];
+    const result = matchLiveDelta([makeTrain(7, detour), makeTrain(8, direct)], makeDelta({}));
+
+    expect(result.trainId).toBe(8);
+    expect(result.explanation.criterion).toBe("segment");
+  });
+
+  it("leaves candidates the evidence cannot separate unmatched", () => {
+    const trains = [makeTrain(2, overnightRoute), makeTrain(1, overnightRoute)];
+    const delta = makeDelta({ trainNumber: 45 });
+    const result = matchLiveDelta(trains, delta);
+
+    expect(result.trainId).toBeUndefined();
+    expect(result.explanation).toEqual({ method: "ambiguous", tiedTrainIds: [1, 2] });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(findMatchingTrainKey(trains, delta)).toBeUndefined();
+  });
+});
@@ -1,5 +1,20 @@
-import type { LiveTrainDelta, SocketMessageEnvelope, SocketTrainPayload, TrainWithRoute } from '@/types';
+import type { LiveTrainDelta, SocketTrainPayload, TrainWithRoute } from '@/types';
+import {
+  compareMatchEvidence,
+  getMatchEvidence,
+  getTrainUniqueKey,
+  type MatchEvidence,
+  type TieBreakCriterion,
+  type TrainIndex
+} from '@/lib/train';
 import { findStopByStationId } from './dataLoader';
+import {
+  isFatalIssue,
+  isSocketEnvelope,
+  sanitizeSocketPayload,
+  validateSocketPayload,
+  type ValidationIssue
+} from './validation';
 
 export const SOCKET_URL = import.meta.env.VITE_PUBLIC_SOCKET_URL as string;
 
@@ -82,93 +97,208 @@ export const parseSocketPayload = (
   };
 };
 
-export const flattenSocketEnvelope = (envelope: SocketMessageEnvelope): LiveTrainDelta[] => {
+export interface SocketEnvelopeReading {
+  deltas: LiveTrainDelta[];
+  /** Everything wrong with the envelope, fatal or not */
+  rejects: ValidationIssue[];
+}
+
+/**
+ * Validates and parses every variant of a socket envelope. Records that fail
+ * validation are dropped and bad optional fields are blanked; the issues are
+ * returned for the caller to count.
+ */
+export const readSocketEnvelope = (envelope: unknown, now: number = Date.now()): SocketEnvelopeReading => {
+  if (!isSocketEnvelope(envelope)) {
+    return { deltas: [], rejects: [{ reason: 'malformedEnvelope', detail: typeof envelope }] };
+  }
+
   const deltas: LiveTrainDelta[] = [];
+  const rejects: ValidationIssue[] = [];
 
   for (const [trainKey, variants] of Object.entries(envelope)) {
     for (const [variantKey, payload] of Object.entries(variants)) {
-      const delta = parseSocketPayload(trainKey, variantKey, payload);
+      const issues = validateSocketPayload(payload, { now });
+      rejects.push(...issues.map((issue) => ({ ...issue, detail: `${trainKey}:${variantKey} ${issue.detail ?? ''}`.trim() })));
+      if (issues.some(isFatalIssue)) continue;
+
+      const delta = parseSocketPayload(trainKey, variantKey, sanitizeSocketPayload(payload, issues));
       if (delta) {
         deltas.push(delta);
       }
     }
   }
 
-  return deltas;
+  return { deltas, rejects };
 };
 
-export const findMatchingTrainId = (trains: TrainWithRoute[], delta: LiveTrainDelta): number | undefined => {
-  if (delta.trainNumber != null && Number.isFinite(delta.trainNumber)) {
-    const numberMatch = trains.find((train) => train.TrainNumber === delta.trainNumber);
-    if (numberMatch) {
-      return numberMatch.TrainId;
-    }
+export type MatchReason =
+  | 'locomotive'
+  | 'nextStation'
+  | 'prevStation'
+  | 'stationOrder'
+  | 'direction'
+  | 'nextStopName'
+  | 'trainNameHint';
+
+export interface MatchCandidate {
+  train: TrainWithRoute;
+  score: number;
+  reasons: MatchReason[];
+}
+
+export interface RankedMatch extends MatchCandidate {
+  evidence: MatchEvidence;
+}
+
+/**
+ * How matchLiveDelta reached its answer: a unique train number, a clear
+ * evidence score, a tie broken on route/schedule/date evidence, or no answer.
+ */
+export interface MatchExplanation {
+  method: 'trainNumber' | 'score' | 'tieBreak' | 'ambiguous' | 'none';
+  /** Evidence that separated the winner from the runner-up in a tie break */
+  criterion?: TieBreakCriterion;
+  /** Trains the evidence could not tell apart */
+  tiedTrainIds?: number[];
+}
+
+export interface LiveDeltaMatch {
+  trainId?: number;
+  /** Unique key of the winning entry, which tells apart the dates of a multi-day service */
+  trainKey?: string;
+  /** Candidates, best first */
+  ranked: RankedMatch[];
+  explanation: MatchExplanation;
+}
+
+const scoreCandidate = (train: TrainWithRoute, delta: LiveTrainDelta): MatchCandidate => {
+  const directionFlag = delta.direction === 'unknown' ? undefined : delta.direction === 'up';
+  let score = 0;
+  const reasons: MatchReason[] = [];
+
+  if (delta.locomitiveNo && train.LocomotiveNumber && delta.locomitiveNo === train.LocomotiveNumber) {
+    score += 10;
+    reasons.push('locomotive');
   }
 
-  type CandidateScore = {
-    train: TrainWithRoute;
-    score: number;
-    reasons: string[];
-  };
+  const nextStop = delta.nextStationId ? findStopByStationId(train.route, delta.nextStationId) : undefined;
+  if (nextStop) {
+    score += 4;
+    reasons.push('nextStation');
+  }
 
-  const directionFlag = delta.direction === 'unknown' ? undefined : delta.direction === 'up';
+  const prevStop = delta.prevStationId ? findStopByStationId(train.route, delta.prevStationId) : undefined;
+  if (prevStop) {
+    score += 4;
+    reasons.push('prevStation');
+  }
 
-  const scoredCandidates: CandidateScore[] = trains
-    .map((train) => {
-      let score = 0;
-      const reasons: string[] = [];
+  if (nextStop && prevStop) {
+    const nextIndex = train.route.findIndex((stop) => stop.StationId === delta.nextStationId);
+    const prevIndex = train.route.findIndex((stop) => stop.StationId === delta.prevStationId);
+    if (prevIndex !== -1 && nextIndex !== -1 && prevIndex < nextIndex) {
+      score += 1;
+      reasons.push('stationOrder');
+    }
+  }
 
-      if (delta.locomitiveNo && train.LocomotiveNumber && delta.locomitiveNo === train.LocomotiveNumber) {
-        score += 10;
-        reasons.push('locomotive');
-      }
+  if (directionFlag != null) {
+    if (train.IsUp === directionFlag) {
+      score += 1;
+      reasons.push('direction');
+    }
+  }
 
-      const nextStop = delta.nextStationId ? findStopByStationId(train.route, delta.nextStationId) : undefined;
-      if (nextStop) {
-        score += 4;
-        reasons.push('nextStation');
-      }
+  if (delta.nextStopName) {
+    const nameLower = delta.nextStopName.toLowerCase();
+    const matchesStopName = train.route.some((stop) => stop.StationName.toLowerCase() === nameLower);
+    if (matchesStopName) {
+      score += 0.5;
+      reasons.push('nextStopName');
+    } else if (train.TrainName.toLowerCase().includes(nameLower)) {
+      score += 0.25;
+      reasons.push('trainNameHint');
+    }
+  }
 
-      const prevStop = delta.prevStationId ? findStopByStationId(train.route, delta.prevStationId) : undefined;
-      if (prevStop) {
-        score += 4;
-        reasons.push('prevStation');
-      }
+  return { train, score, reasons };
+};
 
-      if (nextStop && prevStop) {
-        const nextIndex = train.route.findIndex((stop) => stop.StationId === delta.nextStationId);
-        const prevIndex = train.route.findIndex((stop) => stop.StationId === delta.prevStationId);
-        if (prevIndex !== -1 && nextIndex !== -1 && prevIndex < nextIndex) {
-          score += 1;
-          reasons.push('stationOrder');
-        }
-      }
+/**
+ * Scores every train against a delta using the fuzzy evidence (locomotive,
+ * stations, direction, stop name). Only candidates with a positive score are
+ * returned, best first.
+ */
+export const scoreMatchCandidates = (trains: TrainWithRoute[], delta: LiveTrainDelta): MatchCandidate[] =>
+  trains
+    .map((train) => scoreCandidate(train, delta))
+    .filter((candidate) => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+const rankCandidates = (candidates: MatchCandidate[], delta: LiveTrainDelta): RankedMatch[] =>
+  candidates
+    .map((candidate) => ({ ...candidate, evidence: getMatchEvidence(candidate.train, delta) }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        compareMatchEvidence(a.evidence, b.evidence).order ||
+        a.train.TrainId - b.train.TrainId
+    );
+
+/**
+ * Ranks the trains a delta could belong to and picks one when the evidence
+ * allows. Trains sharing the delta's train number are the only candidates
+ * when there are any (multi-day services list one entry per AllocatedDate);
+ * otherwise every train with fuzzy evidence is. Equal scores are separated by
+ * whether the position lies on the candidate's segment, whether the run's
+ * implied date is the candidate's allocated date and how well the clock fits
+ * its schedule. Candidates the evidence cannot separate are left unmatched.
+ */
+export const matchLiveDelta = (trains: TrainWithRoute[], delta: LiveTrainDelta): LiveDeltaMatch => {
+  const numbered =
+    delta.trainNumber != null && Number.isFinite(delta.trainNumber)
+      ? trains.filter((train) => train.TrainNumber === delta.trainNumber)
+      : [];
+  const candidates =
+    numbered.length > 0 ? numbered.map((train) => scoreCandidate(train, delta)) : scoreMatchCandidates(trains, delta);
+  const ranked = rankCandidates(candidates, delta);
+  const [best, second] = ranked;
+
+  if (!best) {
+    return { ranked, explanation: { method: 'none' } };
+  }
+  const winner = { trainId: best.train.TrainId, trainKey: getTrainUniqueKey(best.train), ranked };
+  if (!second) {
+    return { ...winner, explanation: { method: numbered.length > 0 ? 'trainNumber' : 'score' } };
+  }
+  if (best.score > second.score) {
+    return { ...winner, explanation: { method: 'score' } };
+  }
 
-      if (directionFlag != null) {
-        if (train.IsUp === directionFlag) {
-          score += 1;
-          reasons.push('direction');
-        }
-      }
+  const { order, criterion } = compareMatchEvidence(best.evidence, second.evidence);
+  if (order < 0) {
+    return { ...winner, explanation: { method: 'tieBreak', criterion } };
+  }
 
-      if (delta.nextStopName) {
-        const nameLower = delta.nextStopName.toLowerCase();
-        const matchesStopName = train.route.some((stop) => stop.StationName.toLowerCase() === nameLower);
-        if (matchesStopName) {
-          score += 0.5;
-          reasons.push('nextStopName');
-        } else if (train.TrainName.toLowerCase().includes(nameLower)) {
-          score += 0.25;
-          reasons.push('trainNameHint');
-        }
-      }
+  const tiedTrainIds = ranked
+    .filter(
+      (candidate) =>
+        candidate.score === best.score && compareMatchEvidence(best.evidence, candidate.evidence).order === 0
+    )
+    .map((candidate) => candidate.train.TrainId);
+  return { ranked, explanation: { method: 'ambiguous', tiedTrainIds } };
+};
 
-      return { train, score, reasons };
-    })
-    .filter((candidate) => candidate.score > 0);
+/**
+ * Unique key of the entry a delta belongs to, or undefined when it cannot be
+ * matched; the failure is logged outside production.
+ */
+export const findMatchingTrainKey = (trains: TrainWithRoute[], delta: LiveTrainDelta): string | undefined => {
+  const { trainKey, ranked, explanation } = matchLiveDelta(trains, delta);
 
-  if (scoredCandidates.length === 0) {
-    if (process.env.NODE_ENV !== 'production') {
+  if (process.env.NODE_ENV !== 'production') {
+    if (explanation.method === 'none') {
       console.warn('[liveData] Unable to match live delta', {
         trainKey: delta.trainKey,
         variantKey: delta.variantKey,
@@ -178,39 +308,49 @@ export const findMatchingTrainId = (trains: TrainWithRoute[], delta: LiveTrainDe
         direction: delta.direction,
         locomitiveNo: delta.locomitiveNo
       });
-    }
-    return undefined;
-  }
-
-  scoredCandidates.sort((a, b) => b.score - a.score);
-  const [best, second] = scoredCandidates;
-
-  if (!best || best.score <= 0) {
-    return undefined;
-  }
-
-  const tied = scoredCandidates.filter((candidate) => candidate.score === best.score);
-  if (tied.length > 1) {
-    if (process.env.NODE_ENV !== 'production') {
+    } else if (explanation.method === 'ambiguous') {
       console.warn('[liveData] Ambiguous live delta match', {
         trainKey: delta.trainKey,
         variantKey: delta.variantKey,
         trainNumber: delta.trainNumber,
-        candidates: tied.map((candidate) => ({
-          trainId: candidate.train.TrainId,
-          trainNumber: candidate.train.TrainNumber,
-          reasons: candidate.reasons
-        }))
+        candidates: ranked
+          .filter((candidate) => explanation.tiedTrainIds?.includes(candidate.train.TrainId))
+          .map((candidate) => ({
+            trainId: candidate.train.TrainId,
+            trainNumber: candidate.train.TrainNumber,
+            reasons: candidate.reasons,
+            evidence: candidate.evidence
+          }))
       });
     }
-    return undefined;
   }
 
-  if (second && best.score <= second.score) {
-    return undefined;
-  }
+  return trainKey;
+};
 
-  return best.train.TrainId;
+/**
+ * Unique key of the entry of an already identified train a delta belongs to.
+ * A mapping learned with an allocated date names its entry; a train with a
+ * single entry is that entry; the dates of a multi-day service are told apart
+ * by matching the delta against them alone. Undefined when they cannot be.
+ */
+export const resolveTrainKey = (
+  trains: TrainWithRoute[],
+  index: TrainIndex,
+  trainId: number,
+  delta: LiveTrainDelta,
+  allocatedDate?: string | null
+): string | undefined => {
+  if (allocatedDate != null) {
+    const key = getTrainUniqueKey({ TrainId: trainId, AllocatedDate: allocatedDate });
+    if (index.positionByKey.has(key)) return key;
+  }
+  const keys = index.keysById.get(trainId) ?? [];
+  if (keys.length <= 1) return keys[0];
+  return matchLiveDelta(
+    keys.map((key) => trains[index.positionByKey.get(key)!]),
+    delta
+  ).trainKey;
 };
 
 const computeStopsForRun = (train: TrainWithRoute, run?: LiveTrainDelta) => {
@@ -286,3 +426,20 @@ export const applyRunSelectionToTrain = (train: TrainWithRoute, runId: string):
     previousStop
   };
 };
+
+/**
+ * Projects a historical delta onto a train as if it were the live position,
+ * without touching the train's live runs. Used by journey replay.
+ */
+export const applyReplayFrameToTrain = (train: TrainWithRoute, frame: LiveTrainDelta): TrainWithRoute => {
+  const { upcomingStop, previousStop } = computeStopsForRun(train, frame);
+
+  return {
+    ...train,
+    IsLive: true,
+    selectedRunId: frame.id,
+    livePosition: frame,
+    upcomingStop,
+    previousStop
+  };
+};
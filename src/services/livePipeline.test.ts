@@ -0,0 +1,44 @@
+// livePipeline.test.ts
+import { createLivePipeline, type LivePipelineEvent } from "./livePipeline";
+import * as fixtures from "@/test/fixtures";
+
+const train = fixtures.makeTrain(1, [fixtures.makeStop(1), fixtures.makeStop(2)], { TrainNumber: 45 });
+
+describe("createLivePipeline", () => {
+  it("parses envelopes, reports validation and emits a patch", () => {
+    const events: LivePipelineEvent[] = [];
+    const pipeline = createLivePipeline((event) => events.push(event));
+    pipeline.handle({ type: "dataset", trains: [train], stationIds: [1, 2] });
+
+    pipeline.handle({
+      type: "envelope",
+      payload: {
+        "459900": {
+          a: { lat: 31.5, lon: 70, next_station: 2, prev_station: 1, last_updated: Date.now() / 1000 },
+          b: { lat: null, lon: 70 },
+        },
+      },
+    });
+
+    const [validation, patch] = events;
+    expect(validation).toMatchObject({ type: "validation", accepted: 1 });
+    expect(validation.type === "validation" && validation.rejects.map((issue) => issue.reason)).toEqual([
+      "missingCoordinates",
+    ]);
+    expect(patch.type === "patch" && patch.patch.trains.get("1-no-date")?.IsLive).toBe(true);
+    expect(patch.type === "patch" && patch.deltas.map((delta) => delta.id)).toEqual(["459900:a"]);
+  });
+
+  it("resolves deltas that arrived before the dataset", () => {
+    const events: LivePipelineEvent[] = [];
+    const pipeline = createLivePipeline((event) => events.push(event));
+    pipeline.handle({
+      type: "envelope",
+      payload: { "459900": { a: { lat: 31.5, lon: 70, last_updated: Date.now() / 1000 } } },
+    });
+    pipeline.handle({ type: "dataset", trains: [train], stationIds: [1, 2] });
+
+    const last = events[events.length - 1];
+    expect(last.type === "patch" && last.patch.unresolvedDeltas.get("459900:a")).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+// livePipeline.ts
+import type { LiveTrainDelta, TrainMapping, TrainWithRoute } from '@/types';
+import { findTrainByKey } from '@/lib/train';
+import { persistLiveDeltas, pruneStaleDeltasFromDB } from './dataLoader';
+import { readSocketEnvelope } from './liveData';
+import {
+  createLiveState,
+  mergeTrainMappings,
+  pruneLiveState,
+  reduceDeltas,
+  selectLiveRun,
+  setLiveTrains,
+  type LivePatch
+} from './liveReducer';
+import { assignRunHistory, pruneRunHistory, recordRunHistory } from './runHistory';
+import { createLiveStateWriter, type LiveStateWriter } from './liveSnapshot';
+import { saveTrainMappings } from './trainMappings';
+import { setKnownStationIds, type ValidationIssue } from './validation';
+
+/** Messages the UI sends to the pipeline */
+export type LivePipelineCommand =
+  | { type: 'dataset'; trains: TrainWithRoute[]; stationIds: number[] }
+  | { type: 'envelope'; payload: unknown }
+  | { type: 'deltas'; deltas: LiveTrainDelta[] }
+  | { type: 'mappings'; mappings: TrainMapping[] }
+  | { type: 'selectRun'; trainKey: string; runId: string }
+  | { type: 'prune' }
+  | { type: 'persistence'; enabled: boolean }
+  /** Writes pending live state now, before the page may be discarded */
+  | { type: 'flush' };
+
+/** Messages the pipeline sends back */
+export type LivePipelineEvent =
+  | { type: 'patch'; patch: LivePatch; deltas: LiveTrainDelta[] }
+  | { type: 'validation'; accepted: number; rejects: ValidationIssue[] };
+
+export interface LivePipeline {
+  handle: (command: LivePipelineCommand) => void;
+}
+
+const logFailure = (label: string) => (error: unknown) => console.error(`Failed to ${label}:`, error);
+
+/**
+ * Owns the live state: parses socket envelopes, matches and reduces deltas,
+ * and writes the results to IndexedDB, emitting only what changed. Runs in
+ * the live worker, or on the main thread where workers are unavailable.
+ * Writes are skipped while persistence is off (in follower tabs). Train live
+ * state is written in batches, see createLiveStateWriter.
+ */
+export const createLivePipeline = (emit: (event: LivePipelineEvent) => void): LivePipeline => {
+  const state = createLiveState();
+  let persistence = false;
+  let writer: LiveStateWriter = createLiveStateWriter();
+
+  const flush = () => writer.flush().catch(logFailure('persist live train state'));
+
+  const persistChanges = (patch: LivePatch, deltas: LiveTrainDelta[]) => {
+    if (!persistence) return;
+    if (deltas.length > 0) {
+      persistLiveDeltas(deltas).catch(logFailure('persist live deltas'));
+      recordRunHistory(deltas, (delta) => state.trainKeyToId.get(delta.id)).catch(logFailure('record run history'));
+    }
+    // Runs recorded while unresolved are listed once matched or bound
+    const resolvedRuns = new Map<string, number>();
+    patch.unresolvedDeltas.forEach((delta, runId) => {
+      const trainId = state.trainKeyToId.get(runId);
+      if (delta === null && trainId !== undefined) resolvedRuns.set(runId, trainId);
+    });
+    assignRunHistory(resolvedRuns).catch(logFailure('assign run history'));
+    // The patch carries only live fields; the writer reads the trains they belong to
+    writer.queue(Array.from(patch.trains.keys(), (key) => findTrainByKey(state.trains, state.trainIndex, key)!));
+    saveTrainMappings(patch.learnedMappings).catch(logFailure('persist train mappings'));
+  };
+
+  const publish = (patch: LivePatch, deltas: LiveTrainDelta[] = []) => {
+    emit({ type: 'patch', patch, deltas });
+    persistChanges(patch, deltas);
+  };
+
+  const applyDeltas = (deltas: LiveTrainDelta[]) => {
+    if (deltas.length === 0) return;
+    const now = Date.now();
+    const patch = reduceDeltas(state, deltas, now);
+    publish(pruneLiveState(state, now, patch), deltas);
+  };
+
+  const handle = (command: LivePipelineCommand) => {
+    switch (command.type) {
+      case 'dataset': {
+        // Live payloads are checked against every station the dataset knows about
+        setKnownStationIds(command.stationIds);
+        setLiveTrains(state, command.trains);
+        // Deltas that arrived before the dataset may match now
+        const pending = Array.from(state.unresolvedDeltas.values());
+        if (pending.length > 0) publish(reduceDeltas(state, pending));
+        break;
+      }
+      case 'envelope': {
+        const { deltas, rejects } = readSocketEnvelope(command.payload);
+        emit({ type: 'validation', accepted: deltas.length, rejects });
+        applyDeltas(deltas);
+        break;
+      }
+      case 'deltas':
+        applyDeltas(command.deltas);
+        break;
+      case 'mappings':
+        publish(mergeTrainMappings(state, command.mappings));
+        break;
+      case 'selectRun':
+        emit({ type: 'patch', patch: selectLiveRun(state, command.trainKey, command.runId), deltas: [] });
+        break;
+      case 'prune':
+        if (persistence) {
+          pruneStaleDeltasFromDB().catch(logFailure('prune stale deltas'));
+          pruneRunHistory().catch(logFailure('prune run history'));
+        }
+        publish(pruneLiveState(state));
+        break;
+      case 'persistence':
+        if (command.enabled === persistence) break;
+        if (persistence) {
+          flush();
+        } else {
+          // Another tab may have written since this one last led
+          writer = createLiveStateWriter();
+        }
+        persistence = command.enabled;
+        break;
+      case 'flush':
+        flush();
+        break;
+    }
+  };
+
+  return { handle };
+};
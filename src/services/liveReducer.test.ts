@@ -0,0 +1,150 @@
+// liveReducer.test.ts
+import {
+  applyLivePatch,
+  createLiveState,
+  pruneLiveState,
+  reduceDeltas,
+  selectLiveRun,
+} from "./liveReducer";
+import { STALE_LIVE_RUN_TTL_MS } from "./dataLoader";
+import { getTrainUniqueKey } from "@/lib/train";
+import * as fixtures from "@/test/fixtures";
+import type { LiveTrainDelta } from "@/types";
+
+const makeTrain = (TrainId: number, TrainNumber: number) =>
+  fixtures.makeTrain(TrainId, [fixtures.makeStop(1), fixtures.makeStop(2), fixtures.makeStop(3)], { TrainNumber });
+
+const now = Date.UTC(2024, 0, 1, 10);
+
+// Seen between stations 1 and 2
+const makeDelta = (trainNumber: number | null, variantKey: string, live: Partial<LiveTrainDelta> = {}) =>
+  fixtures.makeDelta({
+    id: `${trainNumber ?? "x"}9900:${variantKey}`,
+    trainKey: `${trainNumber ?? "x"}9900`,
+    variantKey,
+    lat: 31.5,
+    lastUpdated: now,
+    nextStationId: 2,
+    prevStationId: 1,
+    trainNumber,
+    ...live,
+  });
+
+describe("reduceDeltas", () => {
+  it("reports only the trains and keys a batch changed", () => {
+    const state = createLiveState([makeTrain(1, 45), makeTrain(2, 46), makeTrain(3, 47)]);
+    const unknown = makeDelta(99, "c", { prevStationId: 8, nextStationId: 9, direction: "unknown" });
+    const patch = reduceDeltas(state, [makeDelta(45, "a"), makeDelta(45, "b"), unknown], now);
+
+    expect(Array.from(patch.trains.keys())).toEqual(["1-no-date"]);
+    expect(patch.trains.get("1-no-date")?.liveRuns).toHaveLength(2);
+    expect(patch.trainKeyToId.get("459900")).toBe(1);
+    expect(Array.from(patch.unresolvedDeltas.keys())).toEqual(["999900:c"]);
+    expect(state.trains[0].liveRuns).toBe(patch.trains.get("1-no-date")?.liveRuns);
+    expect(patch.trains.get("1-no-date")).not.toHaveProperty("route");
+  });
+
+  it("keeps a mirrored copy in step through patches", () => {
+    const trains = [makeTrain(1, 45), makeTrain(2, 46)];
+    const worker = createLiveState(trains);
+    let mirror = createLiveState(trains);
+
+    mirror = applyLivePatch(mirror, reduceDeltas(worker, [makeDelta(45, "a"), makeDelta(46, "b")], now));
+    mirror = applyLivePatch(mirror, selectLiveRun(worker, "1-no-date", "459900:a"));
+    mirror = applyLivePatch(mirror, pruneLiveState(worker, now + STALE_LIVE_RUN_TTL_MS + 1));
+
+    expect(mirror.trains).toEqual(worker.trains);
+    expect(mirror.liveDeltas).toEqual(worker.liveDeltas);
+    expect(mirror.selectedRunIds).toEqual(worker.selectedRunIds);
+    expect(mirror.trains.every((train) => !train.IsLive)).toBe(true);
+  });
+});
+
+describe("multi-day services", () => {
+  const timed = (StationId: number, ArrivalTime: string | null, DepartureTime: string | null) =>
+    fixtures.makeStop(StationId, { ArrivalTime, DepartureTime });
+  // Departs late in the evening and arrives the next morning
+  const overnight = [timed(1, null, "22:00"), timed(2, "23:30", "23:35"), timed(3, "02:00", "02:05"), timed(4, "05:00", null)];
+  const onDate = (AllocatedDate: string) => fixtures.makeTrain(1, overnight, { TrainNumber: 45, AllocatedDate });
+  const runDelta = () =>
+    makeDelta(45, "a", {
+      prevStationId: 2,
+      nextStationId: 3,
+      lat: 32.5,
+      lastUpdated: new Date(2024, 0, 2, 1, 0).getTime(),
+    });
+
+  it("patches the entry for the day the run departed", () => {
+    // The next day's entry comes first, so the index's first key for the TrainId is the wrong one
+    const nextDay = onDate("2024-01-02T00:00:00");
+    const departureDay = onDate("2024-01-01T00:00:00");
+    const state = createLiveState([nextDay, departureDay]);
+
+    const patch = reduceDeltas(state, [runDelta()], new Date(2024, 0, 2, 1, 0).getTime());
+
+    expect(Array.from(patch.trains.keys())).toEqual([getTrainUniqueKey(departureDay)]);
+    expect(state.trains[0].livePosition).toBeUndefined();
+  });
+
+  it("keeps resolving a known socket key to the same date", () => {
+    const state = createLiveState([onDate("2024-01-02T00:00:00"), onDate("2024-01-01T00:00:00")]);
+    const at = new Date(2024, 0, 2, 1, 0).getTime();
+    reduceDeltas(state, [runDelta()], at);
+
+    // The socket key is now cached by TrainId, which both entries share
+    const patch = reduceDeltas(state, [{ ...runDelta(), lastUpdated: at + 60_000 }], at + 60_000);
+
+    expect(Array.from(patch.trains.keys())).toEqual([getTrainUniqueKey(state.trains[1])]);
+    expect(state.trains[0].liveRuns).toBeUndefined();
+  });
+
+  it("follows the allocated date of a learned mapping", () => {
+    const state = createLiveState([onDate("2024-01-01T00:00:00"), onDate("2024-01-02T00:00:00")]);
+    const at = new Date(2024, 0, 2, 1, 0).getTime();
+    state.trainMappings.set("trainKey:459900", {
+      id: "trainKey:459900",
+      kind: "trainKey",
+      value: "459900",
+      trainId: 1,
+      allocatedDate: "2024-01-02T00:00:00",
+      source: "manual",
+      confidence: 1,
+      firstSeen: at,
+      lastSeen: at,
+      expiresAt: at + 60 * 60_000,
+    });
+
+    const patch = reduceDeltas(state, [runDelta()], at);
+
+    expect(Array.from(patch.trains.keys())).toEqual([getTrainUniqueKey(state.trains[1])]);
+  });
+});
+
+describe("live update throughput", () => {
+  it("applies thousands of deltas and replaces only the trains they touch", () => {
+    const trains = Array.from({ length: 2000 }, (_, index) => makeTrain(index + 1, 1000 + index));
+    const worker = createLiveState(trains);
+    const mirror = createLiveState(trains);
+
+    // 5000 deltas across the first 250 trains, several variants each
+    const deltas = Array.from({ length: 5000 }, (_, index) => {
+      const trainNumber = 1000 + (index % 250);
+      return makeDelta(trainNumber, `${trainNumber}-${index % 4}`, { lastUpdated: now + index });
+    });
+
+    const started = performance.now();
+    const next = applyLivePatch(mirror, reduceDeltas(worker, deltas, now));
+    const elapsed = performance.now() - started;
+
+    expect(elapsed).toBeLessThan(2000);
+    expect(next.trains).toHaveLength(2000);
+    expect(next.trains.slice(0, 250).every((train, index) => train !== trains[index])).toBe(true);
+    expect(next.trains.slice(250).every((train, index) => train === trains[250 + index])).toBe(true);
+
+    // A single follow-up delta replaces exactly one train
+    const single = reduceDeltas(worker, [makeDelta(1010, "1010-0", { lastUpdated: now + 6000 })], now);
+    const after = applyLivePatch(next, single);
+    expect(Array.from(single.trains.keys())).toEqual(["11-no-date"]);
+    expect(after.trains.filter((train, index) => train !== next.trains[index])).toHaveLength(1);
+  });
+});
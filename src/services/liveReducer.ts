@@ -0,0 +1,278 @@
+// liveReducer.ts
+import type { LiveTrainDelta, TrainLiveFields, TrainMapping, TrainWithRoute } from '@/types';
+import { getTrainUniqueKey, indexTrains, type TrainIndex } from '@/lib/train';
+import { STALE_LIVE_RUN_TTL_MS, stripStaleLiveData } from './dataLoader';
+import { applyRunSelectionToTrain, findMatchingTrainKey, resolveTrainKey, updateTrainWithDelta } from './liveData';
+import { toTrainLiveFields, withTrainLiveFields } from './liveSnapshot';
+import {
+  findMappedTrain,
+  getMatchConfidence,
+  learnMappings,
+  TRAIN_NUMBER_MATCH_CONFIDENCE
+} from './trainMappings';
+
+/**
+ * Everything live deltas are reduced into. The maps are updated in place.
+ */
+export interface LiveState {
+  trains: TrainWithRoute[];
+  /** Positions in trains by unique key and TrainId; trains are only ever replaced in place */
+  trainIndex: TrainIndex;
+  liveDeltas: Map<string, LiveTrainDelta>;
+  trainKeyToId: Map<string, number>;
+  /** Learned socket key -> train mappings, by mapping id */
+  trainMappings: Map<string, TrainMapping>;
+  selectedRunIds: Map<string, string>;
+  unresolvedDeltas: Map<string, LiveTrainDelta>;
+}
+
+/**
+ * The changes a reduction made to a LiveState, small enough to post from the
+ * worker for every socket message. A null value removes the entry.
+ */
+export interface LivePatch {
+  /**
+   * Live fields of the trains whose live state changed, by unique key; the
+   * static route and schedule are not posted again
+   */
+  trains: Map<string, TrainLiveFields>;
+  liveDeltas: Map<string, LiveTrainDelta | null>;
+  trainKeyToId: Map<string, number>;
+  selectedRunIds: Map<string, string | null>;
+  unresolvedDeltas: Map<string, LiveTrainDelta | null>;
+  /** Mappings learned, confirmed or merged, to persist */
+  learnedMappings: TrainMapping[];
+}
+
+export const createLiveState = (trains: TrainWithRoute[] = []): LiveState => ({
+  trains: [...trains],
+  trainIndex: indexTrains(trains),
+  liveDeltas: new Map(),
+  trainKeyToId: new Map(),
+  trainMappings: new Map(),
+  selectedRunIds: new Map(),
+  unresolvedDeltas: new Map()
+});
+
+export const createLivePatch = (): LivePatch => ({
+  trains: new Map(),
+  liveDeltas: new Map(),
+  trainKeyToId: new Map(),
+  selectedRunIds: new Map(),
+  unresolvedDeltas: new Map(),
+  learnedMappings: []
+});
+
+export const isEmptyPatch = (patch: LivePatch) =>
+  patch.trains.size === 0 &&
+  patch.liveDeltas.size === 0 &&
+  patch.trainKeyToId.size === 0 &&
+  patch.selectedRunIds.size === 0 &&
+  patch.unresolvedDeltas.size === 0 &&
+  patch.learnedMappings.length === 0;
+
+/**
+ * Swaps in a new dataset and indexes it.
+ */
+export const setLiveTrains = (state: LiveState, trains: TrainWithRoute[]) => {
+  state.trains = [...trains];
+  state.trainIndex = indexTrains(trains);
+};
+
+const replaceTrain = (state: LiveState, position: number, train: TrainWithRoute, patch: LivePatch) => {
+  state.trains[position] = train;
+  patch.trains.set(getTrainUniqueKey(train), toTrainLiveFields(train));
+};
+
+const cacheTrainKey = (state: LiveState, key: string, trainId: number, patch: LivePatch) => {
+  if (state.trainKeyToId.get(key) === trainId) return;
+  state.trainKeyToId.set(key, trainId);
+  patch.trainKeyToId.set(key, trainId);
+};
+
+/**
+ * Matches each delta to one train entry and folds it into that entry's live
+ * runs. Known keys resolve through the train index, with the dates of a
+ * multi-day service told apart by the delta's evidence; only deltas seen for
+ * the first time are matched against the whole dataset.
+ */
+export const reduceDeltas = (
+  state: LiveState,
+  deltas: LiveTrainDelta[],
+  now: number = Date.now(),
+  patch: LivePatch = createLivePatch()
+): LivePatch => {
+  if (deltas.length === 0) return patch;
+
+  deltas.forEach((delta) => {
+    state.liveDeltas.set(delta.trainKey, delta);
+    patch.liveDeltas.set(delta.trainKey, delta);
+
+    // Persisted mappings come first so a reload resolves the same way
+    const learned = findMappedTrain(state.trainMappings, delta, state.trainIndex, now);
+
+    const mappedTrainId =
+      learned?.trainId ??
+      state.trainKeyToId.get(delta.id) ??
+      state.trainKeyToId.get(delta.trainKey) ??
+      state.trainKeyToId.get(delta.variantKey) ??
+      (delta.trainNumber != null ? state.trainKeyToId.get(String(delta.trainNumber)) : undefined);
+
+    // Every delta updates exactly one entry: a multi-day run lands on its own
+    // date, never on every date of the train or whichever was indexed first
+    const uniqueKey = mappedTrainId
+      ? resolveTrainKey(state.trains, state.trainIndex, mappedTrainId, delta, learned?.allocatedDate)
+      : findMatchingTrainKey(state.trains, delta);
+    const position = uniqueKey === undefined ? undefined : state.trainIndex.positionByKey.get(uniqueKey);
+
+    if (uniqueKey === undefined || position === undefined) {
+      state.unresolvedDeltas.set(delta.id, delta);
+      patch.unresolvedDeltas.set(delta.id, delta);
+      return;
+    }
+
+    const targetTrainId = state.trains[position].TrainId;
+
+    // Cache the mapping for future deltas
+    cacheTrainKey(state, delta.id, targetTrainId, patch);
+    cacheTrainKey(state, delta.trainKey, targetTrainId, patch);
+    cacheTrainKey(state, delta.variantKey, targetTrainId, patch);
+    if (delta.trainNumber != null) {
+      cacheTrainKey(state, String(delta.trainNumber), targetTrainId, patch);
+    }
+
+    const updatedTrain = updateTrainWithDelta(
+      state.trains[position],
+      delta,
+      state.selectedRunIds.get(uniqueKey)
+    );
+    replaceTrain(state, position, updatedTrain, patch);
+
+    if (updatedTrain.selectedRunId && state.selectedRunIds.get(uniqueKey) !== updatedTrain.selectedRunId) {
+      state.selectedRunIds.set(uniqueKey, updatedTrain.selectedRunId);
+      patch.selectedRunIds.set(uniqueKey, updatedTrain.selectedRunId);
+    }
+
+    const confidence = learned
+      ? Math.min(learned.confidence, TRAIN_NUMBER_MATCH_CONFIDENCE)
+      : getMatchConfidence(updatedTrain, delta);
+    learnMappings(state.trainMappings, delta, updatedTrain, { confidence, now }).forEach((mapping) => {
+      state.trainMappings.set(mapping.id, mapping);
+      patch.learnedMappings.push(mapping);
+    });
+
+    if (state.unresolvedDeltas.delete(delta.id)) {
+      patch.unresolvedDeltas.set(delta.id, null);
+    }
+  });
+
+  return patch;
+};
+
+/**
+ * Drops live deltas and runs that have not been updated within the stale TTL.
+ */
+export const pruneLiveState = (
+  state: LiveState,
+  now: number = Date.now(),
+  patch: LivePatch = createLivePatch()
+): LivePatch => {
+  state.liveDeltas.forEach((delta, key) => {
+    if (now - delta.lastUpdated > STALE_LIVE_RUN_TTL_MS) {
+      state.liveDeltas.delete(key);
+      patch.liveDeltas.set(key, null);
+    }
+  });
+
+  const sanitizedTrains = stripStaleLiveData(state.trains, now);
+  if (sanitizedTrains !== state.trains) {
+    sanitizedTrains.forEach((train, index) => {
+      if (train === state.trains[index]) return;
+      replaceTrain(state, index, train, patch);
+      const uniqueKey = getTrainUniqueKey(train);
+      if (!train.selectedRunId && state.selectedRunIds.delete(uniqueKey)) {
+        patch.selectedRunIds.set(uniqueKey, null);
+      }
+    });
+  }
+
+  return patch;
+};
+
+/**
+ * Pins one of a train's live runs as the one shown.
+ */
+export const selectLiveRun = (
+  state: LiveState,
+  trainKey: string,
+  runId: string,
+  patch: LivePatch = createLivePatch()
+): LivePatch => {
+  const position = state.trainIndex.positionByKey.get(trainKey);
+  if (position === undefined) return patch;
+
+  const train = applyRunSelectionToTrain(state.trains[position], runId);
+  if (train === state.trains[position]) return patch;
+  replaceTrain(state, position, train, patch);
+  if (train.selectedRunId) {
+    state.selectedRunIds.set(trainKey, train.selectedRunId);
+    patch.selectedRunIds.set(trainKey, train.selectedRunId);
+  }
+  return patch;
+};
+
+/**
+ * Merges mappings loaded from IndexedDB, bound by hand or learned in another
+ * tab (the most recently seen copy wins), then applies the unresolved deltas
+ * they now resolve.
+ */
+export const mergeTrainMappings = (
+  state: LiveState,
+  mappings: TrainMapping[],
+  now: number = Date.now(),
+  patch: LivePatch = createLivePatch()
+): LivePatch => {
+  mappings.forEach((mapping) => {
+    const current = state.trainMappings.get(mapping.id);
+    if (!current || current.lastSeen <= mapping.lastSeen) {
+      state.trainMappings.set(mapping.id, mapping);
+    }
+  });
+
+  const pending = Array.from(state.unresolvedDeltas.values()).filter((delta) =>
+    findMappedTrain(state.trainMappings, delta, state.trainIndex, now)
+  );
+  return reduceDeltas(state, pending, now, patch);
+};
+
+/**
+ * Applies a patch to another copy of the live state (the store mirroring the
+ * worker). Maps are updated in place. When any train changed the trains array
+ * is copied with just those entries replaced by the train with its new live
+ * fields, so every other train keeps its identity and memoised rows and
+ * markers skip re-rendering.
+ */
+export const applyLivePatch = <T extends LiveState>(state: T, patch: LivePatch): T => {
+  patch.liveDeltas.forEach((delta, key) =>
+    delta ? state.liveDeltas.set(key, delta) : state.liveDeltas.delete(key)
+  );
+  patch.trainKeyToId.forEach((trainId, key) => state.trainKeyToId.set(key, trainId));
+  patch.selectedRunIds.forEach((runId, key) =>
+    runId ? state.selectedRunIds.set(key, runId) : state.selectedRunIds.delete(key)
+  );
+  patch.unresolvedDeltas.forEach((delta, id) =>
+    delta ? state.unresolvedDeltas.set(id, delta) : state.unresolvedDeltas.delete(id)
+  );
+  patch.learnedMappings.forEach((mapping) => {
+    const current = state.trainMappings.get(mapping.id);
+    if (!current || current.lastSeen <= mapping.lastSeen) state.trainMappings.set(mapping.id, mapping);
+  });
+
+  if (patch.trains.size === 0) return state;
+  const trains = [...state.trains];
+  patch.trains.forEach((fields, key) => {
+    const position = state.trainIndex.positionByKey.get(key);
+    if (position !== undefined) trains[position] = withTrainLiveFields(trains[position], fields);
+  });
+  return { ...state, trains };
+};
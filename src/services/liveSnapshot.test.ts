@@ -0,0 +1,132 @@
+// liveSnapshot.test.ts
+import {
+  applyTrainLiveState,
+  carryOverLiveState,
+  createLiveStateWriter,
+  LIVE_STATE_WRITE_DELAY_MS,
+  toTrainLiveState,
+  type LiveStateStore,
+} from "./liveSnapshot";
+import * as fixtures from "@/test/fixtures";
+import type { LiveTrainDelta, TrainLiveState, TrainWithRoute } from "@/types";
+import { getTrainUniqueKey } from "@/lib/train";
+
+const route = [fixtures.makeStop(1), fixtures.makeStop(2), fixtures.makeStop(3)];
+
+const makeTrain = (TrainId: number, run?: Partial<LiveTrainDelta>): TrainWithRoute => {
+  const liveRun = run && fixtures.makeDelta({ id: `${TrainId}:a`, lat: 31.5, ...run });
+  return fixtures.makeTrain(TrainId, route, {
+    IsLive: Boolean(liveRun),
+    upcomingStop: liveRun ? route[1] : route[0],
+    previousStop: liveRun ? route[0] : undefined,
+    livePosition: liveRun,
+    liveRuns: liveRun && [liveRun],
+    selectedRunId: liveRun?.id,
+  });
+};
+
+const createStore = () => {
+  const puts: TrainLiveState[][] = [];
+  const deletes: string[][] = [];
+  const store: LiveStateStore = {
+    put: async (states) => puts.push(states),
+    delete: async (keys) => deletes.push(keys),
+  };
+  return { store, puts, deletes };
+};
+
+describe("createLiveStateWriter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("writes each train once per window, only when its live state changed", async () => {
+    const { store, puts } = createStore();
+    const writer = createLiveStateWriter(store);
+
+    writer.queue([makeTrain(1, { lastUpdated: 1 }), makeTrain(2, { lastUpdated: 1 })]);
+    writer.queue([makeTrain(1, { lastUpdated: 2 })]);
+    expect(puts).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(LIVE_STATE_WRITE_DELAY_MS);
+    expect(puts).toHaveLength(1);
+    expect(puts[0].map((state) => [state.TrainId, state.liveRuns?.[0].lastUpdated])).toEqual([
+      [1, 2],
+      [2, 1],
+    ]);
+
+    // The same positions again write nothing
+    writer.queue([makeTrain(1, { lastUpdated: 2 }), makeTrain(2, { lastUpdated: 1 })]);
+    await vi.advanceTimersByTimeAsync(LIVE_STATE_WRITE_DELAY_MS);
+    expect(puts).toHaveLength(1);
+  });
+
+  it("deletes the rows of trains that stopped being live and flushes on demand", async () => {
+    const { store, puts, deletes } = createStore();
+    const writer = createLiveStateWriter(store);
+
+    writer.queue([makeTrain(1, { lastUpdated: 1 })]);
+    await writer.flush();
+    expect(puts).toHaveLength(1);
+
+    writer.queue([makeTrain(1)]);
+    await writer.flush();
+    expect(deletes).toEqual([[getTrainUniqueKey(makeTrain(1))]]);
+
+    // Already gone, nothing more to delete
+    writer.queue([makeTrain(1)]);
+    await writer.flush();
+    expect(deletes).toHaveLength(1);
+  });
+
+  it("keeps the runs of each date of a multi-day service apart", async () => {
+    const { store, puts, deletes } = createStore();
+    const writer = createLiveStateWriter(store);
+    const onDate = (train: TrainWithRoute, AllocatedDate: string) => ({ ...train, AllocatedDate });
+
+    const first = onDate(makeTrain(1, { id: "1:a", lastUpdated: 1 }), "2024-01-01T00:00:00");
+    const second = onDate(makeTrain(1, { id: "1:b", lastUpdated: 1 }), "2024-01-02T00:00:00");
+
+    writer.queue([first, second]);
+    await writer.flush();
+
+    expect(puts[0].map((state) => [state.key, state.selectedRunId])).toEqual([
+      [getTrainUniqueKey(first), "1:a"],
+      [getTrainUniqueKey(second), "1:b"],
+    ]);
+
+    // One date going quiet leaves the other's row alone
+    writer.queue([onDate(makeTrain(1), "2024-01-01T00:00:00")]);
+    await writer.flush();
+    expect(deletes).toEqual([[getTrainUniqueKey(first)]]);
+  });
+});
+
+describe("applyTrainLiveState", () => {
+  it("restores the live fields onto the static train", () => {
+    const live = makeTrain(1, { lastUpdated: 5 });
+    const restored = applyTrainLiveState(makeTrain(1), toTrainLiveState(live)!);
+
+    expect(restored.IsLive).toBe(true);
+    expect(restored.livePosition).toEqual(live.livePosition);
+    expect(restored.upcomingStop).toBe(route[1]);
+    expect(restored.previousStop).toBe(route[0]);
+  });
+});
+
+describe("carryOverLiveState", () => {
+  it("keeps live fields for trains still in the new dataset", () => {
+    const previous = [makeTrain(1, { lastUpdated: 5 }), makeTrain(2)];
+    const next = [{ ...makeTrain(1), TrainName: "Renamed" }, makeTrain(2), makeTrain(3)];
+    const carried = carryOverLiveState(previous, next);
+
+    expect(carried[0].TrainName).toBe("Renamed");
+    expect(carried[0].livePosition).toEqual(previous[0].livePosition);
+    expect(carried[1]).toBe(next[1]);
+    expect(carried[2]).toBe(next[2]);
+  });
+});
@@ -0,0 +1,188 @@
+// liveSnapshot.ts
+import type { LiveTrainDelta, TrainLiveFields, TrainLiveState, TrainWithRoute } from '@/types';
+import { getTrainUniqueKey } from '@/lib/train';
+import { db } from './db';
+
+/** Live state is written at most this often; later changes in the window are merged */
+export const LIVE_STATE_WRITE_DELAY_MS = 5000;
+
+/**
+ * The live fields of a train, with its stops as station ids.
+ */
+export const toTrainLiveFields = (train: TrainWithRoute): TrainLiveFields => ({
+  IsLive: train.IsLive,
+  liveRuns: train.liveRuns,
+  selectedRunId: train.selectedRunId,
+  upcomingStationId: train.upcomingStop?.StationId,
+  previousStationId: train.previousStop?.StationId
+});
+
+/**
+ * Inverse of `toTrainLiveFields`: sets a train's live fields as they were
+ * taken, clearing whatever the fields leave out.
+ */
+export const withTrainLiveFields = (train: TrainWithRoute, fields: TrainLiveFields): TrainWithRoute => {
+  const findStop = (stationId?: number) =>
+    stationId === undefined ? undefined : train.route.find((stop) => stop.StationId === stationId);
+  return {
+    ...train,
+    IsLive: fields.IsLive,
+    liveRuns: fields.liveRuns,
+    selectedRunId: fields.selectedRunId,
+    livePosition: fields.liveRuns?.find((run) => run.id === fields.selectedRunId),
+    upcomingStop: findStop(fields.upcomingStationId),
+    previousStop: findStop(fields.previousStationId)
+  };
+};
+
+/**
+ * The live fields of a train, or null when it has none worth keeping.
+ */
+export const toTrainLiveState = (train: TrainWithRoute, now: number = Date.now()): TrainLiveState | null => {
+  if (!train.IsLive && !train.liveRuns?.length) return null;
+  return {
+    key: getTrainUniqueKey(train),
+    TrainId: train.TrainId,
+    ...toTrainLiveFields(train),
+    updatedAt: now
+  };
+};
+
+const isSameRun = (a: LiveTrainDelta, b: LiveTrainDelta) =>
+  a.id === b.id && a.lastUpdated === b.lastUpdated && a.lat === b.lat && a.lon === b.lon;
+
+/**
+ * Whether two live states would store the same thing, ignoring when they were taken.
+ */
+export const isSameLiveState = (a: TrainLiveState | null, b: TrainLiveState | null): boolean => {
+  if (!a || !b) return a === b;
+  const runsA = a.liveRuns ?? [];
+  const runsB = b.liveRuns ?? [];
+  return (
+    a.IsLive === b.IsLive &&
+    a.selectedRunId === b.selectedRunId &&
+    a.upcomingStationId === b.upcomingStationId &&
+    a.previousStationId === b.previousStationId &&
+    runsA.length === runsB.length &&
+    runsA.every((run, index) => isSameRun(run, runsB[index]))
+  );
+};
+
+/**
+ * Restores stored live fields onto a static train.
+ */
+export const applyTrainLiveState = (train: TrainWithRoute, state: TrainLiveState): TrainWithRoute => {
+  const livePosition = state.liveRuns?.find((run) => run.id === state.selectedRunId) ?? state.liveRuns?.[0];
+  const findStop = (stationId?: number) =>
+    stationId === undefined ? undefined : train.route.find((stop) => stop.StationId === stationId);
+  return {
+    ...train,
+    IsLive: state.IsLive,
+    liveRuns: state.liveRuns,
+    selectedRunId: state.selectedRunId,
+    livePosition,
+    upcomingStop: findStop(state.upcomingStationId) ?? train.upcomingStop,
+    previousStop: findStop(state.previousStationId)
+  };
+};
+
+/**
+ * Keeps the live fields of trains that are still present in a replacement
+ * dataset, so swapping in new timetables does not blank the map.
+ */
+export const carryOverLiveState = (previous: TrainWithRoute[], next: TrainWithRoute[]): TrainWithRoute[] => {
+  const liveByKey = new Map<string, TrainLiveState>();
+  previous.forEach((train) => {
+    const state = toTrainLiveState(train);
+    if (state) liveByKey.set(getTrainUniqueKey(train), state);
+  });
+  if (liveByKey.size === 0) return next;
+  return next.map((train) => {
+    const state = liveByKey.get(getTrainUniqueKey(train));
+    return state ? applyTrainLiveState(train, state) : train;
+  });
+};
+
+/** Where live state is written, replaceable in tests */
+export interface LiveStateStore {
+  put: (states: TrainLiveState[]) => Promise<unknown>;
+  delete: (keys: string[]) => Promise<unknown>;
+}
+
+const databaseStore: LiveStateStore = {
+  put: (states) => db.trainLiveState.bulkPut(states),
+  delete: (keys) => db.trainLiveState.bulkDelete(keys)
+};
+
+export interface LiveStateWriter {
+  /** Marks trains whose live state may have changed */
+  queue: (trains: Iterable<TrainWithRoute>) => void;
+  /** Writes whatever is queued now, e.g. when the page is being hidden */
+  flush: () => Promise<void>;
+}
+
+/**
+ * Writes the live state of changed trains to IndexedDB. Trains queued within
+ * the write delay are written together, and each is compared with what was
+ * last written for it so repeated positions and untouched fields cost
+ * nothing. A train whose live state was cleared has its row deleted. Rows
+ * are keyed by unique key, so the dates of a multi-day service are kept apart.
+ */
+export const createLiveStateWriter = (
+  store: LiveStateStore = databaseStore,
+  delayMs: number = LIVE_STATE_WRITE_DELAY_MS
+): LiveStateWriter => {
+  // Last written state per unique key; null once the row is known to be gone
+  const written = new Map<string, TrainLiveState | null>();
+  const pending = new Map<string, TrainWithRoute>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = async () => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (pending.size === 0) return;
+
+    const now = Date.now();
+    const puts: TrainLiveState[] = [];
+    const deletes: string[] = [];
+    pending.forEach((train, key) => {
+      const next = toTrainLiveState(train, now);
+      const previous = written.get(key);
+      if (previous !== undefined && isSameLiveState(previous, next)) return;
+      if (next) puts.push(next);
+      else deletes.push(key);
+      written.set(key, next);
+    });
+    pending.clear();
+
+    try {
+      await Promise.all([
+        puts.length > 0 && store.put(puts),
+        deletes.length > 0 && store.delete(deletes)
+      ]);
+    } catch (error) {
+      // Forget what failed so the next change writes it again
+      puts.forEach((state) => written.delete(state.key));
+      deletes.forEach((key) => written.delete(key));
+      throw error;
+    }
+  };
+
+  const queue = (trains: Iterable<TrainWithRoute>) => {
+    for (const train of trains) pending.set(getTrainUniqueKey(train), train);
+    if (pending.size === 0 || timer !== undefined) return;
+    timer = setTimeout(() => {
+      flush().catch((error) => console.error('Failed to persist live train state:', error));
+    }, delayMs);
+  };
+
+  return { queue, flush };
+};
+
+/**
+ * Loads the stored live state of every train, by unique key.
+ */
+export const loadTrainLiveState = async (): Promise<Map<string, TrainLiveState>> => {
+  const states = await db.trainLiveState.toArray();
+  return new Map(states.map((state) => [state.key, state]));
+};
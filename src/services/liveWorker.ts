@@ -0,0 +1,7 @@
+// liveWorker.ts
+import { createLivePipeline, type LivePipelineCommand } from './livePipeline';
+
+// Entry point of the live worker, see startLivePipeline
+const pipeline = createLivePipeline((event) => self.postMessage(event));
+
+self.addEventListener('message', (event: MessageEvent<LivePipelineCommand>) => pipeline.handle(event.data));
@@ -0,0 +1,74 @@
+// liveWorkerClient.ts
+import {
+  createLivePipeline,
+  type LivePipelineCommand,
+  type LivePipelineEvent
+} from './livePipeline';
+
+export interface LivePipelineConnection {
+  send: (command: LivePipelineCommand) => void;
+  stop: () => void;
+}
+
+/**
+ * Commands that set the pipeline up rather than feed it, kept to replay if it
+ * has to be restarted. Only the latest dataset and persistence flag matter.
+ */
+const recordSetup = (setup: LivePipelineCommand[], command: LivePipelineCommand): LivePipelineCommand[] => {
+  switch (command.type) {
+    case 'dataset':
+    case 'persistence':
+      return [...setup.filter((entry) => entry.type !== command.type), command];
+    case 'mappings':
+      return [...setup, command];
+    default:
+      return setup;
+  }
+};
+
+/**
+ * Starts the live pipeline in a Web Worker so parsing, matching and IndexedDB
+ * writes stay off the main thread. Falls back to running it inline when
+ * module workers are unavailable or the worker fails to start; the setup
+ * commands sent so far are replayed to the inline pipeline.
+ */
+export const startLivePipeline = (onEvent: (event: LivePipelineEvent) => void): LivePipelineConnection => {
+  let setup: LivePipelineCommand[] = [];
+  let send: (command: LivePipelineCommand) => void;
+  let stop = () => {};
+
+  const runInline = () => {
+    const pipeline = createLivePipeline(onEvent);
+    setup.forEach(pipeline.handle);
+    send = pipeline.handle;
+    stop = () => {};
+  };
+
+  if (typeof Worker === 'undefined') {
+    runInline();
+  } else {
+    const worker = new Worker(new URL('./liveWorker.ts', import.meta.url), { type: 'module' });
+    let hasResponded = false;
+    worker.addEventListener('message', (event: MessageEvent<LivePipelineEvent>) => {
+      hasResponded = true;
+      onEvent(event.data);
+    });
+    worker.addEventListener('error', (event) => {
+      console.error('Live worker failed:', event.message);
+      if (hasResponded) return;
+      console.warn('Processing live data on the main thread instead');
+      worker.terminate();
+      runInline();
+    });
+    send = (command) => worker.postMessage(command);
+    stop = () => worker.terminate();
+  }
+
+  return {
+    send: (command) => {
+      setup = recordSetup(setup, command);
+      send(command);
+    },
+    stop: () => stop()
+  };
+};
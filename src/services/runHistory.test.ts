@@ -0,0 +1,83 @@
+// runHistory.test.ts
+import {
+  assignRunHistory,
+  getRunHistory,
+  listRecordedRuns,
+  pruneRunHistory,
+  recordRunHistory,
+} from "./runHistory";
+import { db } from "./db";
+import * as fixtures from "@/test/fixtures";
+import type { LiveTrainDelta } from "@/types";
+
+const makeDelta = (id: string, lastUpdated: number) =>
+  fixtures.makeDelta({ id, trainKey: id.split(":")[0], variantKey: id.split(":")[1], lat: 31, lastUpdated });
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("runHistory", () => {
+  beforeEach(async () => {
+    await db.runHistory.clear();
+  });
+
+  it("records each position of a run once, with the TrainId it resolved to", async () => {
+    const trainIds = new Map([["459900:a", 1]]);
+    const resolve = (delta: LiveTrainDelta) => trainIds.get(delta.id);
+
+    await recordRunHistory([makeDelta("459900:a", 100), makeDelta("999900:c", 100)], resolve);
+    await recordRunHistory([makeDelta("459900:a", 100), makeDelta("459900:a", 200)], resolve);
+
+    const entries = await db.runHistory.toArray();
+    expect(entries.map((entry) => [entry.id, entry.lastUpdated, entry.trainId])).toEqual([
+      ["459900:a", 100, 1],
+      ["459900:a", 200, 1],
+      ["999900:c", 100, null],
+    ]);
+  });
+
+  it("lists the runs of a train inside the window, most recently seen first", async () => {
+    await recordRunHistory(
+      [makeDelta("459900:a", 100), makeDelta("459900:a", 300), makeDelta("459900:b", 500), makeDelta("459900:c", 900)],
+      () => 1
+    );
+    await recordRunHistory([makeDelta("469900:a", 400)], () => 2);
+
+    const runs = await listRecordedRuns(1, 0, 600);
+
+    expect(runs).toEqual([
+      { runId: "459900:b", trainKey: "459900", firstSeen: 500, lastSeen: 500, pointCount: 1 },
+      { runId: "459900:a", trainKey: "459900", firstSeen: 100, lastSeen: 300, pointCount: 2 },
+    ]);
+  });
+
+  it("lists a run recorded before it was resolved once it is assigned", async () => {
+    await recordRunHistory([makeDelta("999900:c", 100), makeDelta("999900:c", 200)]);
+    expect(await listRecordedRuns(1, 0, 1000)).toEqual([]);
+
+    await assignRunHistory(new Map([["999900:c", 1]]));
+
+    expect((await listRecordedRuns(1, 0, 1000)).map((run) => [run.runId, run.pointCount])).toEqual([
+      ["999900:c", 2],
+    ]);
+  });
+
+  it("deletes breadcrumbs older than the retention window", async () => {
+    const now = 100 * HOUR_MS;
+    await recordRunHistory([makeDelta("459900:a", now - 3 * HOUR_MS), makeDelta("459900:a", now - HOUR_MS)]);
+
+    await pruneRunHistory(2 * HOUR_MS, now);
+
+    expect((await db.runHistory.toArray()).map((entry) => entry.lastUpdated)).toEqual([now - HOUR_MS]);
+  });
+
+  it("replays a run in time order, whatever order it was recorded in", async () => {
+    await recordRunHistory([makeDelta("459900:a", 300), makeDelta("459900:b", 150)]);
+    await recordRunHistory([makeDelta("459900:a", 100), makeDelta("459900:a", 200)]);
+    await recordRunHistory([makeDelta("459900:a", 400)]);
+
+    const history = await getRunHistory("459900:a", 150, 300);
+
+    expect(history.map((entry) => entry.lastUpdated)).toEqual([200, 300]);
+    expect(await getRunHistory("459900:a", 300, 100)).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+// runHistory.ts
+import type { LiveTrainDelta, RunHistoryEntry } from '@/types';
+import { db } from './db';
+
+const DEFAULT_RETENTION_HOURS = 48;
+
+const parseRetentionHours = (value: unknown): number => {
+  const hours = Number(value);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_RETENTION_HOURS;
+};
+
+/**
+ * How long breadcrumbs are kept. Override with VITE_RUN_HISTORY_RETENTION_HOURS.
+ */
+export const RUN_HISTORY_RETENTION_MS =
+  parseRetentionHours(import.meta.env.VITE_RUN_HISTORY_RETENTION_HOURS) * 60 * 60 * 1000;
+
+/**
+ * Appends every received delta as a breadcrumb for its run.
+ * Entries are keyed by run id and timestamp, so repeated snapshots of the
+ * same position are stored once.
+ */
+export const recordRunHistory = async (
+  deltas: LiveTrainDelta[],
+  resolveTrainId: (delta: LiveTrainDelta) => number | undefined = () => undefined
+) => {
+  if (deltas.length === 0) return;
+  const recordedAt = Date.now();
+  const entries: RunHistoryEntry[] = deltas.map((delta) => ({
+    ...delta,
+    trainId: resolveTrainId(delta) ?? null,
+    recordedAt
+  }));
+  await db.runHistory.bulkPut(entries);
+};
+
+/**
+ * Attributes the breadcrumbs recorded while a run was unresolved to the
+ * TrainId it has since been matched or bound to, so the run is listed for
+ * that train.
+ * @param trainIdByRunId - Newly resolved runs.
+ */
+export const assignRunHistory = async (trainIdByRunId: Map<string, number>) => {
+  if (trainIdByRunId.size === 0) return;
+  await db.transaction('rw', db.runHistory, () =>
+    Promise.all(
+      Array.from(trainIdByRunId, ([runId, trainId]) =>
+        db.runHistory
+          .where('id')
+          .equals(runId)
+          .filter((entry) => entry.trainId === null)
+          .modify({ trainId })
+      )
+    )
+  );
+};
+
+/**
+ * Deletes breadcrumbs older than the retention window.
+ */
+export const pruneRunHistory = async (retentionMs: number = RUN_HISTORY_RETENTION_MS, now: number = Date.now()) => {
+  await db.runHistory.where('lastUpdated').below(now - retentionMs).delete();
+};
+
+/**
+ * Returns the time-ordered breadcrumbs of a run between `from` and `to` (inclusive).
+ */
+export const getRunHistory = async (
+  runId: string,
+  from: number = 0,
+  to: number = Date.now()
+): Promise<RunHistoryEntry[]> => {
+  if (from > to) return [];
+  return db.runHistory
+    .where('[id+lastUpdated]')
+    .between([runId, from], [runId, to], true, true)
+    .toArray();
+};
+
+export interface RecordedRunSummary {
+  runId: string;
+  trainKey: string;
+  firstSeen: number;
+  lastSeen: number;
+  pointCount: number;
+}
+
+/**
+ * Lists the runs recorded for a train that have breadcrumbs inside the window,
+ * most recently seen first.
+ */
+export const listRecordedRuns = async (
+  trainId: number,
+  from: number = 0,
+  to: number = Date.now()
+): Promise<RecordedRunSummary[]> => {
+  const entries = await db.runHistory.where('trainId').equals(trainId).toArray();
+  const summaries = new Map<string, RecordedRunSummary>();
+
+  entries.forEach((entry) => {
+    if (entry.lastUpdated < from || entry.lastUpdated > to) return;
+    const existing = summaries.get(entry.id);
+    if (!existing) {
+      summaries.set(entry.id, {
+        runId: entry.id,
+        trainKey: entry.trainKey,
+        firstSeen: entry.lastUpdated,
+        lastSeen: entry.lastUpdated,
+        pointCount: 1
+      });
+      return;
+    }
+    existing.firstSeen = Math.min(existing.firstSeen, entry.lastUpdated);
+    existing.lastSeen = Math.max(existing.lastSeen, entry.lastUpdated);
+    existing.pointCount += 1;
+  });
+
+  return Array.from(summaries.values()).sort((a, b) => b.lastSeen - a.lastSeen);
+};
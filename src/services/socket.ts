@@ -1,47 +1,26 @@
 // socket.ts
-import io from 'socket.io-client';
-import type { Socket as IOSocket } from 'socket.io-client';
-import type { SocketMessageEnvelope } from '@/types';
-import { SOCKET_OPTIONS, SOCKET_URL, flattenSocketEnvelope } from './liveData';
+import { createLiveTransport, type EnvelopeHandler, type TransportEvents } from './transport';
 
-type DeltaHandler = (deltas: ReturnType<typeof flattenSocketEnvelope>) => void;
+type PayloadHandler = (payload: unknown) => void;
 
-export type SocketEvents = {
-  onConnect?: () => void;
-  onDisconnect?: (reason: string) => void;
-  onReconnectAttempt?: (attempt: number) => void;
-  onReconnect?: (attempt: number) => void;
-  onError?: (error: Error) => void;
-};
-
-let singletonSocket: typeof import("socket.io-client").Socket | null = null;
-let handlerRefs: Set<DeltaHandler> = new Set();
+export type SocketEvents = TransportEvents;
 
-export const connectLiveSocket = (handler: DeltaHandler, events?: SocketEvents): (() => void) => {
-  if (!singletonSocket) {
-    singletonSocket = io(SOCKET_URL, {
-      ...SOCKET_OPTIONS,
-      transports: [...SOCKET_OPTIONS.transports]
-    });
-
-    // Register event listeners once
-    singletonSocket.on('connect', events?.onConnect ?? (() => {}));
-    singletonSocket.on('disconnect', events?.onDisconnect ?? (() => {}));
-    singletonSocket.on('connect_error', events?.onError ?? (() => {}));
-    singletonSocket.on('error', events?.onError ?? (() => {}));
-    singletonSocket.io.on('reconnect_attempt', events?.onReconnectAttempt ?? (() => {}));
-    singletonSocket.io.on('reconnect', events?.onReconnect ?? (() => {}));
+let disconnectTransport: (() => void) | null = null;
+let handlerRefs: Set<PayloadHandler> = new Set();
 
+/**
+ * Subscribes to raw live envelopes over the transport picked by the
+ * environment (socket.io by default, see `getLiveTransportConfig`). Parsing
+ * is left to the live pipeline. The connection is shared by every subscriber
+ * and closed when the last one leaves.
+ */
+export const connectLiveSocket = (handler: PayloadHandler, events?: SocketEvents): (() => void) => {
+  if (!disconnectTransport) {
     // Data listeners call all registered handlers
-    const handleEnvelope = (payload: SocketMessageEnvelope) => {
-      const deltas = flattenSocketEnvelope(payload);
-      if (deltas.length > 0) {
-        handlerRefs.forEach(fn => fn(deltas));
-      }
+    const handleEnvelope: EnvelopeHandler = (payload) => {
+      handlerRefs.forEach(fn => fn(payload));
     };
-    singletonSocket.on('all-newtrains-delta', handleEnvelope);
-    singletonSocket.on('all-newtrains', handleEnvelope);
-    singletonSocket.on('all-trains-delta', handleEnvelope);
+    disconnectTransport = createLiveTransport().connect(handleEnvelope, events ?? {});
   }
 
   handlerRefs.add(handler);
@@ -50,9 +29,9 @@ export const connectLiveSocket = (handler: DeltaHandler, events?: SocketEvents):
   return () => {
     handlerRefs.delete(handler);
     // Optionally disconnect if no handlers remain
-    if (handlerRefs.size === 0 && singletonSocket) {
-      singletonSocket.disconnect();
-      singletonSocket = null;
+    if (handlerRefs.size === 0 && disconnectTransport) {
+      disconnectTransport();
+      disconnectTransport = null;
     }
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,154 @@
+// storage.ts
+import { createStore } from 'zustand/vanilla';
+import { db } from './db';
+import { clearTrackCache, evictTracks, getTrackCacheStats, type TrackCacheStats } from './trackCache';
+
+const DEFAULT_TRACK_BUDGET_MB = 50;
+
+/** Cached tracks never take more than this share of the origin's quota */
+export const TRACK_QUOTA_SHARE = 0.25;
+
+const parseBudgetMb = (value: unknown): number => {
+  const megabytes = Number(value);
+  return Number.isFinite(megabytes) && megabytes > 0 ? megabytes : DEFAULT_TRACK_BUDGET_MB;
+};
+
+/**
+ * How much cached track geometry is kept. Override with VITE_TRACK_CACHE_BUDGET_MB.
+ */
+export const TRACK_CACHE_BUDGET_BYTES = parseBudgetMb(import.meta.env.VITE_TRACK_CACHE_BUDGET_MB) * 1024 * 1024;
+
+/**
+ * The track budget, lowered on devices whose quota could not fit it next to
+ * everything else.
+ */
+export const resolveTrackBudget = (configuredBytes: number, estimate?: StorageEstimate): number =>
+  estimate?.quota ? Math.min(configuredBytes, Math.floor(estimate.quota * TRACK_QUOTA_SHARE)) : configuredBytes;
+
+/**
+ * Usage and quota of the origin, where the browser reports them.
+ */
+export const getStorageEstimate = async (): Promise<StorageEstimate | undefined> => {
+  try {
+    return await navigator.storage?.estimate?.();
+  } catch (error) {
+    console.warn('Storage estimate unavailable:', error);
+    return undefined;
+  }
+};
+
+export const isStoragePersisted = async (): Promise<boolean> => {
+  try {
+    return (await navigator.storage?.persisted?.()) ?? false;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Asks the browser not to clear the app's data when space runs low. Browsers
+ * decide by themselves (an installed app or a bookmarked site is usually
+ * granted it without a prompt); resolves with whether storage is persistent.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  try {
+    if (await isStoragePersisted()) return true;
+    return (await navigator.storage?.persist?.()) ?? false;
+  } catch (error) {
+    console.warn('Persistent storage request failed:', error);
+    return false;
+  }
+};
+
+/**
+ * Evicts least recently used tracks until the track cache fits its budget.
+ */
+export const trimTrackCache = async () =>
+  evictTracks(resolveTrackBudget(TRACK_CACHE_BUDGET_BYTES, await getStorageEstimate()));
+
+// --- Settings page ---
+
+/** What can be cleared separately from the settings page */
+export type StorageCategory = 'tracks' | 'live' | 'dataset';
+
+export interface StorageSummary {
+  usage?: number;
+  quota?: number;
+  persisted: boolean;
+  trackBudget: number;
+  tracks: TrackCacheStats;
+  live: { deltas: number; breadcrumbs: number; trainStates: number };
+  dataset: { trains: number; stations: number; syncedAt?: number };
+}
+
+export interface StorageSummaryState {
+  summary?: StorageSummary;
+  isLoading: boolean;
+}
+
+export const storageSummaryStore = createStore<StorageSummaryState>()(() => ({ isLoading: false }));
+
+/**
+ * Measures what is stored per category, for the settings page.
+ */
+export const refreshStorageSummary = async () => {
+  storageSummaryStore.setState({ isLoading: true });
+  try {
+    const [estimate, persisted, tracks, deltas, breadcrumbs, trainStates, trains, stations, synced] =
+      await Promise.all([
+        getStorageEstimate(),
+        isStoragePersisted(),
+        getTrackCacheStats(),
+        db.liveDeltas.count(),
+        db.runHistory.count(),
+        db.trainLiveState.count(),
+        db.trains.count(),
+        db.stations.count(),
+        db.lastUpdated.get('dataset')
+      ]);
+    storageSummaryStore.setState({
+      summary: {
+        usage: estimate?.usage,
+        quota: estimate?.quota,
+        persisted,
+        trackBudget: resolveTrackBudget(TRACK_CACHE_BUDGET_BYTES, estimate),
+        tracks,
+        live: { deltas, breadcrumbs, trainStates },
+        dataset: { trains, stations, syncedAt: synced?.timestamp }
+      }
+    });
+  } catch (error) {
+    console.error('Failed to measure storage:', error);
+  } finally {
+    storageSummaryStore.setState({ isLoading: false });
+  }
+};
+
+/**
+ * Deletes one category of stored data. Live data is the stored deltas, run
+ * breadcrumbs and live train state; the dataset is the stored timetables,
+ * which are downloaded again on the next start or refresh.
+ */
+export const clearStorageCategory = async (category: StorageCategory) => {
+  switch (category) {
+    case 'tracks':
+      await clearTrackCache();
+      break;
+    case 'live':
+      await db.transaction('rw', [db.liveDeltas, db.runHistory, db.trainLiveState], async () => {
+        await db.liveDeltas.clear();
+        await db.runHistory.clear();
+        await db.trainLiveState.clear();
+      });
+      break;
+    case 'dataset':
+      await db.transaction('rw', [db.trains, db.stations, db.datasetVersions, db.lastUpdated], async () => {
+        await db.trains.clear();
+        await db.stations.clear();
+        await db.datasetVersions.clear();
+        await db.lastUpdated.delete('dataset');
+      });
+      break;
+  }
+  await refreshStorageSummary();
+};
@@ -0,0 +1,115 @@
+// tabCoordinator.test.ts
+import { coordinateLiveTabs } from "./tabCoordinator";
+import type { TabCoordinationEnvironment, TabMessage } from "./tabCoordinator";
+
+type FakeChannel = {
+  onmessage: ((event: { data: TabMessage }) => void) | null;
+  postMessage: (data: TabMessage) => void;
+  close: () => void;
+};
+
+// One exclusive lock, granted in request order like navigator.locks
+const createLocks = () => {
+  let held = false;
+  const queue: Array<() => void> = [];
+  const request = (
+    _name: string,
+    options: { signal?: AbortSignal },
+    callback: () => Promise<void> | undefined
+  ) =>
+    new Promise<void>((resolve, reject) => {
+      const grant = () => {
+        held = true;
+        Promise.resolve(callback()).then(() => {
+          held = false;
+          resolve();
+          queue.shift()?.();
+        });
+      };
+      options.signal?.addEventListener("abort", () => {
+        const index = queue.indexOf(grant);
+        if (index === -1) return;
+        queue.splice(index, 1);
+        reject(new DOMException("Aborted", "AbortError"));
+      });
+      if (held) queue.push(grant);
+      else grant();
+    });
+  return { request } as unknown as Pick<LockManager, "request">;
+};
+
+// Channels that deliver to every other member, like BroadcastChannel
+const createBus = () => {
+  const members = new Set<FakeChannel>();
+  return (): BroadcastChannel => {
+    const channel: FakeChannel = {
+      onmessage: null,
+      postMessage: (data) =>
+        members.forEach((member) => member !== channel && member.onmessage?.({ data })),
+      close: () => members.delete(channel),
+    };
+    members.add(channel);
+    return channel as unknown as BroadcastChannel;
+  };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const openTab = (environment: TabCoordinationEnvironment) => {
+  const tab = { roles: [] as string[], messages: [] as TabMessage[], leading: 0 };
+  const coordinator = coordinateLiveTabs(
+    {
+      onLead: () => {
+        tab.leading += 1;
+        return () => {
+          tab.leading -= 1;
+        };
+      },
+      onMessage: (message) => tab.messages.push(message),
+      onRoleChange: (role) => tab.roles.push(role),
+    },
+    environment
+  );
+  return { tab, coordinator };
+};
+
+describe("coordinateLiveTabs", () => {
+  it("lets one tab lead and hands over when it closes", async () => {
+    const environment = { locks: createLocks(), createChannel: createBus() };
+    const first = openTab(environment);
+    await flush();
+    const second = openTab(environment);
+    await flush();
+
+    expect(first.tab.leading).toBe(1);
+    expect(second.tab.leading).toBe(0);
+    expect(second.tab.roles).toEqual(["follower"]);
+    expect(first.tab.messages).toEqual([{ type: "snapshotRequest" }]);
+
+    first.coordinator.stop();
+    await flush();
+
+    expect(first.tab.leading).toBe(0);
+    expect(second.tab.leading).toBe(1);
+    expect(second.tab.roles).toEqual(["follower", "leader"]);
+  });
+
+  it("relays messages to other tabs only", async () => {
+    const environment = { locks: createLocks(), createChannel: createBus() };
+    const leader = openTab(environment);
+    const follower = openTab(environment);
+    await flush();
+
+    leader.coordinator.post({ type: "status", status: "connected" });
+
+    expect(follower.tab.messages).toEqual([{ type: "status", status: "connected" }]);
+    expect(leader.tab.messages).toEqual([{ type: "snapshotRequest" }]);
+  });
+
+  it("leads on its own without Web Locks", () => {
+    const { tab } = openTab({});
+
+    expect(tab.roles).toEqual(["leader"]);
+    expect(tab.leading).toBe(1);
+  });
+});
@@ -0,0 +1,139 @@
+// tabCoordinator.ts
+import type { ConnectionStatus, LiveTrainDelta, TrainMapping } from '@/types';
+
+const CHANNEL_NAME = 'pakrail-live';
+const LEADER_LOCK_NAME = 'pakrail-live-leader';
+
+/**
+ * The leader tab owns the live connection and every IndexedDB write for it;
+ * followers mirror what the leader broadcasts.
+ */
+export type TabRole = 'leader' | 'follower';
+
+export type TabMessage =
+  | { type: 'deltas'; deltas: LiveTrainDelta[] }
+  | { type: 'status'; status: ConnectionStatus; lastError?: string }
+  | { type: 'mappings'; mappings: TrainMapping[] }
+  | { type: 'watchesChanged' }
+  | { type: 'favouritesChanged' }
+  /** The static dataset was revalidated; when it changed, tabs reload it from IndexedDB */
+  | { type: 'datasetSynced'; changed: boolean; syncedAt?: number }
+  | { type: 'snapshotRequest' };
+
+export interface TabCoordinationHandlers {
+  /** Runs when this tab takes the lead; the returned function runs when it steps down */
+  onLead: () => () => void;
+  onMessage: (message: TabMessage) => void;
+  onRoleChange?: (role: TabRole) => void;
+}
+
+/** Browser APIs the coordinator relies on, replaceable in tests */
+export interface TabCoordinationEnvironment {
+  locks?: Pick<LockManager, 'request'>;
+  createChannel?: (name: string) => BroadcastChannel;
+}
+
+export interface TabCoordinator {
+  post: (message: TabMessage) => void;
+  stop: () => void;
+}
+
+const getBrowserEnvironment = (): TabCoordinationEnvironment => ({
+  locks: typeof navigator !== 'undefined' ? navigator.locks : undefined,
+  createChannel: typeof BroadcastChannel !== 'undefined' ? (name) => new BroadcastChannel(name) : undefined
+});
+
+/**
+ * Whether some tab already holds the live connection, so a new tab can skip
+ * probing the feed itself.
+ */
+export const hasLiveLeader = async (): Promise<boolean> => {
+  if (typeof navigator === 'undefined' || !navigator.locks) return false;
+  try {
+    const { held = [] } = await navigator.locks.query();
+    return held.some((lock) => lock.name === LEADER_LOCK_NAME);
+  } catch {
+    return false;
+  }
+};
+
+let activeCoordinator: TabCoordinator | null = null;
+
+/**
+ * Sends a message to every other open tab of the app. A no-op before
+ * coordination has started or where BroadcastChannel is unavailable.
+ */
+export const broadcastToTabs = (message: TabMessage) => {
+  activeCoordinator?.post(message);
+};
+
+/**
+ * Elects one tab to hold the live connection. Every tab queues for the same
+ * Web Lock; the holder leads until it stops or closes, at which point the
+ * browser releases the lock and the next tab in line takes over. Without Web
+ * Locks each tab leads on its own, as it did before coordination existed.
+ */
+export const coordinateLiveTabs = (
+  handlers: TabCoordinationHandlers,
+  environment: TabCoordinationEnvironment = getBrowserEnvironment()
+): TabCoordinator => {
+  const channel = environment.createChannel?.(CHANNEL_NAME) ?? null;
+  const abort = new AbortController();
+  let stopped = false;
+  let stepDown: (() => void) | null = null;
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<TabMessage>) => {
+      if (!stopped) handlers.onMessage(event.data);
+    };
+  }
+
+  const lead = () => {
+    handlers.onRoleChange?.('leader');
+    return handlers.onLead();
+  };
+
+  const coordinator: TabCoordinator = {
+    post: (message) => {
+      if (!stopped) channel?.postMessage(message);
+    },
+    stop: () => {
+      if (stopped) return;
+      stopped = true;
+      abort.abort();
+      stepDown?.();
+      stepDown = null;
+      channel?.close();
+      if (activeCoordinator === coordinator) activeCoordinator = null;
+    }
+  };
+  activeCoordinator = coordinator;
+
+  if (!environment.locks) {
+    stepDown = lead();
+    return coordinator;
+  }
+
+  handlers.onRoleChange?.('follower');
+  channel?.postMessage({ type: 'snapshotRequest' } satisfies TabMessage);
+
+  environment.locks
+    .request(LEADER_LOCK_NAME, { signal: abort.signal }, () => {
+      if (stopped) return undefined;
+      // Hold the lock until this tab stops leading
+      return new Promise<void>((release) => {
+        const teardown = lead();
+        stepDown = () => {
+          teardown();
+          release();
+        };
+      });
+    })
+    .catch((error: unknown) => {
+      if ((error as Error | undefined)?.name !== 'AbortError') {
+        console.error('Tab leader election failed:', error);
+      }
+    });
+
+  return coordinator;
+};
@@ -23,13 +23,16 @@ export interface TrackData {
 
 /**
  * Fetches real track data for a given train from the API.
+ * Tracks are kept offline in IndexedDB (see trackCache), so the request skips
+ * the service worker caches.
  * @param trainId TrainId
+ * @param signal Aborts the request, e.g. when a bulk download is cancelled
  * @returns Track data object (with stations) or throws on error
  */
-export async function fetchTrackData(trainId: number): Promise<TrackData> {
-  const url = `${process.env.VITE_PUBLIC_SOCKET_URL}/api/tracks/${trainId}`;
+export async function fetchTrackData(trainId: number, signal?: AbortSignal): Promise<TrackData> {
+  const url = `${import.meta.env.VITE_PUBLIC_SOCKET_URL}/api/tracks/${trainId}`;
   try {
-    const res = await fetch(url);
+    const res = await fetch(url, { cache: "no-cache", signal });
     if (!res.ok) {
       throw new Error(`Track API error: ${res.status} ${res.statusText}`);
     }
@@ -39,7 +42,7 @@ export async function fetchTrackData(trainId: number): Promise<TrackData> {
     }
     return data as TrackData;
   } catch (err) {
-    console.error("Failed to fetch track data", err);
+    if (!signal?.aborted) console.error("Failed to fetch track data", err);
     throw err;
   }
 }
\ No newline at end of file
@@ -1,6 +1,15 @@
 // trackCache.test.ts
-import { getCachedTrack, setCachedTrack } from "./trackCache";
-import type { TrackData } from "./trackApi";
+import {
+  getCachedTrack,
+  isTrackStale,
+  joinTrack,
+  planTrackEviction,
+  setCachedTrack,
+  splitTrack,
+  TRACK_MAX_AGE_MS,
+  type TrackRecordStation,
+} from "./trackCache";
+import type { TrackData, TrackStation } from "./trackApi";
 
 describe("trackCache", () => {
   const sampleTrack: TrackData = {
@@ -40,4 +49,117 @@ describe("trackCache", () => {
     const cached = await getCachedTrack(999999);
     expect(cached).toBeUndefined();
   });
-});
\ No newline at end of file
+});
+
+describe("splitTrack", () => {
+  const makeStation = (StationId: number, trackGeometryToNext: [number, number][]): TrackStation => ({
+    TrainNumber: 1,
+    TrainName: "Test Train",
+    StationId,
+    ArrivalTime: null,
+    IsDayChanged: null,
+    DayCount: null,
+    DepartureTime: null,
+    IsUp: 1,
+    OrderNumber: StationId,
+    StationName: `Station ${StationId}`,
+    Latitude: StationId,
+    Longitude: StationId,
+    trackGeometryToNext,
+  });
+
+  const up: TrackData = {
+    TrainId: 1,
+    stations: [
+      makeStation(1, [[1, 1], [1.5, 1.5], [2, 2]]),
+      makeStation(2, [[2, 2], [3, 3]]),
+      makeStation(3, []),
+    ],
+  };
+  const down: TrackData = {
+    TrainId: 2,
+    stations: [
+      makeStation(3, [[3, 3], [2, 2]]),
+      makeStation(2, [[2, 2], [1.5, 1.5], [1, 1]]),
+      makeStation(1, []),
+    ],
+  };
+
+  it("stores one segment per station pair for both directions", () => {
+    const upSplit = splitTrack(up);
+    const downSplit = splitTrack(down);
+
+    expect(upSplit.segments.map((segment) => segment.id)).toEqual(["1-2", "2-3"]);
+    expect(downSplit.segments).toEqual(expect.arrayContaining(upSplit.segments));
+    expect(upSplit.record.stations.map((station) => station.segmentId)).toEqual(["1-2", "2-3", undefined]);
+    expect(upSplit.record.stations[0]).not.toHaveProperty("trackGeometryToNext");
+  });
+
+  it("joins a record back into the original track", () => {
+    const segments = new Map(splitTrack(up).segments.map((segment) => [segment.id, segment]));
+
+    expect(joinTrack(splitTrack(up).record, segments)).toEqual(up);
+    expect(joinTrack(splitTrack(down).record, segments)).toEqual(down);
+  });
+
+  it("treats a record with a missing segment as not cached", () => {
+    const { record, segments } = splitTrack(up);
+    expect(joinTrack(record, new Map([[segments[0].id, segments[0]]]))).toBeUndefined();
+  });
+});
+
+describe("planTrackEviction", () => {
+  const makeRecord = (TrainId: number, lastUsedAt: number, segmentIds: string[]) => ({
+    TrainId,
+    lastUsedAt,
+    bytes: 10,
+    stations: segmentIds.map((segmentId) => ({ segmentId }) as TrackRecordStation),
+  });
+  const segmentBytes = new Map([
+    ["1-2", 100],
+    ["2-3", 100],
+    ["3-4", 100],
+  ]);
+
+  it("keeps everything within the budget", () => {
+    const records = [makeRecord(1, 1, ["1-2", "2-3"]), makeRecord(2, 2, ["3-4"])];
+    expect(planTrackEviction(records, segmentBytes, 330)).toEqual({ trainIds: [], segmentIds: [] });
+  });
+
+  it("evicts the least recently used tracks and the segments only they needed", () => {
+    const records = [
+      makeRecord(1, 5, ["1-2", "2-3"]),
+      makeRecord(2, 1, ["2-3", "3-4"]),
+      makeRecord(3, 9, ["1-2"]),
+    ];
+
+    // 330 stored; dropping train 2 frees its row and 3-4, but 2-3 is still used by train 1
+    expect(planTrackEviction(records, segmentBytes, 250)).toEqual({ trainIds: [2], segmentIds: ["3-4"] });
+    expect(planTrackEviction(records, segmentBytes, 150)).toEqual({
+      trainIds: [2, 1],
+      segmentIds: ["3-4", "2-3"],
+    });
+  });
+
+  it("keeps pinned tracks even over the budget", () => {
+    const records = [{ ...makeRecord(1, 1, ["1-2"]), pinned: true }, makeRecord(2, 5, ["3-4"])];
+
+    expect(planTrackEviction(records, segmentBytes, 0)).toEqual({ trainIds: [2], segmentIds: ["2-3", "3-4"] });
+  });
+
+  it("always drops segments no track needs", () => {
+    const records = [makeRecord(1, 1, ["1-2"])];
+    expect(planTrackEviction(records, segmentBytes, 1000)).toEqual({
+      trainIds: [],
+      segmentIds: ["2-3", "3-4"],
+    });
+  });
+});
+
+describe("isTrackStale", () => {
+  it("is stale once older than the maximum age", () => {
+    const now = 10 * TRACK_MAX_AGE_MS;
+    expect(isTrackStale({ fetchedAt: now - TRACK_MAX_AGE_MS }, now)).toBe(false);
+    expect(isTrackStale({ fetchedAt: now - TRACK_MAX_AGE_MS - 1 }, now)).toBe(true);
+  });
+});
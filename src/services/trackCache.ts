@@ -2,39 +2,344 @@
 
 /**
  * Utility functions for caching train track data in IndexedDB.
- * Provides type-safe get/set operations for track geometry per train.
+ * Trains sharing a corridor share its geometry: each train keeps its station
+ * list in `tracks`, and the polyline between two stations is stored once in
+ * `trackSegments`, keyed by the station pair. Tracks carry when they were
+ * fetched and last used, so stale ones are revalidated and the least recently
+ * used are evicted when the cache outgrows its budget. Tracks downloaded for
+ * offline use are pinned and never evicted.
  * Depends on Dexie and the TrackData interface.
  *
  * @module trackCache
  */
 
+import { hashText } from "@/utils/hash";
 import { db } from "./db";
-import type { TrackData } from "./trackApi";
+import type { TrackData, TrackStation } from "./trackApi";
+
+/** A cached track older than this is fetched again the next time it is used */
+export const TRACK_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * A station of a cached track, without its geometry.
+ */
+export interface TrackRecordStation extends Omit<TrackStation, "trackGeometryToNext"> {
+  /** Segment holding the geometry to the next station, when there is any */
+  segmentId?: string;
+}
+
+/**
+ * The stations of a cached track; see `TrackSegment` for the geometry.
+ */
+export interface TrackRecord {
+  TrainId: number;
+  stations: TrackRecordStation[];
+  /** When the track was last downloaded */
+  fetchedAt: number;
+  /** When the track was last read, for evicting the least recently used */
+  lastUsedAt: number;
+  /** Hash of the track as served, to tell whether a refetch changed it */
+  version: string;
+  /** Approximate size of the stations, see `TrackCacheStats.bytes` */
+  bytes: number;
+  /** Downloaded for offline use, so eviction leaves it alone */
+  pinned?: boolean;
+}
+
+/**
+ * Geometry between two neighbouring stations, shared by every train that
+ * runs between them in either direction.
+ */
+export interface TrackSegment {
+  /** `${lowerStationId}-${higherStationId}` */
+  id: string;
+  /** Points from the lower to the higher station id */
+  geometry: [number, number][];
+  /** Approximate size of the geometry */
+  bytes: number;
+}
+
+/**
+ * Cached track data with when and what was downloaded.
+ */
+export interface CachedTrack extends TrackData {
+  fetchedAt: number;
+  version: string;
+}
+
+/**
+ * Size of the cached tracks, for the offline maps settings.
+ */
+export interface TrackCacheStats {
+  tracks: number;
+  segments: number;
+  /** Approximate, from the serialised size of the rows */
+  bytes: number;
+  oldestFetchedAt?: number;
+}
+
+/**
+ * What to remove to bring the cache back within its budget.
+ */
+export interface TrackEviction {
+  trainIds: number[];
+  segmentIds: string[];
+}
+
+const sizeOf = (value: unknown) => JSON.stringify(value).length;
+
+const getSegmentId = (fromStationId: number, toStationId: number) =>
+  fromStationId < toStationId ? `${fromStationId}-${toStationId}` : `${toStationId}-${fromStationId}`;
+
+/**
+ * Splits track data into its station list and one segment per station pair
+ * with geometry. Segments are oriented from the lower station id, so both
+ * directions of a corridor produce the same segment.
+ * @param data - The TrackData to split.
+ * @param fetchedAt - When the data was downloaded.
+ */
+export function splitTrack(
+  data: TrackData,
+  fetchedAt: number = Date.now()
+): { record: TrackRecord; segments: TrackSegment[] } {
+  const segments = new Map<string, TrackSegment>();
+  const stations = data.stations.map(({ trackGeometryToNext, ...station }, index) => {
+    const next = data.stations[index + 1];
+    if (!next || !Array.isArray(trackGeometryToNext) || trackGeometryToNext.length === 0) {
+      return station;
+    }
+    const segmentId = getSegmentId(station.StationId, next.StationId);
+    const geometry =
+      station.StationId < next.StationId ? trackGeometryToNext : [...trackGeometryToNext].reverse();
+    segments.set(segmentId, { id: segmentId, geometry, bytes: sizeOf(geometry) });
+    return { ...station, segmentId };
+  });
+  const record: TrackRecord = {
+    TrainId: data.TrainId,
+    stations,
+    fetchedAt,
+    lastUsedAt: fetchedAt,
+    version: hashText(JSON.stringify(data.stations)),
+    bytes: sizeOf(stations),
+  };
+  return { record, segments: Array.from(segments.values()) };
+}
+
+/**
+ * Inverse of `splitTrack`. Returns undefined when a segment the record needs
+ * is missing, so the track is fetched again rather than drawn with gaps.
+ * @param record - The stored station list.
+ * @param segments - Stored segments by id.
+ */
+export function joinTrack(record: TrackRecord, segments: Map<string, TrackSegment>): TrackData | undefined {
+  const stations: TrackStation[] = [];
+  for (const [index, { segmentId, ...station }] of record.stations.entries()) {
+    if (!segmentId) {
+      stations.push({ ...station, trackGeometryToNext: [] });
+      continue;
+    }
+    const segment = segments.get(segmentId);
+    const next = record.stations[index + 1];
+    if (!segment || !next) return undefined;
+    const geometry =
+      station.StationId < next.StationId ? segment.geometry : [...segment.geometry].reverse();
+    stations.push({ ...station, trackGeometryToNext: geometry });
+  }
+  return { TrainId: record.TrainId, stations };
+}
+
+/**
+ * Picks the tracks to evict, least recently used first, until the cache fits
+ * in the budget. Pinned tracks are kept even when that leaves the cache over
+ * it. A segment goes once no remaining track needs it; segments no track
+ * needs any more are always removed.
+ * @param records - Every cached track.
+ * @param segmentBytes - Size of every cached segment, by id.
+ * @param budgetBytes - Size the cache has to fit in.
+ */
+export function planTrackEviction(
+  records: Pick<TrackRecord, "TrainId" | "stations" | "lastUsedAt" | "bytes" | "pinned">[],
+  segmentBytes: Map<string, number>,
+  budgetBytes: number
+): TrackEviction {
+  const segmentIdsOf = (record: Pick<TrackRecord, "stations">) =>
+    new Set(record.stations.flatMap((station) => (station.segmentId ? [station.segmentId] : [])));
+
+  const users = new Map<string, number>();
+  let total = 0;
+  records.forEach((record) => {
+    total += record.bytes;
+    segmentIdsOf(record).forEach((segmentId) => users.set(segmentId, (users.get(segmentId) ?? 0) + 1));
+  });
+
+  const eviction: TrackEviction = { trainIds: [], segmentIds: [] };
+  segmentBytes.forEach((bytes, segmentId) => {
+    if (users.has(segmentId)) total += bytes;
+    else eviction.segmentIds.push(segmentId);
+  });
+
+  const byLastUse = records.filter((record) => !record.pinned).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  for (const record of byLastUse) {
+    if (total <= budgetBytes) break;
+    eviction.trainIds.push(record.TrainId);
+    total -= record.bytes;
+    segmentIdsOf(record).forEach((segmentId) => {
+      const remaining = (users.get(segmentId) ?? 0) - 1;
+      users.set(segmentId, remaining);
+      if (remaining > 0 || !segmentBytes.has(segmentId)) return;
+      total -= segmentBytes.get(segmentId)!;
+      eviction.segmentIds.push(segmentId);
+    });
+  }
+  return eviction;
+}
+
+/**
+ * Whether a cached track is old enough to be fetched again.
+ * @param track - The cached track or record.
+ */
+export function isTrackStale(track: { fetchedAt: number }, now: number = Date.now()): boolean {
+  return now - track.fetchedAt > TRACK_MAX_AGE_MS;
+}
 
 /**
- * Retrieves cached track data for a specific train from IndexedDB.
+ * Retrieves cached track data for a specific train from IndexedDB and marks it
+ * as used.
  * @param trainId - The TrainId to look up.
- * @returns A promise resolving to the cached TrackData, or undefined if not found.
+ * @returns A promise resolving to the cached track, or undefined if not found.
  */
-export async function getCachedTrack(trainId: number): Promise<TrackData | undefined> {
+export async function getCachedTrack(trainId: number): Promise<CachedTrack | undefined> {
   try {
-    return await db.tracks.get(trainId);
+    const record = await db.tracks.get(trainId);
+    if (!record) return undefined;
+    const segmentIds = Array.from(
+      new Set(record.stations.flatMap((station) => (station.segmentId ? [station.segmentId] : [])))
+    );
+    const segments = await db.trackSegments.bulkGet(segmentIds);
+    const data = joinTrack(
+      record,
+      new Map(segments.flatMap((segment) => (segment ? [[segment.id, segment]] : [])))
+    );
+    if (!data) return undefined;
+
+    db.tracks
+      .update(trainId, { lastUsedAt: Date.now() })
+      .catch((err) => console.error("Failed to mark cached track as used", err));
+    return { ...data, fetchedAt: record.fetchedAt, version: record.version };
   } catch (err) {
     console.error("Failed to get cached track", err);
     return undefined;
   }
 }
+/**
+ * Writes a track and its segments, keeping the pin of the track it replaces.
+ * Resolves with whether the track differs from the cached version.
+ */
+async function writeTrack(trainId: number, data: TrackData, pinned: boolean): Promise<boolean> {
+  const { record, segments } = splitTrack({ ...data, TrainId: trainId });
+  let changed = true;
+  await db.transaction("rw", [db.tracks, db.trackSegments], async () => {
+    const previous = await db.tracks.get(trainId);
+    changed = previous?.version !== record.version;
+    if (pinned || previous?.pinned) record.pinned = true;
+    await db.trackSegments.bulkPut(segments);
+    await db.tracks.put(record);
+  });
+  return changed;
+}
 
 /**
  * Saves track data for a train to IndexedDB cache.
  * @param trainId - The TrainId to associate with the data.
  * @param data - The TrackData object (should include stations).
- * @returns A promise that resolves when the operation completes.
+ * @returns A promise resolving to whether the track differs from the cached
+ * version (true for a newly cached track).
  */
-export async function setCachedTrack(trainId: number, data: TrackData): Promise<void> {
+export async function setCachedTrack(trainId: number, data: TrackData): Promise<boolean> {
   try {
-    await db.tracks.put({ ...data, TrainId: trainId });
+    return await writeTrack(trainId, data, false);
   } catch (err) {
     console.error("Failed to cache track", err);
+    return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Saves a track downloaded for offline use, pinned so eviction keeps it.
+ * @param trainId - The TrainId to associate with the data.
+ * @param data - The TrackData object (should include stations).
+ * @returns A promise resolving to whether the track was stored.
+ */
+export async function setOfflineTrack(trainId: number, data: TrackData): Promise<boolean> {
+  try {
+    await writeTrack(trainId, data, true);
+    return true;
+  } catch (err) {
+    console.error("Failed to cache track", err);
+    return false;
+  }
+}
+
+/**
+ * Pins tracks that are already cached, so eviction keeps them.
+ * @param trainIds - The trains whose tracks to pin.
+ */
+export async function pinCachedTracks(trainIds: number[]): Promise<void> {
+  if (trainIds.length === 0) return;
+  await db.tracks.where("TrainId").anyOf(trainIds).modify({ pinned: true });
+}
+
+/**
+ * Lists the trains whose track is cached.
+ * @param fetchedSince - Only count tracks downloaded at or after this time.
+ */
+export async function getCachedTrainIds(fetchedSince?: number): Promise<number[]> {
+  return fetchedSince === undefined
+    ? db.tracks.toCollection().primaryKeys()
+    : db.tracks.where("fetchedAt").aboveOrEqual(fetchedSince).primaryKeys();
+}
+
+/**
+ * Counts the cached tracks and segments and estimates the space they take.
+ */
+export async function getTrackCacheStats(): Promise<TrackCacheStats> {
+  const stats: TrackCacheStats = { tracks: 0, segments: 0, bytes: 0 };
+  await db.tracks.each((record) => {
+    stats.tracks += 1;
+    stats.bytes += record.bytes;
+    stats.oldestFetchedAt = Math.min(stats.oldestFetchedAt ?? record.fetchedAt, record.fetchedAt);
+  });
+  await db.trackSegments.each((segment) => {
+    stats.segments += 1;
+    stats.bytes += segment.bytes;
+  });
+  return stats;
+}
+
+/**
+ * Evicts the least recently used tracks until the cache fits in the budget,
+ * along with the segments no remaining track needs.
+ * @param budgetBytes - Size the cache has to fit in.
+ */
+export async function evictTracks(budgetBytes: number): Promise<TrackEviction> {
+  return db.transaction("rw", [db.tracks, db.trackSegments], async () => {
+    const records = await db.tracks.toArray();
+    const segmentBytes = new Map<string, number>();
+    await db.trackSegments.each((segment) => segmentBytes.set(segment.id, segment.bytes));
+
+    const eviction = planTrackEviction(records, segmentBytes, budgetBytes);
+    await db.tracks.bulkDelete(eviction.trainIds);
+    await db.trackSegments.bulkDelete(eviction.segmentIds);
+    return eviction;
+  });
+}
+
+/**
+ * Removes every cached track and segment.
+ */
+export async function clearTrackCache(): Promise<void> {
+  await db.transaction("rw", [db.tracks, db.trackSegments], async () => {
+    await db.tracks.clear();
+    await db.trackSegments.clear();
+  });
+}
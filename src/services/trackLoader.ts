@@ -0,0 +1,66 @@
+// trackLoader.ts
+
+/**
+ * Loads track geometry for a train from the IndexedDB cache, falling back to
+ * the track API, and turns it into a measurable track profile. Stale cached
+ * tracks are used right away and revalidated in the background.
+ *
+ * @module trackLoader
+ */
+
+import { buildTrackProfile, type TrackProfile } from "@/lib/map/track";
+import { getCachedTrack, isTrackStale, setCachedTrack } from "./trackCache";
+import { fetchTrackData } from "./trackApi";
+import { trimTrackCache } from "./storage";
+
+/** Number of built profiles kept in memory */
+const PROFILE_CACHE_SIZE = 10;
+
+const profiles = new Map<number, Promise<TrackProfile | null>>();
+
+const trim = () => trimTrackCache().catch((err) => console.error("Failed to trim track cache", err));
+
+// Fetches a stale track again; the cached one stays in use if that fails
+async function revalidateTrack(trainId: number): Promise<void> {
+  try {
+    const data = await fetchTrackData(trainId);
+    // The next load builds the profile from the new geometry
+    if (await setCachedTrack(trainId, data)) profiles.delete(trainId);
+  } catch {
+    // Already logged by fetchTrackData
+  }
+}
+
+async function loadProfile(trainId: number): Promise<TrackProfile | null> {
+  const cached = await getCachedTrack(trainId);
+  if (cached && Array.isArray(cached.stations)) {
+    if (isTrackStale(cached) && navigator.onLine) void revalidateTrack(trainId);
+    return buildTrackProfile(cached.stations);
+  }
+
+  const data = await fetchTrackData(trainId);
+  await setCachedTrack(trainId, data);
+  void trim();
+  return buildTrackProfile(data.stations);
+}
+
+/**
+ * Returns the track profile for a train, or null if it has no usable geometry.
+ * Concurrent callers share one request; failed loads are retried on the next call.
+ * @param trainId - The TrainId to load.
+ */
+export async function loadTrackProfile(trainId: number): Promise<TrackProfile | null> {
+  const existing = profiles.get(trainId);
+  if (existing) return existing;
+
+  const pending = loadProfile(trainId).catch((err) => {
+    profiles.delete(trainId);
+    throw err;
+  });
+
+  profiles.set(trainId, pending);
+  if (profiles.size > PROFILE_CACHE_SIZE) {
+    profiles.delete(profiles.keys().next().value!);
+  }
+  return pending;
+}
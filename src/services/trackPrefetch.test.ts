@@ -0,0 +1,84 @@
+// trackPrefetch.test.ts
+import { prefetchTracks, type TrackPrefetchDeps } from "./trackPrefetch";
+import type { TrackData } from "./trackApi";
+
+const createDeps = (cached: number[], failing: number[] = [], unstorable: number[] = []) => {
+  const saved: number[] = [];
+  const pinned: number[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const deps: TrackPrefetchDeps = {
+    getCachedTrainIds: async () => cached,
+    fetchTrack: async (trainId, signal) => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight -= 1;
+      if (signal?.aborted) throw new Error("aborted");
+      if (failing.includes(trainId)) throw new Error("Track API error: 500");
+      return { TrainId: trainId, stations: [] } as TrackData;
+    },
+    saveTrack: async (trainId) => {
+      if (unstorable.includes(trainId)) return false;
+      saved.push(trainId);
+      return true;
+    },
+    pinTracks: async (trainIds) => {
+      pinned.push(...trainIds);
+    },
+  };
+  return { deps, saved, pinned, maxInFlight: () => maxInFlight };
+};
+
+describe("prefetchTracks", () => {
+  it("downloads uncached tracks with limited concurrency and reports progress", async () => {
+    const { deps, saved, pinned, maxInFlight } = createDeps([2]);
+    const updates: number[] = [];
+
+    const progress = await prefetchTracks([1, 2, 3, 4, 5, 6, 1], {
+      concurrency: 2,
+      deps,
+      onProgress: (next) => updates.push(next.fetched + next.failed),
+    });
+
+    expect(progress).toEqual({ total: 6, fetched: 5, skipped: 1, failed: 0 });
+    expect(saved.sort()).toEqual([1, 3, 4, 5, 6]);
+    expect(pinned).toEqual([2]);
+    expect(maxInFlight()).toBe(2);
+    expect(updates).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it("counts tracks that could not be stored as failed", async () => {
+    const { deps, saved } = createDeps([], [], [2]);
+
+    const progress = await prefetchTracks([1, 2, 3], { deps });
+
+    expect(progress).toEqual({ total: 3, fetched: 2, skipped: 0, failed: 1 });
+    expect(saved.sort()).toEqual([1, 3]);
+  });
+
+  it("counts failed trains and carries on", async () => {
+    const { deps, saved } = createDeps([], [2]);
+
+    const progress = await prefetchTracks([1, 2, 3], { deps });
+
+    expect(progress).toEqual({ total: 3, fetched: 2, skipped: 0, failed: 1 });
+    expect(saved.sort()).toEqual([1, 3]);
+  });
+
+  it("stops taking trains once aborted", async () => {
+    const { deps, saved } = createDeps([]);
+    const controller = new AbortController();
+
+    const progress = await prefetchTracks([1, 2, 3, 4, 5], {
+      concurrency: 1,
+      deps,
+      signal: controller.signal,
+      onProgress: (next) => next.fetched === 2 && controller.abort(),
+    });
+
+    expect(progress.fetched).toBe(2);
+    expect(progress.failed).toBe(0);
+    expect(saved).toEqual([1, 2]);
+  });
+});
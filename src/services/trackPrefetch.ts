@@ -0,0 +1,157 @@
+// trackPrefetch.ts
+
+/**
+ * Downloads the tracks of many trains in the background so the map works
+ * without a connection. One job runs at a time; its progress is kept in a
+ * store outside React so it survives navigating away from the settings page.
+ *
+ * @module trackPrefetch
+ */
+
+import { createStore } from "zustand/vanilla";
+import { fetchTrackData, type TrackData } from "./trackApi";
+import { getCachedTrainIds, pinCachedTracks, setOfflineTrack, TRACK_MAX_AGE_MS } from "./trackCache";
+import { requestPersistentStorage, trimTrackCache } from "./storage";
+
+/** Track requests in flight at once during a bulk download */
+export const TRACK_PREFETCH_CONCURRENCY = 4;
+
+export interface TrackPrefetchProgress {
+  /** Trains asked for, without duplicates */
+  total: number;
+  /** Tracks downloaded and stored by this job */
+  fetched: number;
+  /** Tracks that were already cached and fresh */
+  skipped: number;
+  /** Tracks that could not be downloaded or stored */
+  failed: number;
+}
+
+/** Where tracks come from and go to, replaceable in tests */
+export interface TrackPrefetchDeps {
+  getCachedTrainIds: () => Promise<number[]>;
+  fetchTrack: (trainId: number, signal?: AbortSignal) => Promise<TrackData>;
+  /** Resolves with whether the track was stored */
+  saveTrack: (trainId: number, data: TrackData) => Promise<boolean>;
+  /** Keeps tracks that were already cached from being evicted */
+  pinTracks: (trainIds: number[]) => Promise<unknown>;
+}
+
+export interface TrackPrefetchOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: TrackPrefetchProgress) => void;
+  deps?: TrackPrefetchDeps;
+}
+
+const defaultDeps: TrackPrefetchDeps = {
+  // Stale tracks are downloaded again
+  getCachedTrainIds: () => getCachedTrainIds(Date.now() - TRACK_MAX_AGE_MS),
+  fetchTrack: fetchTrackData,
+  saveTrack: setOfflineTrack,
+  pinTracks: pinCachedTracks,
+};
+
+/**
+ * Fetches and caches the tracks of the given trains that are not cached yet,
+ * with at most `concurrency` requests in flight, and pins every one of them
+ * so the cache budget does not evict the download. A train that could not be
+ * fetched or stored is counted and skipped; aborting stops taking new trains
+ * and resolves with the progress so far.
+ * @param trainIds - The trains to download.
+ * @param options - Concurrency, cancellation and a progress callback.
+ */
+export async function prefetchTracks(
+  trainIds: number[],
+  { concurrency = TRACK_PREFETCH_CONCURRENCY, signal, onProgress, deps = defaultDeps }: TrackPrefetchOptions = {}
+): Promise<TrackPrefetchProgress> {
+  const requested = Array.from(new Set(trainIds));
+  const cached = new Set(await deps.getCachedTrainIds());
+  const queue = requested.filter((trainId) => !cached.has(trainId));
+  await deps.pinTracks(requested.filter((trainId) => cached.has(trainId)));
+
+  let progress: TrackPrefetchProgress = {
+    total: requested.length,
+    fetched: 0,
+    skipped: requested.length - queue.length,
+    failed: 0,
+  };
+  onProgress?.(progress);
+
+  let nextIndex = 0;
+  const work = async () => {
+    while (nextIndex < queue.length && !signal?.aborted) {
+      const trainId = queue[nextIndex];
+      nextIndex += 1;
+      try {
+        const data = await deps.fetchTrack(trainId, signal);
+        const stored = await deps.saveTrack(trainId, data);
+        progress = stored
+          ? { ...progress, fetched: progress.fetched + 1 }
+          : { ...progress, failed: progress.failed + 1 };
+      } catch {
+        // A request cut short by cancelling is not a failure
+        if (signal?.aborted) return;
+        progress = { ...progress, failed: progress.failed + 1 };
+      }
+      onProgress?.(progress);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, work));
+  return progress;
+}
+
+/**
+ * State of the current (or last) bulk track download.
+ */
+export interface TrackPrefetchJob {
+  state: "idle" | "running" | "done" | "cancelled" | "error";
+  progress?: TrackPrefetchProgress;
+  finishedAt?: number;
+  lastError?: string;
+}
+
+export const trackPrefetchStore = createStore<TrackPrefetchJob>()(() => ({ state: "idle" }));
+
+let controller: AbortController | undefined;
+
+/**
+ * Starts downloading the tracks of the given trains, unless a download is
+ * already running. Asks for persistent storage first so the browser keeps the
+ * download, and trims the cache to its budget afterwards; the downloaded
+ * tracks are pinned, so only tracks cached along the way are evicted.
+ * @param trainIds - The trains to download.
+ */
+export async function startTrackPrefetch(trainIds: number[]): Promise<void> {
+  if (controller) return;
+  controller = new AbortController();
+  const { signal } = controller;
+  trackPrefetchStore.setState({ state: "running", progress: undefined, finishedAt: undefined, lastError: undefined });
+
+  try {
+    await requestPersistentStorage();
+    const progress = await prefetchTracks(trainIds, {
+      signal,
+      onProgress: (next) => trackPrefetchStore.setState({ progress: next }),
+    });
+    await trimTrackCache().catch((err) => console.error("Failed to trim track cache", err));
+    trackPrefetchStore.setState({ state: signal.aborted ? "cancelled" : "done", progress, finishedAt: Date.now() });
+  } catch (err) {
+    console.error("Track download failed", err);
+    trackPrefetchStore.setState({
+      state: "error",
+      finishedAt: Date.now(),
+      lastError: err instanceof Error ? err.message : String(err),
+    });
+  } finally {
+    controller = undefined;
+  }
+}
+
+/**
+ * Stops the running download, aborting the requests in flight.
+ */
+export function cancelTrackPrefetch(): void {
+  controller?.abort();
+}
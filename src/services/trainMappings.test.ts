@@ -0,0 +1,62 @@
+// trainMappings.test.ts
+import {
+  MATCHED_MAPPING_TTL_MS,
+  createManualMappings,
+  findMappedTrain,
+  getMappingId,
+  learnMappings,
+} from "./trainMappings";
+import { indexTrains } from "@/lib/train";
+import * as fixtures from "@/test/fixtures";
+import type { TrainMapping } from "@/types";
+
+const makeTrain = (TrainId: number, AllocatedDate: string | null = "2024-01-01T00:00:00") =>
+  fixtures.makeTrain(TrainId, [], { IsLive: true, AllocatedDate });
+
+const delta = fixtures.makeDelta({ id: "4509900:a", trainKey: "4509900", locomitiveNo: "L-1" });
+
+const now = Date.UTC(2024, 0, 1, 10);
+
+const toIndex = (mappings: TrainMapping[]) => new Map(mappings.map((mapping) => [mapping.id, mapping]));
+
+describe("learnMappings", () => {
+  it("maps every identifier of a delta and reinforces repeated matches", () => {
+    const train = makeTrain(1);
+    const first = learnMappings(new Map(), delta, train, { confidence: 0.6, now });
+
+    expect(first.map((mapping) => mapping.id)).toEqual(["trainKey:4509900", "variantKey:a", "locomotive:L-1"]);
+    expect(first[2].confidence).toBeLessThan(first[0].confidence);
+
+    const later = now + 10 * 60 * 1000;
+    const second = toIndex(learnMappings(toIndex(first), delta, train, { confidence: 0.6, now: later }));
+    const trainKey = second.get(getMappingId("trainKey", "4509900"))!;
+    expect(trainKey.confidence).toBeGreaterThan(0.6);
+    expect(trainKey.firstSeen).toBe(now);
+    expect(trainKey.expiresAt).toBe(later + MATCHED_MAPPING_TTL_MS);
+  });
+
+  it("skips unchanged mappings seen moments ago", () => {
+    const train = makeTrain(1);
+    const index = toIndex(learnMappings(new Map(), delta, train, { confidence: 1, now }));
+
+    expect(learnMappings(index, delta, train, { confidence: 1, now: now + 1000 })).toEqual([]);
+  });
+
+  it("keeps manual bindings over learned matches", () => {
+    const manual = toIndex(createManualMappings(new Map(), delta, makeTrain(1), now));
+
+    expect(manual.has(getMappingId("locomotive", "L-1"))).toBe(false);
+    const learned = learnMappings(manual, delta, makeTrain(2), { confidence: 0.9, now });
+    expect(learned.map((mapping) => mapping.id)).toEqual(["locomotive:L-1"]);
+  });
+});
+
+describe("findMappedTrain", () => {
+  it("ignores expired mappings and trains allocated on another date", () => {
+    const mappings = toIndex(learnMappings(new Map(), delta, makeTrain(1), { confidence: 0.9, now }));
+
+    expect(findMappedTrain(mappings, delta, indexTrains([makeTrain(1)]), now)?.trainId).toBe(1);
+    expect(findMappedTrain(mappings, delta, indexTrains([makeTrain(1)]), now + MATCHED_MAPPING_TTL_MS + 1)).toBeUndefined();
+    expect(findMappedTrain(mappings, delta, indexTrains([makeTrain(1, "2024-01-02T00:00:00")]), now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,174 @@
+// trainMappings.ts
+import type { LiveTrainDelta, TrainMapping, TrainMappingKind, TrainWithRoute } from '@/types';
+import { getTrainUniqueKey, type TrainIndex } from '@/lib/train';
+import { db } from './db';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** How long a learned train/variant key mapping lives without being seen again */
+export const MATCHED_MAPPING_TTL_MS = 48 * HOUR_MS;
+/** Locomotives move between trains, so their mappings are kept shorter */
+export const LOCOMOTIVE_MAPPING_TTL_MS = 12 * HOUR_MS;
+export const MANUAL_MAPPING_TTL_MS = 30 * 24 * HOUR_MS;
+
+/** Mappings below this confidence are ignored and the delta is matched again */
+export const MIN_MAPPING_CONFIDENCE = 0.5;
+
+/** A match on the train number embedded in the socket key */
+export const TRAIN_NUMBER_MATCH_CONFIDENCE = 0.9;
+/** A match on fuzzy evidence (stations, direction, locomotive) */
+export const SCORED_MATCH_CONFIDENCE = 0.6;
+
+const LOCOMOTIVE_CONFIDENCE_FACTOR = 0.8;
+/** Share of the remaining doubt removed each time a match is confirmed */
+const REINFORCEMENT_RATE = 0.2;
+/** A mapping is confirmed (and rewritten) at most this often */
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+export const getMappingId = (kind: TrainMappingKind, value: string) => `${kind}:${value}`;
+
+const getDeltaKeys = (delta: LiveTrainDelta): Array<{ kind: TrainMappingKind; value: string }> => {
+  const keys: Array<{ kind: TrainMappingKind; value: string }> = [
+    { kind: 'trainKey', value: delta.trainKey },
+    { kind: 'variantKey', value: delta.variantKey }
+  ];
+  if (delta.locomitiveNo) keys.push({ kind: 'locomotive', value: delta.locomitiveNo });
+  return keys;
+};
+
+const getTtl = (kind: TrainMappingKind, source: TrainMapping['source']) =>
+  source === 'manual' ? MANUAL_MAPPING_TTL_MS : kind === 'locomotive' ? LOCOMOTIVE_MAPPING_TTL_MS : MATCHED_MAPPING_TTL_MS;
+
+/**
+ * Confidence of a fresh match, depending on the evidence it was found with.
+ */
+export const getMatchConfidence = (train: TrainWithRoute, delta: LiveTrainDelta): number =>
+  delta.trainNumber != null && train.TrainNumber === delta.trainNumber
+    ? TRAIN_NUMBER_MATCH_CONFIDENCE
+    : SCORED_MATCH_CONFIDENCE;
+
+/**
+ * The mapping to trust for a delta: the most confident live one among its
+ * train key, variant key and locomotive, provided its train is still in the
+ * dataset on the same allocated date.
+ */
+export const findMappedTrain = (
+  mappings: Map<string, TrainMapping>,
+  delta: LiveTrainDelta,
+  index: TrainIndex,
+  now: number = Date.now()
+): TrainMapping | undefined => {
+  let best: TrainMapping | undefined;
+  getDeltaKeys(delta).forEach(({ kind, value }) => {
+    const mapping = mappings.get(getMappingId(kind, value));
+    if (!mapping || mapping.expiresAt <= now || mapping.confidence < MIN_MAPPING_CONFIDENCE) return;
+    if (best && best.confidence >= mapping.confidence) return;
+    const isCurrent =
+      mapping.allocatedDate == null
+        ? index.keysById.has(mapping.trainId)
+        : index.positionByKey.has(getTrainUniqueKey({ TrainId: mapping.trainId, AllocatedDate: mapping.allocatedDate }));
+    if (isCurrent) best = mapping;
+  });
+  return best;
+};
+
+/**
+ * Records that a delta belongs to a train under every identifier it carries.
+ * Returns only the mappings that changed (new, moved to another train, more
+ * confident, or due a lastSeen refresh) so callers can persist just those.
+ * Learned matches never overwrite a live manual mapping.
+ */
+export const learnMappings = (
+  mappings: Map<string, TrainMapping>,
+  delta: LiveTrainDelta,
+  train: TrainWithRoute,
+  { confidence, source = 'matched', now = Date.now() }: { confidence: number; source?: TrainMapping['source']; now?: number }
+): TrainMapping[] => {
+  const changed: TrainMapping[] = [];
+
+  getDeltaKeys(delta).forEach(({ kind, value }) => {
+    const id = getMappingId(kind, value);
+    const existing = mappings.get(id);
+    const keyConfidence =
+      source === 'manual' ? 1 : kind === 'locomotive' ? confidence * LOCOMOTIVE_CONFIDENCE_FACTOR : confidence;
+    const isLive = existing != null && existing.expiresAt > now;
+
+    if (isLive && existing.source === 'manual' && source !== 'manual' && existing.trainId !== train.TrainId) {
+      return;
+    }
+
+    const isSameTrain =
+      isLive &&
+      existing.trainId === train.TrainId &&
+      (existing.allocatedDate == null || existing.allocatedDate === train.AllocatedDate);
+
+    if (isSameTrain) {
+      const nextSource = existing.source === 'manual' ? 'manual' : source;
+      if (
+        nextSource === existing.source &&
+        existing.allocatedDate === train.AllocatedDate &&
+        now - existing.lastSeen < TOUCH_INTERVAL_MS
+      ) {
+        return;
+      }
+      const reinforced =
+        nextSource === 'manual'
+          ? 1
+          : Math.max(keyConfidence, existing.confidence + (1 - existing.confidence) * REINFORCEMENT_RATE);
+      const nextConfidence = Math.round(reinforced * 1000) / 1000;
+      changed.push({
+        ...existing,
+        allocatedDate: train.AllocatedDate,
+        source: nextSource,
+        confidence: nextConfidence,
+        lastSeen: now,
+        expiresAt: now + getTtl(kind, nextSource)
+      });
+      return;
+    }
+
+    changed.push({
+      id,
+      kind,
+      value,
+      trainId: train.TrainId,
+      allocatedDate: train.AllocatedDate,
+      source,
+      confidence: keyConfidence,
+      firstSeen: now,
+      lastSeen: now,
+      expiresAt: now + getTtl(kind, source)
+    });
+  });
+
+  return changed;
+};
+
+/**
+ * Mappings for a delta bound by hand on the diagnostics page. The locomotive
+ * is left to learning since it will move on to other trains.
+ */
+export const createManualMappings = (
+  mappings: Map<string, TrainMapping>,
+  delta: LiveTrainDelta,
+  train: TrainWithRoute,
+  now: number = Date.now()
+): TrainMapping[] =>
+  learnMappings(mappings, delta, train, { confidence: 1, source: 'manual', now }).filter(
+    (mapping) => mapping.kind !== 'locomotive'
+  );
+
+export const loadTrainMappings = async (now: number = Date.now()): Promise<TrainMapping[]> => {
+  try {
+    await db.trainMappings.where('expiresAt').belowOrEqual(now).delete();
+    return await db.trainMappings.toArray();
+  } catch (error) {
+    console.error('Failed to load train mappings:', error);
+    return [];
+  }
+};
+
+export const saveTrainMappings = async (mappings: TrainMapping[]) => {
+  if (mappings.length === 0) return;
+  await db.trainMappings.bulkPut(mappings);
+};
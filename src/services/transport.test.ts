@@ -0,0 +1,48 @@
+// transport.test.ts
+import { buildReplaySchedule, getLiveTransportConfig } from "./transport";
+
+describe("getLiveTransportConfig", () => {
+  it("falls back to socket.io in real time for unknown values", () => {
+    const config = getLiveTransportConfig({ VITE_LIVE_TRANSPORT: "carrier-pigeon", VITE_LIVE_REPLAY_SPEED: "-2" });
+
+    expect(config.kind).toBe("socketio");
+    expect(config.replaySpeed).toBe(1);
+    expect(config.replayLoop).toBe(true);
+  });
+
+  it("reads the replay options", () => {
+    const config = getLiveTransportConfig({
+      VITE_LIVE_TRANSPORT: "replay",
+      VITE_LIVE_URL: "http://localhost:4000/capture.json",
+      VITE_LIVE_REPLAY_SPEED: "20",
+      VITE_LIVE_REPLAY_LOOP: "false",
+    });
+
+    expect(config).toEqual({
+      kind: "replay",
+      url: "http://localhost:4000/capture.json",
+      replaySpeed: 20,
+      replayLoop: false,
+    });
+  });
+});
+
+describe("buildReplaySchedule", () => {
+  it("orders captured events and scales their offsets by the speed", () => {
+    const schedule = buildReplaySchedule(
+      {
+        events: [
+          { event: "all-newtrains-delta", receivedAt: "2024-01-01T10:00:20.000Z", payload: {} },
+          { event: "all-newtrains", receivedAt: "2024-01-01T10:00:00.000Z", payload: {} },
+          { event: "connect", receivedAt: "2024-01-01T10:00:05.000Z", payload: {} },
+        ],
+      },
+      10
+    );
+
+    expect(schedule.map(({ event, delayMs }) => [event, delayMs])).toEqual([
+      ["all-newtrains", 0],
+      ["all-newtrains-delta", 2000],
+    ]);
+  });
+});
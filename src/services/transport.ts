@@ -0,0 +1,258 @@
+// transport.ts
+import io from 'socket.io-client';
+import type { SocketMessageEnvelope } from '@/types';
+import { SOCKET_OPTIONS, SOCKET_URL } from './liveData';
+
+/**
+ * Where live envelopes come from. `socketio` is the production feed; the
+ * others exist so the app can run against the mock server or a recorded
+ * capture file (see `scripts/mockLiveServer.mjs`).
+ */
+export type LiveTransportKind = 'socketio' | 'websocket' | 'sse' | 'replay';
+
+export const LIVE_EVENTS = ['all-newtrains-delta', 'all-newtrains', 'all-trains-delta'] as const;
+
+export type LiveEventName = (typeof LIVE_EVENTS)[number];
+
+export type TransportEvents = {
+  onConnect?: () => void;
+  onDisconnect?: (reason: string) => void;
+  onReconnectAttempt?: (attempt: number) => void;
+  onReconnect?: (attempt: number) => void;
+  onError?: (error: Error) => void;
+};
+
+export type EnvelopeHandler = (payload: SocketMessageEnvelope, event: LiveEventName) => void;
+
+export interface LiveTransportConfig {
+  kind: LiveTransportKind;
+  /** Socket.io origin, WebSocket/SSE endpoint, or capture file URL for replays */
+  url: string;
+  /** Replay speed factor; 1 replays a capture in real time */
+  replaySpeed: number;
+  /** Start a replay again from the top once it runs out */
+  replayLoop: boolean;
+}
+
+export interface LiveTransport {
+  /** Opens the connection and returns a function that closes it */
+  connect: (onEnvelope: EnvelopeHandler, events: TransportEvents) => () => void;
+}
+
+/** A capture file as written by `scripts/captureSocket.mjs` */
+export interface LiveCapture {
+  meta?: { startedAt?: string };
+  events: Array<{ event: string; receivedAt: string; payload: SocketMessageEnvelope }>;
+}
+
+const TRANSPORT_KINDS: LiveTransportKind[] = ['socketio', 'websocket', 'sse', 'replay'];
+const RECONNECT_DELAY_MS = SOCKET_OPTIONS.reconnectionDelay;
+
+const isLiveEvent = (event: unknown): event is LiveEventName =>
+  typeof event === 'string' && (LIVE_EVENTS as readonly string[]).includes(event);
+
+const parseTransportKind = (value: unknown): LiveTransportKind =>
+  TRANSPORT_KINDS.includes(value as LiveTransportKind) ? (value as LiveTransportKind) : 'socketio';
+
+const parseReplaySpeed = (value: unknown): number => {
+  const speed = Number(value);
+  return Number.isFinite(speed) && speed > 0 ? speed : 1;
+};
+
+/**
+ * Reads the transport from the environment:
+ * VITE_LIVE_TRANSPORT picks the kind, VITE_LIVE_URL its endpoint (defaults
+ * to VITE_PUBLIC_SOCKET_URL), and VITE_LIVE_REPLAY_SPEED / VITE_LIVE_REPLAY_LOOP
+ * tune replays.
+ */
+export const getLiveTransportConfig = (env: Record<string, unknown> = import.meta.env): LiveTransportConfig => ({
+  kind: parseTransportKind(env.VITE_LIVE_TRANSPORT),
+  url: (env.VITE_LIVE_URL as string | undefined) || SOCKET_URL,
+  replaySpeed: parseReplaySpeed(env.VITE_LIVE_REPLAY_SPEED),
+  replayLoop: String(env.VITE_LIVE_REPLAY_LOOP ?? 'true').toLowerCase() !== 'false'
+});
+
+const toError = (value: unknown, fallback: string): Error =>
+  value instanceof Error ? value : new Error(fallback);
+
+const socketIoTransport = (url: string): LiveTransport => ({
+  connect: (onEnvelope, events) => {
+    const socket = io(url, {
+      ...SOCKET_OPTIONS,
+      transports: [...SOCKET_OPTIONS.transports]
+    });
+
+    socket.on('connect', () => events.onConnect?.());
+    socket.on('disconnect', (reason: string) => events.onDisconnect?.(reason));
+    socket.on('connect_error', (error: Error) => events.onError?.(error));
+    socket.on('error', (error: Error) => events.onError?.(error));
+    socket.io.on('reconnect_attempt', (attempt: number) => events.onReconnectAttempt?.(attempt));
+    socket.io.on('reconnect', (attempt: number) => events.onReconnect?.(attempt));
+
+    LIVE_EVENTS.forEach((event) => {
+      socket.on(event, (payload: SocketMessageEnvelope) => onEnvelope(payload, event));
+    });
+
+    return () => {
+      socket.removeAllListeners();
+      socket.disconnect();
+    };
+  }
+});
+
+/**
+ * Shared reconnect loop for the plain WebSocket and SSE transports, which
+ * (unlike socket.io) leave retrying to the caller.
+ */
+const withReconnect = (
+  events: TransportEvents,
+  open: (handlers: { opened: () => void; closed: (reason: string) => void }) => () => void
+): (() => void) => {
+  let close: (() => void) | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let stopped = false;
+
+  const start = () => {
+    close = open({
+      opened: () => {
+        if (attempt > 0) events.onReconnect?.(attempt);
+        else events.onConnect?.();
+        attempt = 0;
+      },
+      closed: (reason) => {
+        close = null;
+        if (stopped) return;
+        events.onDisconnect?.(reason);
+        attempt += 1;
+        events.onReconnectAttempt?.(attempt);
+        retryTimer = setTimeout(start, RECONNECT_DELAY_MS);
+      }
+    });
+  };
+
+  start();
+
+  return () => {
+    stopped = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    close?.();
+  };
+};
+
+// Expects one JSON message per event: { "event": "all-newtrains-delta", "payload": { ... } }
+const webSocketTransport = (url: string): LiveTransport => ({
+  connect: (onEnvelope, events) =>
+    withReconnect(events, ({ opened, closed }) => {
+      const socket = new WebSocket(url.replace(/^http/, 'ws'));
+      socket.onopen = opened;
+      socket.onclose = (event) => closed(event.reason || 'transport close');
+      socket.onerror = () => events.onError?.(new Error(`WebSocket error on ${url}`));
+      socket.onmessage = (message) => {
+        try {
+          const { event, payload } = JSON.parse(String(message.data));
+          if (isLiveEvent(event) && payload) onEnvelope(payload, event);
+        } catch (error) {
+          events.onError?.(toError(error, 'Malformed live message'));
+        }
+      };
+      return () => {
+        socket.onclose = null;
+        socket.close();
+      };
+    })
+});
+
+// Listens for named server-sent events carrying the envelope as JSON data
+const sseTransport = (url: string): LiveTransport => ({
+  connect: (onEnvelope, events) =>
+    withReconnect(events, ({ opened, closed }) => {
+      const source = new EventSource(url);
+      source.onopen = opened;
+      // EventSource retries by itself; close it so every transport reconnects the same way
+      source.onerror = () => {
+        source.close();
+        events.onError?.(new Error(`Event stream error on ${url}`));
+        closed('transport error');
+      };
+      LIVE_EVENTS.forEach((event) => {
+        source.addEventListener(event, (message) => {
+          try {
+            onEnvelope(JSON.parse((message as MessageEvent<string>).data), event);
+          } catch (error) {
+            events.onError?.(toError(error, 'Malformed live message'));
+          }
+        });
+      });
+      return () => source.close();
+    })
+});
+
+/**
+ * Replay offsets (ms from the first event) for each captured event, scaled
+ * by the speed factor. Events with unknown names or timestamps are dropped.
+ */
+export const buildReplaySchedule = (capture: LiveCapture, speed = 1) => {
+  const events = capture.events
+    .filter((entry) => isLiveEvent(entry.event) && Number.isFinite(Date.parse(entry.receivedAt)))
+    .map((entry) => ({ ...entry, event: entry.event as LiveEventName, at: Date.parse(entry.receivedAt) }))
+    .sort((a, b) => a.at - b.at);
+  const first = events[0]?.at ?? 0;
+  return events.map(({ event, payload, at }) => ({ event, payload, delayMs: (at - first) / speed }));
+};
+
+const replayTransport = (url: string, speed: number, loop: boolean): LiveTransport => ({
+  connect: (onEnvelope, events) => {
+    let stopped = false;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const play = (schedule: ReturnType<typeof buildReplaySchedule>) => {
+      const last = schedule[schedule.length - 1]?.delayMs ?? 0;
+      schedule.forEach(({ event, payload, delayMs }) => {
+        const timer = setTimeout(() => {
+          timers.delete(timer);
+          onEnvelope(payload, event);
+        }, delayMs);
+        timers.add(timer);
+      });
+      const end = setTimeout(() => {
+        timers.delete(end);
+        if (stopped) return;
+        if (loop && schedule.length > 0) play(schedule);
+        else events.onDisconnect?.('replay finished');
+      }, last + RECONNECT_DELAY_MS / speed);
+      timers.add(end);
+    };
+
+    fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load capture ${url} (${response.status})`);
+        return response.json() as Promise<LiveCapture>;
+      })
+      .then((capture) => {
+        if (stopped) return;
+        events.onConnect?.();
+        play(buildReplaySchedule(capture, speed));
+      })
+      .catch((error) => !stopped && events.onError?.(toError(error, 'Failed to load capture')));
+
+    return () => {
+      stopped = true;
+      timers.forEach(clearTimeout);
+      timers.clear();
+    };
+  }
+});
+
+export const createLiveTransport = (config: LiveTransportConfig = getLiveTransportConfig()): LiveTransport => {
+  switch (config.kind) {
+    case 'websocket':
+      return webSocketTransport(config.url);
+    case 'sse':
+      return sseTransport(config.url);
+    case 'replay':
+      return replayTransport(config.url, config.replaySpeed, config.replayLoop);
+    default:
+      return socketIoTransport(config.url);
+  }
+};
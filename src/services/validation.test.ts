@@ -0,0 +1,82 @@
+// validation.test.ts
+import {
+  ApiValidationError,
+  readApiEnvelope,
+  resetValidationReport,
+  sanitizeSocketPayload,
+  validateSocketPayload,
+  validationStore,
+} from "./validation";
+import { readSocketEnvelope } from "./liveData";
+
+const now = Date.UTC(2024, 0, 1, 10);
+const fresh = String(now / 1000);
+
+describe("validateSocketPayload", () => {
+  it("accepts a well-formed payload", () => {
+    expect(
+      validateSocketPayload({ lat: "31.5", lon: "74.3", sp: "80", late_by: "12", last_updated: fresh }, { now })
+    ).toEqual([]);
+  });
+
+  it("classifies rejects by reason", () => {
+    const reasons = (payload: object, stationIds?: Set<number>) =>
+      validateSocketPayload(payload, { now, stationIds }).map((issue) => issue.reason);
+
+    expect(reasons({ lon: "74.3" })).toEqual(["missingCoordinates"]);
+    expect(reasons({ lat: "0", lon: "0" })).toEqual(["outOfBounds"]);
+    expect(reasons({ lat: "31.5", lon: "74.3", last_updated: String(now / 1000 + 3600) })).toEqual([
+      "futureTimestamp",
+    ]);
+    expect(reasons({ lat: "31.5", lon: "74.3", sp: "-20" })).toEqual(["negativeSpeed"]);
+    expect(reasons({ lat: "31.5", lon: "74.3", late_by: "soon" })).toEqual(["invalidNumber"]);
+    expect(reasons({ lat: "31.5", lon: "74.3", next_station: "999" }, new Set([1, 2]))).toEqual([
+      "unknownStation",
+    ]);
+  });
+
+  it("blanks only the fields named by non-fatal issues", () => {
+    const payload = { lat: "31.5", lon: "74.3", sp: "-20", next_station: "2" };
+    const issues = validateSocketPayload(payload, { now });
+
+    expect(sanitizeSocketPayload(payload, issues)).toEqual({ lat: "31.5", lon: "74.3", next_station: "2" });
+  });
+});
+
+describe("readSocketEnvelope", () => {
+  it("keeps sanitised records and reports every rejected field or record", () => {
+    const { deltas, rejects } = readSocketEnvelope(
+      {
+        "1009900": {
+          a: { lat: "31.5", lon: "74.3", sp: "-5", last_updated: fresh },
+          b: { lat: "", lon: "" },
+        },
+      },
+      now
+    );
+
+    expect(deltas).toHaveLength(1);
+    expect(deltas[0].speed).toBeNull();
+    expect(rejects.map((issue) => issue.reason)).toEqual(["negativeSpeed", "missingCoordinates"]);
+  });
+});
+
+describe("validation report", () => {
+  beforeEach(resetValidationReport);
+
+  it("rejects failed API envelopes and drops invalid records", () => {
+    const isNamed = (item: unknown): item is { name: string } => typeof (item as { name?: unknown })?.name === "string";
+
+    expect(() => readApiEnvelope({ IsSuccess: false, ErrorMessage: "down", Response: null }, "/api/trains", isNamed)).toThrow(
+      ApiValidationError
+    );
+    expect(readApiEnvelope({ IsSuccess: true, ErrorMessage: "", Response: [{ name: "a" }, {}] }, "/api/trains", isNamed)).toEqual([
+      { name: "a" },
+    ]);
+    expect(validationStore.getState()).toMatchObject({
+      accepted: 0,
+      apiAccepted: 1,
+      counts: { apiError: 1, invalidRecord: 1 },
+    });
+  });
+});
@@ -0,0 +1,273 @@
+// validation.ts
+import { createStore } from 'zustand/vanilla';
+import type { ApiEnvelope, SocketMessageEnvelope, SocketTrainPayload } from '@/types';
+
+/**
+ * Why an upstream record (or one of its fields) was not used as-is.
+ * Reasons in FATAL_REJECT_REASONS drop the whole record; the others only
+ * blank the offending field.
+ */
+export type RejectReason =
+  | 'malformedEnvelope'
+  | 'missingCoordinates'
+  | 'outOfBounds'
+  | 'futureTimestamp'
+  | 'negativeSpeed'
+  | 'invalidNumber'
+  | 'unknownStation'
+  | 'apiError'
+  | 'invalidRecord';
+
+export const REJECT_REASON_LABELS: Record<RejectReason, string> = {
+  malformedEnvelope: 'Malformed socket envelope',
+  missingCoordinates: 'Missing or non-numeric coordinates',
+  outOfBounds: 'Position outside Pakistan',
+  futureTimestamp: 'Timestamp in the future',
+  negativeSpeed: 'Negative speed',
+  invalidNumber: 'Non-numeric field',
+  unknownStation: 'Unknown station id',
+  apiError: 'API request failed',
+  invalidRecord: 'Invalid API record'
+};
+
+export const FATAL_REJECT_REASONS: ReadonlySet<RejectReason> = new Set([
+  'malformedEnvelope',
+  'missingCoordinates',
+  'outOfBounds',
+  'futureTimestamp',
+  'apiError',
+  'invalidRecord'
+]);
+
+/** Reasons only REST responses are rejected for; the rest are socket reasons */
+export const API_REJECT_REASONS: ReadonlySet<RejectReason> = new Set(['apiError', 'invalidRecord']);
+
+/** Generous bounding box around Pakistan Railways' network */
+export const PAKISTAN_BOUNDS = { south: 23.5, west: 60.5, north: 37.5, east: 78 } as const;
+
+/** Clock skew tolerated before a timestamp counts as future */
+export const FUTURE_TIMESTAMP_TOLERANCE_MS = 5 * 60 * 1000;
+
+/** Rejects kept for the diagnostics panel */
+const RECENT_REJECT_LIMIT = 25;
+
+export interface ValidationIssue {
+  reason: RejectReason;
+  field?: keyof SocketTrainPayload;
+  detail?: string;
+}
+
+export interface SocketPayloadContext {
+  now?: number;
+  /** Station ids of the loaded dataset; unknown ids are only flagged once this is set */
+  stationIds?: ReadonlySet<number> | null;
+}
+
+let knownStationIds: ReadonlySet<number> | null = null;
+
+/**
+ * Station ids socket payloads are checked against. Set whenever the static
+ * dataset is (re)loaded.
+ */
+export const setKnownStationIds = (stationIds: Iterable<number>) => {
+  knownStationIds = new Set(stationIds);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+const NUMERIC_FIELDS = ['late_by', 'sp', 'next_station', 'prev_station', 'last_updated'] as const;
+const STATION_FIELDS = ['next_station', 'prev_station'] as const;
+
+/**
+ * Structural check of a socket envelope: train keys mapping to variant
+ * objects. Payload contents are checked separately per variant.
+ */
+export const isSocketEnvelope = (value: unknown): value is SocketMessageEnvelope =>
+  isRecord(value) && Object.values(value).every(isRecord);
+
+/**
+ * Lists everything wrong with one socket payload. An empty list means the
+ * payload can be used as-is.
+ */
+export const validateSocketPayload = (
+  payload: unknown,
+  { now = Date.now(), stationIds = knownStationIds }: SocketPayloadContext = {}
+): ValidationIssue[] => {
+  if (!isRecord(payload)) {
+    return [{ reason: 'malformedEnvelope', detail: 'variant is not an object' }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const lat = isBlank(payload.lat) ? NaN : Number(payload.lat);
+  const lon = isBlank(payload.lon) ? NaN : Number(payload.lon);
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
+    issues.push({ reason: 'missingCoordinates', detail: `lat=${payload.lat} lon=${payload.lon}` });
+  } else if (
+    lat < PAKISTAN_BOUNDS.south ||
+    lat > PAKISTAN_BOUNDS.north ||
+    lon < PAKISTAN_BOUNDS.west ||
+    lon > PAKISTAN_BOUNDS.east
+  ) {
+    issues.push({ reason: 'outOfBounds', detail: `${lat.toFixed(4)}, ${lon.toFixed(4)}` });
+  }
+
+  NUMERIC_FIELDS.forEach((field) => {
+    if (!isBlank(payload[field]) && !Number.isFinite(Number(payload[field]))) {
+      issues.push({ reason: 'invalidNumber', field, detail: `${field}=${payload[field]}` });
+    }
+  });
+
+  const lastUpdated =
+    typeof payload.__last_updated === 'number'
+      ? payload.__last_updated
+      : isBlank(payload.last_updated)
+        ? NaN
+        : Number(payload.last_updated) * 1000;
+  if (Number.isFinite(lastUpdated) && lastUpdated > now + FUTURE_TIMESTAMP_TOLERANCE_MS) {
+    issues.push({ reason: 'futureTimestamp', field: 'last_updated', detail: new Date(lastUpdated).toISOString() });
+  }
+
+  const speed = Number(payload.sp);
+  if (!isBlank(payload.sp) && Number.isFinite(speed) && speed < 0) {
+    issues.push({ reason: 'negativeSpeed', field: 'sp', detail: `sp=${payload.sp}` });
+  }
+
+  if (stationIds && stationIds.size > 0) {
+    STATION_FIELDS.forEach((field) => {
+      const stationId = Number(payload[field]);
+      if (!isBlank(payload[field]) && Number.isFinite(stationId) && !stationIds.has(stationId)) {
+        issues.push({ reason: 'unknownStation', field, detail: `${field}=${payload[field]}` });
+      }
+    });
+  }
+
+  return issues;
+};
+
+export const isFatalIssue = (issue: ValidationIssue) => FATAL_REJECT_REASONS.has(issue.reason);
+
+/**
+ * Copy of the payload with every field named by a non-fatal issue removed,
+ * so the parser falls back to its defaults for them.
+ */
+export const sanitizeSocketPayload = (
+  payload: SocketTrainPayload,
+  issues: ValidationIssue[]
+): SocketTrainPayload => {
+  const fields = issues.filter((issue) => !isFatalIssue(issue) && issue.field).map((issue) => issue.field!);
+  if (fields.length === 0) return payload;
+  const sanitized = { ...payload };
+  fields.forEach((field) => delete sanitized[field]);
+  return sanitized;
+};
+
+export class ApiValidationError extends Error {
+  constructor(
+    public readonly source: string,
+    message: string
+  ) {
+    super(`${source}: ${message}`);
+    this.name = 'ApiValidationError';
+  }
+}
+
+/**
+ * Checks a list of REST records, dropping (and recording) the ones that fail
+ * the guard. Throws ApiValidationError when the response is not a list at all.
+ */
+export const readApiList = <T>(value: unknown, source: string, isValid: (item: unknown) => item is T): T[] => {
+  if (!Array.isArray(value)) {
+    recordRejects(source, [{ reason: 'apiError', detail: 'response is not a list' }]);
+    throw new ApiValidationError(source, 'response is not a list');
+  }
+  const records = value.filter(isValid);
+  const dropped = value.length - records.length;
+  recordApiAccepted(records.length);
+  if (dropped > 0) {
+    recordRejects(
+      source,
+      Array.from({ length: dropped }, () => ({ reason: 'invalidRecord' as const }))
+    );
+  }
+  return records;
+};
+
+/**
+ * Unwraps an `ApiEnvelope`, throwing ApiValidationError for failed or
+ * malformed responses and dropping invalid records.
+ */
+export const readApiEnvelope = <T>(
+  envelope: unknown,
+  source: string,
+  isValid: (item: unknown) => item is T
+): T[] => {
+  if (!isRecord(envelope) || envelope.IsSuccess === false) {
+    const message =
+      (isRecord(envelope) && typeof envelope.ErrorMessage === 'string' && envelope.ErrorMessage) ||
+      'unsuccessful response';
+    recordRejects(source, [{ reason: 'apiError', detail: message }]);
+    throw new ApiValidationError(source, message);
+  }
+  return readApiList((envelope as Partial<ApiEnvelope<unknown>>).Response, source, isValid);
+};
+
+// --- Reject counters --------------------------------------------------------
+
+export interface RejectedRecord extends ValidationIssue {
+  source: string;
+  at: number;
+}
+
+export interface ValidationReport {
+  /** Socket records */
+  accepted: number;
+  /** REST records, counted apart so they do not skew the socket drop rate */
+  apiAccepted: number;
+  counts: Partial<Record<RejectReason, number>>;
+  /** Most recent first */
+  recent: RejectedRecord[];
+  since: number;
+}
+
+const emptyReport = (): ValidationReport => ({
+  accepted: 0,
+  apiAccepted: 0,
+  counts: {},
+  recent: [],
+  since: Date.now()
+});
+
+/**
+ * Running counts of accepted and rejected records since the page loaded
+ * (or the last reset), read by the diagnostics panel.
+ */
+export const validationStore = createStore<ValidationReport>()(() => emptyReport());
+
+export const recordAccepted = (count: number) => {
+  if (count <= 0) return;
+  validationStore.setState((report) => ({ accepted: report.accepted + count }));
+};
+
+export const recordApiAccepted = (count: number) => {
+  if (count <= 0) return;
+  validationStore.setState((report) => ({ apiAccepted: report.apiAccepted + count }));
+};
+
+export const recordRejects = (source: string, issues: ValidationIssue[]) => {
+  if (issues.length === 0) return;
+  const at = Date.now();
+  validationStore.setState((report) => {
+    const counts = { ...report.counts };
+    issues.forEach(({ reason }) => {
+      counts[reason] = (counts[reason] ?? 0) + 1;
+    });
+    const recent = [...issues.map((issue) => ({ ...issue, source, at })).reverse(), ...report.recent];
+    return { counts, recent: recent.slice(0, RECENT_REJECT_LIMIT) };
+  });
+};
+
+export const resetValidationReport = () => validationStore.setState(emptyReport());
@@ -0,0 +1,77 @@
+// watchlist.test.ts
+import { createWatch, evaluateWatches } from "./watchlist";
+import * as fixtures from "@/test/fixtures";
+import type { LiveTrainDelta, TrainWithRoute } from "@/types";
+import { getTrainUniqueKey } from "@/lib/train";
+
+// The arrival estimates below are worked out with every stop level with the train
+const makeStop = (StationId: number, StationName: string, ArrivalTime: string) =>
+  fixtures.makeStop(StationId, { StationName, ArrivalTime, DepartureTime: ArrivalTime, Latitude: 30 });
+
+// Running at speed between Alpha and Bravo
+const makeTrain = (live: Partial<LiveTrainDelta>) =>
+  fixtures.makeTrain(
+    1,
+    [makeStop(1, "Alpha", "10:00"), makeStop(2, "Bravo", "11:00"), makeStop(3, "Charlie", "11:20")],
+    {
+      IsLive: true,
+      livePosition: fixtures.makeDelta({ nextStationId: 2, prevStationId: 1, speed: 60, trainNumber: 1, ...live }),
+    }
+  );
+
+// Local wall-clock timestamp on an arbitrary day
+const at = (hours: number, minutes = 0) => new Date(2024, 0, 1, hours, minutes).getTime();
+
+describe("evaluateWatches", () => {
+  const lookup = (train: TrainWithRoute) => (trainKey: string) =>
+    getTrainUniqueKey(train) === trainKey ? train : undefined;
+
+  it("fires when the watched station becomes the next stop", () => {
+    const train = makeTrain({ nextStationId: 3, prevStationId: 2 });
+    const watch = createWatch(train, train.route[2]);
+
+    const { alerts, updated } = evaluateWatches([watch], lookup(train), at(9));
+
+    expect(alerts.map((alert) => alert.trigger)).toEqual(["approaching"]);
+    expect(alerts[0].url).toBe("/train/1/no-date");
+    expect(updated[0].firedTriggers).toEqual(["approaching"]);
+  });
+
+  it("fires once when the estimated arrival drops under the lead time", () => {
+    const train = makeTrain({ lateBy: 5 });
+    const watch = createWatch(train, train.route[2], { leadMinutes: 20 });
+
+    expect(evaluateWatches([watch], lookup(train), at(10, 50)).alerts).toHaveLength(0);
+
+    const first = evaluateWatches([watch], lookup(train), at(11, 2));
+    expect(first.alerts.map((alert) => alert.trigger)).toEqual(["arrivingSoon"]);
+
+    const second = evaluateWatches(first.updated, lookup(train), at(11, 3));
+    expect(second.alerts).toHaveLength(0);
+  });
+
+  it("re-arms the late trigger after the delay recovers", () => {
+    const lateTrain = makeTrain({ lateBy: 20 });
+    const watch = createWatch(lateTrain, lateTrain.route[2], { lateThresholdMinutes: 15 });
+
+    const first = evaluateWatches([watch], lookup(lateTrain), at(9));
+    expect(first.alerts.map((alert) => alert.trigger)).toEqual(["late"]);
+
+    const recovered = evaluateWatches(first.updated, lookup(makeTrain({ lateBy: 5 })), at(9));
+    expect(recovered.alerts).toHaveLength(0);
+    expect(recovered.updated[0].firedTriggers).toEqual([]);
+
+    const again = evaluateWatches(recovered.updated, lookup(lateTrain), at(9));
+    expect(again.alerts.map((alert) => alert.trigger)).toEqual(["late"]);
+  });
+
+  it("expires watches once the train has passed the station", () => {
+    const train = makeTrain({ nextStationId: 3, prevStationId: 2 });
+    const watch = createWatch(train, train.route[1]);
+
+    const { alerts, expired } = evaluateWatches([watch], lookup(train), at(10));
+
+    expect(alerts).toHaveLength(0);
+    expect(expired).toEqual([watch.id]);
+  });
+});
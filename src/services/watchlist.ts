@@ -0,0 +1,208 @@
+// watchlist.ts
+import type { TrainStop, TrainWatch, TrainWithRoute, WatchTrigger } from '@/types';
+import { db } from './db';
+import { getTrainUniqueKey, predictTrainStops } from '@/lib/train';
+import { buildTrainPath } from '@/lib/routes';
+import { formatLateBy, getMinutesUntilArrival } from '@/utils/time';
+
+export const DEFAULT_WATCH_LEAD_MINUTES = 15;
+export const DEFAULT_WATCH_LATE_THRESHOLD_MINUTES = 15;
+
+export interface WatchAlert {
+  watchId: string;
+  trigger: WatchTrigger;
+  title: string;
+  body: string;
+  /** Deep link opened when the notification is clicked */
+  url: string;
+}
+
+export interface WatchEvaluation {
+  alerts: WatchAlert[];
+  /** Watches whose fired triggers changed */
+  updated: TrainWatch[];
+  /** Watches whose train has already passed the station */
+  expired: string[];
+}
+
+export const getWatchId = (trainKey: string, stationId: number) => `${trainKey}@${stationId}`;
+
+export const createWatch = (
+  train: TrainWithRoute,
+  stop: Pick<TrainStop, 'StationId' | 'StationName'>,
+  options: { leadMinutes?: number; lateThresholdMinutes?: number } = {}
+): TrainWatch => {
+  const trainKey = getTrainUniqueKey(train);
+  return {
+    id: getWatchId(trainKey, stop.StationId),
+    trainKey,
+    trainId: train.TrainId,
+    trainName: train.TrainName,
+    stationId: stop.StationId,
+    stationName: stop.StationName,
+    leadMinutes: options.leadMinutes ?? DEFAULT_WATCH_LEAD_MINUTES,
+    lateThresholdMinutes: options.lateThresholdMinutes ?? DEFAULT_WATCH_LATE_THRESHOLD_MINUTES,
+    createdAt: Date.now(),
+    firedTriggers: []
+  };
+};
+
+export const loadWatches = async (): Promise<TrainWatch[]> => {
+  try {
+    return await db.watches.toArray();
+  } catch (error) {
+    console.error('Failed to load watches:', error);
+    return [];
+  }
+};
+
+export const saveWatches = async (watches: TrainWatch[]) => {
+  if (watches.length === 0) return;
+  await db.watches.bulkPut(watches);
+};
+
+export const deleteWatches = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  await db.watches.bulkDelete(ids);
+};
+
+const buildAlert = (
+  watch: TrainWatch,
+  trigger: WatchTrigger,
+  minutesUntil: number | null,
+  lateBy: number
+): WatchAlert => {
+  const base = { watchId: watch.id, trigger, url: buildTrainPath(watch.trainKey) };
+
+  switch (trigger) {
+    case 'approaching':
+      return {
+        ...base,
+        title: `${watch.trainName} is heading to ${watch.stationName}`,
+        body: `${watch.stationName} is now the next stop (${formatLateBy(lateBy)}).`
+      };
+    case 'arrivingSoon':
+      return {
+        ...base,
+        title: `${watch.trainName} arrives at ${watch.stationName} soon`,
+        body:
+          minutesUntil != null && minutesUntil > 0
+            ? `Expected in about ${minutesUntil} min (${formatLateBy(lateBy)}).`
+            : `Expected any moment now (${formatLateBy(lateBy)}).`
+      };
+    case 'late':
+      return {
+        ...base,
+        title: `${watch.trainName} is running ${formatLateBy(lateBy)}`,
+        body: `The delay passed your ${watch.lateThresholdMinutes} min threshold for ${watch.stationName}.`
+      };
+  }
+};
+
+/**
+ * Checks every watch against the current live state. Each trigger fires once
+ * per watch; the late trigger re-arms when the delay drops back under the
+ * threshold so a second crossing notifies again. Only the watched trains are
+ * looked up, by unique key.
+ */
+export const evaluateWatches = (
+  watches: TrainWatch[],
+  findTrain: (trainKey: string) => TrainWithRoute | undefined,
+  now: number = Date.now()
+): WatchEvaluation => {
+  const result: WatchEvaluation = { alerts: [], updated: [], expired: [] };
+
+  watches.forEach((watch) => {
+    const train = findTrain(watch.trainKey);
+    const live = train?.livePosition;
+    if (!train || !live) return;
+
+    const stopIndex = train.route.findIndex((stop) => stop.StationId === watch.stationId);
+    if (stopIndex === -1) {
+      result.expired.push(watch.id);
+      return;
+    }
+
+    const nextIndex = train.route.findIndex((stop) => stop.StationId === live.nextStationId);
+    const hasPassed =
+      live.prevStationId === watch.stationId || (nextIndex !== -1 && stopIndex < nextIndex);
+    if (hasPassed) {
+      result.expired.push(watch.id);
+      return;
+    }
+
+    const stop = train.route[stopIndex];
+    const lateBy = live.lateBy ?? 0;
+    const prediction = predictTrainStops(train, { now })?.byStationId.get(watch.stationId);
+    const minutesUntil = prediction
+      ? Math.round((prediction.predictedArrival - now) / 60000)
+      : getMinutesUntilArrival(stop.ArrivalTime ?? stop.DepartureTime, lateBy, now);
+    const isLate = lateBy >= watch.lateThresholdMinutes;
+    const fired = new Set(watch.firedTriggers);
+    const triggered: WatchTrigger[] = [];
+
+    if (live.nextStationId === watch.stationId && !fired.has('approaching')) {
+      triggered.push('approaching');
+    }
+    if (minutesUntil !== null && minutesUntil <= watch.leadMinutes && !fired.has('arrivingSoon')) {
+      triggered.push('arrivingSoon');
+    }
+    if (isLate && !fired.has('late')) {
+      triggered.push('late');
+    }
+
+    const firedTriggers = [...watch.firedTriggers, ...triggered].filter(
+      (trigger) => trigger !== 'late' || isLate
+    );
+    if (triggered.length > 0 || firedTriggers.length !== watch.firedTriggers.length) {
+      result.updated.push({ ...watch, firedTriggers });
+    }
+    triggered.forEach((trigger) =>
+      result.alerts.push(buildAlert(watch, trigger, minutesUntil, lateBy))
+    );
+  });
+
+  return result;
+};
+
+/**
+ * Asks for notification permission if it has not been decided yet.
+ * Must be called from a user gesture.
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (typeof Notification === 'undefined') return false;
+  if (Notification.permission !== 'default') return Notification.permission === 'granted';
+  try {
+    return (await Notification.requestPermission()) === 'granted';
+  } catch (error) {
+    console.error('Failed to request notification permission:', error);
+    return false;
+  }
+};
+
+/**
+ * Shows an alert through the service worker so it also appears while the tab
+ * is in the background, falling back to a page notification without one.
+ */
+export const showWatchAlert = async (alert: WatchAlert) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+  const options: NotificationOptions = {
+    body: alert.body,
+    tag: `${alert.watchId}:${alert.trigger}`,
+    icon: '/logo.png',
+    data: { url: alert.url }
+  };
+
+  try {
+    const registration =
+      'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(alert.title, options);
+      return;
+    }
+    new Notification(alert.title, options);
+  } catch (error) {
+    console.error('Failed to show watch notification:', error);
+  }
+};
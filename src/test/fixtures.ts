@@ -0,0 +1,66 @@
+// fixtures.ts
+// Shared builders for the train, stop and live position records the tests work with
+import type { LiveTrainDelta, TrainStop, TrainWithRoute } from "@/types";
+
+// A stop one degree of latitude further along the line for each station
+export const makeStop = (StationId: number, overrides: Partial<TrainStop> = {}): TrainStop => ({
+  TrainNumber: 1,
+  TrainName: "Test Express",
+  StationId,
+  ArrivalTime: null,
+  IsDayChanged: null,
+  DayCount: null,
+  DepartureTime: null,
+  IsUp: 1,
+  OrderNumber: StationId,
+  StationName: `Station ${StationId}`,
+  Latitude: 30 + StationId,
+  Longitude: 70,
+  ...overrides,
+});
+
+export const makeTrain = (
+  TrainId: number,
+  route: TrainStop[] = [],
+  overrides: Partial<TrainWithRoute> = {}
+): TrainWithRoute => ({
+  TrainId,
+  TrainNumber: TrainId,
+  TrainName: `Train ${TrainId}`,
+  TrainNameUR: "",
+  TrainNameWithNumber: "",
+  TrainDescription: null,
+  IsActive: true,
+  Imei: null,
+  IsLive: false,
+  IsUp: true,
+  LocomotiveNumber: null,
+  TrainRideId: TrainId,
+  AllocatedDate: null,
+  route,
+  ...overrides,
+});
+
+export const makeDelta = (overrides: Partial<LiveTrainDelta> = {}): LiveTrainDelta => ({
+  id: "1:a",
+  trainKey: "1",
+  variantKey: "a",
+  locomitiveNo: null,
+  lat: 30,
+  lon: 70,
+  lastUpdated: 0,
+  lateBy: 0,
+  nextStationId: null,
+  nextStopName: null,
+  prevStationId: null,
+  speed: null,
+  trainNumber: null,
+  dayNumber: null,
+  isTrainStation: false,
+  isTrainStop: false,
+  isFlagged: false,
+  iconUrl: null,
+  statusCode: null,
+  direction: "up",
+  ...overrides,
+});
@@ -78,6 +78,54 @@ export interface LiveTrainDelta {
   direction: 'up' | 'down' | 'unknown';
 }
 
+export type WatchTrigger = 'approaching' | 'arrivingSoon' | 'late';
+
+export type TrainMappingKind = 'trainKey' | 'variantKey' | 'locomotive';
+
+/**
+ * A socket identifier (train key, variant key or locomotive number) learned
+ * to belong to a train, consulted before fuzzy matching.
+ */
+export interface TrainMapping {
+  /** `${kind}:${value}` */
+  id: string;
+  kind: TrainMappingKind;
+  value: string;
+  trainId: number;
+  /** AllocatedDate of the train when the mapping was learned */
+  allocatedDate: string | null;
+  /** `manual` mappings were bound on the diagnostics page and win over learned ones */
+  source: 'manual' | 'matched';
+  /** 0-1; manual mappings are 1 */
+  confidence: number;
+  firstSeen: number;
+  lastSeen: number;
+  expiresAt: number;
+}
+
+export interface TrainWatch {
+  /** `${trainKey}@${stationId}` */
+  id: string;
+  /** Train unique key (TrainId + allocated date) */
+  trainKey: string;
+  trainId: number;
+  trainName: string;
+  stationId: number;
+  stationName: string;
+  /** Notify when the estimated arrival is at most this many minutes away */
+  leadMinutes: number;
+  /** Notify when the delay reaches this many minutes */
+  lateThresholdMinutes: number;
+  createdAt: number;
+  /** Triggers that already produced a notification for this watch */
+  firedTriggers: WatchTrigger[];
+}
+
+export interface RunHistoryEntry extends LiveTrainDelta {
+  trainId: number | null;
+  recordedAt: number;
+}
+
 export interface TrainWithRoute extends TrainSummary {
   route: TrainStop[];
   upcomingStop?: TrainStop;
@@ -87,13 +135,77 @@ export interface TrainWithRoute extends TrainSummary {
   selectedRunId?: string;
 }
 
+/**
+ * The live half of a TrainWithRoute: what the live worker posts for a changed
+ * train instead of the whole train with its route.
+ */
+export interface TrainLiveFields {
+  IsLive: boolean;
+  liveRuns?: LiveTrainDelta[];
+  selectedRunId?: string;
+  upcomingStationId?: number;
+  previousStationId?: number;
+}
+
+/**
+ * The live fields of a train, stored apart from its static route and
+ * schedule so socket batches only rewrite what changed.
+ */
+export interface TrainLiveState extends TrainLiveFields {
+  /** Unique key of the train entry, so each date of a service keeps its own run */
+  key: string;
+  TrainId: number;
+  updatedAt: number;
+}
+
+/**
+ * What was last downloaded for one static API resource, to tell whether a
+ * background refresh found new timetables.
+ */
+export interface DatasetVersion {
+  resource: string;
+  etag?: string;
+  lastModified?: string;
+  /** Hash of the response body, for servers that send no validators */
+  hash: string;
+  /** When the resource was last fetched */
+  checkedAt: number;
+  /** When its content last changed */
+  changedAt: number;
+}
+
 export interface TrainFilters {
   search: string;
   onlyLive: boolean;
   onlyPassenger: boolean;
+  onlyFavourites: boolean;
   direction: 'all' | 'up' | 'down';
 }
 
+export type FavouriteKind = 'train' | 'station';
+
+/**
+ * A train or station pinned by the user. Trains are pinned by TrainId, so
+ * every allocated date of a favourite train counts.
+ */
+export interface Favourite {
+  /** `${kind}:${targetId}` */
+  id: string;
+  kind: FavouriteKind;
+  /** TrainId or StationId */
+  targetId: number;
+  name: string;
+  createdAt: number;
+}
+
+/** Background revalidation of the static dataset */
+export interface DatasetSyncStatus {
+  state: 'idle' | 'syncing' | 'error';
+  /** When the stored dataset was last confirmed current */
+  syncedAt?: number;
+  lastError?: string;
+}
+
 export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'error';
 
 export interface SocketMessageEnvelope {
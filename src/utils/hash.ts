@@ -0,0 +1,12 @@
+/**
+ * FNV-1a over the text, prefixed with its length; enough to notice that a
+ * response body changed, not for anything security related
+ */
+export const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${text.length.toString(36)}-${(hash >>> 0).toString(36)}`;
+};
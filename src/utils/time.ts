@@ -1,11 +1,10 @@
 const RELATIVE_TIME_FORMATTER = new Intl.RelativeTimeFormat('en', { numeric: 'auto' });
 
-export const formatRelativeTime = (timestamp: number | null | undefined): string => {
+export const formatRelativeTime = (timestamp: number | null | undefined, now: number = Date.now()): string => {
   if (!timestamp) {
     return 'No updates';
   }
 
-  const now = Date.now();
   const diffMs = timestamp - now;
   const diffMinutes = Math.round(diffMs / 60000);
 
@@ -13,7 +12,16 @@ export const formatRelativeTime = (timestamp: number | null | undefined): string
     return 'Just now';
   }
 
-  return RELATIVE_TIME_FORMATTER.format(diffMinutes, 'minute');
+  if (Math.abs(diffMinutes) < 60) {
+    return RELATIVE_TIME_FORMATTER.format(diffMinutes, 'minute');
+  }
+
+  const diffHours = Math.round(diffMinutes / 60);
+  if (Math.abs(diffHours) < 48) {
+    return RELATIVE_TIME_FORMATTER.format(diffHours, 'hour');
+  }
+
+  return RELATIVE_TIME_FORMATTER.format(Math.round(diffHours / 24), 'day');
 };
 
 export const formatDuration = (totalMinutes: number | null | undefined): string => {
@@ -100,11 +108,87 @@ export const formatDistance = (distanceKm: number | null | undefined): string =>
 };
 
 /**
- * Calculate expected arrival time based on distance and current speed
+ * Format a byte count for storage figures, e.g. "4.2 MB"
+ */
+export const formatBytes = (bytes: number | null | undefined): string => {
+  if (bytes == null || Number.isNaN(bytes)) {
+    return '—';
+  }
+
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+/**
+ * Format a timestamp as a 12-hour clock time, e.g. "4:05 PM"
+ */
+export const formatClockTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const hours = date.getHours();
+  const minutes = date.getMinutes();
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const hours12 = hours % 12 || 12;
+  return `${hours12}:${minutes.toString().padStart(2, '0')} ${period}`;
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Parse an "HH:MM" or "HH:MM:SS" timetable string into minutes after midnight
+ */
+export const parseTimeToMinutes = (time: string | null | undefined): number | null => {
+  if (!time) return null;
+  const [hourPart, minutePart = '0'] = time.split(':');
+  const hours = Number.parseInt(hourPart, 10);
+  const minutes = Number.parseInt(minutePart.slice(0, 2), 10);
+  if (Number.isNaN(hours) || Number.isNaN(minutes)) return null;
+  return hours * 60 + minutes;
+};
+
+/**
+ * Minutes from `now` until a timetable time shifted by `lateBy`.
+ * Times more than 12 hours away are wrapped onto the neighbouring day.
+ */
+export const getMinutesUntilArrival = (
+  arrivalTime: string | null | undefined,
+  lateBy: number | null | undefined,
+  now: number = Date.now()
+): number | null => {
+  const arrivalMinutes = parseTimeToMinutes(arrivalTime);
+  if (arrivalMinutes === null) return null;
+
+  const current = new Date(now);
+  const currentMinutes = current.getHours() * 60 + current.getMinutes();
+  const delay = lateBy != null && !Number.isNaN(lateBy) ? Math.round(lateBy) : 0;
+
+  let minutesUntil = arrivalMinutes + delay - currentMinutes;
+  if (minutesUntil < -720) {
+    minutesUntil += MINUTES_PER_DAY;
+  } else if (minutesUntil > 720) {
+    minutesUntil -= MINUTES_PER_DAY;
+  }
+
+  return minutesUntil;
+};
+
+/**
+ * Calculate expected arrival time based on distance and current speed,
+ * measured from `now` (defaults to the current time)
  */
 export const calculateExpectedArrival = (
   distanceKm: number,
-  currentSpeed: number | null
+  currentSpeed: number | null,
+  now: number = Date.now()
 ): { minutes: number; timeString: string; durationLabel: string } | null => {
   if (!currentSpeed || currentSpeed < 5 || Number.isNaN(distanceKm) || distanceKm < 0) {
     return null;
@@ -114,17 +198,9 @@ export const calculateExpectedArrival = (
   const hoursToArrival = distanceKm / currentSpeed;
   const minutesToArrival = Math.round(hoursToArrival * 60);
 
-  const now = new Date();
-  const arrivalTime = new Date(now.getTime() + minutesToArrival * 60000);
-  
-  const hours = arrivalTime.getHours();
-  const minutes = arrivalTime.getMinutes();
-  const period = hours >= 12 ? 'PM' : 'AM';
-  const hours12 = hours % 12 || 12;
-
   return {
     minutes: minutesToArrival,
-    timeString: `${hours12}:${minutes.toString().padStart(2, '0')} ${period}`,
+    timeString: formatClockTime(now + minutesToArrival * 60000),
     durationLabel: formatDuration(minutesToArrival)
   };
 };
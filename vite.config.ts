@@ -1,13 +1,40 @@
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const PRECACHED_ASSET = /\.(js|css|woff2?|png|svg|webp)$/;
+
+// Emits precache-manifest.js listing the built assets for the service worker
+// (public/service-worker.js). Asset names carry content hashes, so the manifest
+// version changes exactly when a deploy changes what needs caching.
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const urls = Object.keys(bundle)
+      .filter((fileName) => PRECACHED_ASSET.test(fileName))
+      .sort()
+      .map((fileName) => `/${fileName}`);
+    const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.js',
+      source: `self.__PRECACHE_MANIFEST = ${JSON.stringify({ version, urls })};\n`
+    });
+  }
+});
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   server: {
     port: 5173,
     open: true,
     strictPort: false
   },
+  // The live worker is a module worker (see src/services/liveWorkerClient.ts)
+  worker: {
+    format: 'es'
+  },
   resolve: {
     alias: {
       '@': '/src'
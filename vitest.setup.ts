@@ -1 +1,3 @@
 import '@testing-library/jest-dom/vitest';
+// IndexedDB for the modules that store through Dexie
+import 'fake-indexeddb/auto';